@@ -57,6 +57,7 @@ const updateStatusArgsValidators = {
     v.literal("draft"),
     v.literal("scripting"),
     v.literal("storyboarding"),
+    v.literal("animatic"),
     v.literal("production"),
     v.literal("completed")
   ),
@@ -504,9 +505,10 @@ describe("projects validators", () => {
         expect(literalValues).toContain("draft");
         expect(literalValues).toContain("scripting");
         expect(literalValues).toContain("storyboarding");
+        expect(literalValues).toContain("animatic");
         expect(literalValues).toContain("production");
         expect(literalValues).toContain("completed");
-        expect(literalValues.length).toBe(5);
+        expect(literalValues.length).toBe(6);
       });
 
       it("should not accept invalid status values", () => {
@@ -702,9 +704,9 @@ describe("projects validators", () => {
     });
 
     describe("status values are exactly as expected", () => {
-      it("should only have 5 status values", () => {
+      it("should only have 6 status values", () => {
         const literalValues = getLiteralValuesFromUnion(updateStatusArgsValidators.status);
-        expect(literalValues.length).toBe(5);
+        expect(literalValues.length).toBe(6);
       });
 
       it("should have string literal values for status", () => {
@@ -0,0 +1,26 @@
+import { assertSplitPoint } from "../scenes";
+
+describe("scenes.split", () => {
+  const voiceover = "It began at dawn. By noon it was over.";
+
+  it("should accept a split point inside the voiceover", () => {
+    expect(() => assertSplitPoint(voiceover, 18)).not.toThrow();
+    expect(() => assertSplitPoint(voiceover, 1)).not.toThrow();
+    expect(() => assertSplitPoint(voiceover, voiceover.length - 1)).not.toThrow();
+  });
+
+  it.each([
+    ["negative", -3],
+    ["at the start", 0],
+    ["fractional", 4.5],
+    ["at the end", voiceover.length],
+    ["past the end", voiceover.length + 10],
+    ["not a number", NaN],
+  ])("should reject a split point that is %s", (_, splitAt) => {
+    expect(() => assertSplitPoint(voiceover, splitAt)).toThrow("Split point must be inside the scene's voiceover");
+  });
+
+  it("should reject any split of an empty voiceover", () => {
+    expect(() => assertSplitPoint("", 0)).toThrow();
+  });
+});
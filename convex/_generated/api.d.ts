@@ -9,10 +9,12 @@
  */
 
 import type * as audioTracks from "../audioTracks.js";
+import type * as brandKits from "../brandKits.js";
 import type * as frames from "../frames.js";
 import type * as http from "../http.js";
 import type * as migrations from "../migrations.js";
 import type * as projects from "../projects.js";
+import type * as renders from "../renders.js";
 import type * as scenes from "../scenes.js";
 import type * as storyboards from "../storyboards.js";
 import type * as tasks from "../tasks.js";
@@ -26,10 +28,12 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   audioTracks: typeof audioTracks;
+  brandKits: typeof brandKits;
   frames: typeof frames;
   http: typeof http;
   migrations: typeof migrations;
   projects: typeof projects;
+  renders: typeof renders;
   scenes: typeof scenes;
   storyboards: typeof storyboards;
   tasks: typeof tasks;
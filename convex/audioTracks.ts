@@ -1,5 +1,6 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getActiveScript, getScriptAudioTracks } from "./scenes";
 
 // Helper to get authenticated user ID from Clerk JWT
 async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
@@ -13,6 +14,8 @@ export const create = mutation({
     type: v.union(v.literal("voiceover"), v.literal("music")),
     audioUrl: v.string(),
     duration: v.optional(v.number()),
+    lineTimings: v.optional(v.string()),
+    segments: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -23,9 +26,13 @@ export const create = mutation({
       throw new Error("Project not found");
     }
 
+    // Narration is recorded for the script version in use
+    const script = args.type === "voiceover" ? await getActiveScript(ctx, project) : null;
+
     const now = Date.now();
     return await ctx.db.insert("audioTracks", {
       ...args,
+      scriptId: script?._id,
       createdAt: now,
     });
   },
@@ -42,10 +49,9 @@ export const getByProject = query({
       return [];
     }
 
-    return await ctx.db
-      .query("audioTracks")
-      .withIndex("by_project", (q) => q.eq("projectId", projectId))
-      .collect();
+    // The music, and the voiceover of the active script version
+    const script = await getActiveScript(ctx, project);
+    return await getScriptAudioTracks(ctx, projectId, script?._id);
   },
 });
 
@@ -63,12 +69,9 @@ export const getByType = query({
       return null;
     }
 
-    return await ctx.db
-      .query("audioTracks")
-      .withIndex("by_project_type", (q) =>
-        q.eq("projectId", projectId).eq("type", type)
-      )
-      .first();
+    const script = await getActiveScript(ctx, project);
+    const tracks = await getScriptAudioTracks(ctx, projectId, script?._id);
+    return tracks.find((track) => track.type === type) ?? null;
   },
 });
 
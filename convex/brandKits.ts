@@ -0,0 +1,69 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+// Helper to get authenticated user ID from Clerk JWT
+async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject ?? null;
+}
+
+export const get = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    return await ctx.db
+      .query("brandKits")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+  },
+});
+
+export const save = mutation({
+  args: {
+    logoUrl: v.optional(v.string()),
+    logoPosition: v.union(
+      v.literal("top_left"),
+      v.literal("top_right"),
+      v.literal("bottom_left"),
+      v.literal("bottom_right")
+    ),
+    logoOpacity: v.number(),
+    fontUrl: v.optional(v.string()),
+    fontName: v.optional(v.string()),
+    textColor: v.string(),
+    accentColor: v.string(),
+    boxColor: v.string(),
+    captionStyle: v.union(v.literal("plain"), v.literal("outline"), v.literal("box")),
+    safeAreaMargin: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    if (args.logoOpacity < 0 || args.logoOpacity > 1) {
+      throw new Error("Logo opacity must be between 0 and 1");
+    }
+    if (args.safeAreaMargin < 0 || args.safeAreaMargin > 0.2) {
+      throw new Error("Safe area margin must be between 0 and 0.2");
+    }
+
+    const existing = await ctx.db
+      .query("brandKits")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+
+    // Replace rather than patch, so clearing the logo or font removes it
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...args, userId, updatedAt: Date.now() });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("brandKits", {
+      ...args,
+      userId,
+      updatedAt: Date.now(),
+    });
+  },
+});
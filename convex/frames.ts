@@ -1,5 +1,6 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getActiveScript } from "./scenes";
 
 // Helper to get authenticated user ID from Clerk JWT
 async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
@@ -27,14 +28,16 @@ export const createMany = mutation({
       throw new Error("Project not found");
     }
 
-    // Delete any existing frames for this project (prevents duplicates from double-clicks)
-    const existingFrames = await ctx.db
-      .query("frames")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
-
-    for (const frame of existingFrames) {
-      await ctx.db.delete(frame._id);
+    // Delete any existing frames for these scenes (prevents duplicates from double-clicks).
+    // Frames of other script versions are left alone.
+    for (const { sceneId } of args.frames) {
+      const existingFrames = await ctx.db
+        .query("frames")
+        .withIndex("by_scene", (q) => q.eq("sceneId", sceneId))
+        .collect();
+      for (const frame of existingFrames) {
+        await ctx.db.delete(frame._id);
+      }
     }
 
     const now = Date.now();
@@ -69,7 +72,16 @@ export const getByProject = query({
       .withIndex("by_project", (q) => q.eq("projectId", projectId))
       .collect();
 
-    return frames.sort((a, b) => a.frameNumber - b.frameNumber);
+    // Only frames for the active script version's scenes
+    const script = await getActiveScript(ctx, project);
+    const scenes = script
+      ? await ctx.db.query("scenes").withIndex("by_script", (q) => q.eq("scriptId", script._id)).collect()
+      : [];
+    const sceneIds = new Set(scenes.map((scene) => scene._id));
+
+    return frames
+      .filter((frame) => sceneIds.has(frame.sceneId))
+      .sort((a, b) => a.frameNumber - b.frameNumber);
   },
 });
 
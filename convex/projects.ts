@@ -101,6 +101,7 @@ export const updateStatus = mutation({
       v.literal("draft"),
       v.literal("scripting"),
       v.literal("storyboarding"),
+      v.literal("animatic"),
       v.literal("production"),
       v.literal("completed")
     ),
@@ -139,6 +140,7 @@ export const update = mutation({
     multiCharacter: v.optional(v.boolean()),
     language: v.optional(v.string()),
     backgroundMusicEnabled: v.optional(v.boolean()),
+    overlays: v.optional(v.string()),
   },
   handler: async (ctx, { projectId, ...updates }) => {
     const userId = await getAuthUserId(ctx);
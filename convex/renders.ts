@@ -0,0 +1,189 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getActiveScript, getScriptAudioTracks, getScriptScenes } from "./scenes";
+
+// Helper to get authenticated user ID from Clerk JWT
+async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject ?? null;
+}
+
+// The render service signs in with a shared secret rather than a user token: a render
+// outlives the token of the user who started it
+function assertRenderService(secret: string) {
+  const expected = process.env.RENDER_SERVICE_SECRET;
+  if (!expected || secret !== expected) throw new Error("Unauthorized");
+}
+
+// A render whose service instance stopped reporting for this long is handed to another instance
+const RENDER_STALE_MS = 5 * 60 * 1000;
+
+// Queue a render for the render service to pick up; returns the generationTasks id
+export const queue = mutation({
+  args: {
+    projectId: v.id("projects"),
+    options: v.string(), // WorkerExportOptions (JSON)
+  },
+  handler: async (ctx, { projectId, options }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error("Project not found");
+    }
+
+    const now = Date.now();
+    const taskId = await ctx.db.insert("generationTasks", {
+      projectId,
+      taskType: "video_render",
+      externalTaskId: "",
+      renderOptions: options,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+    // Renders have no external provider; the task is its own id
+    await ctx.db.patch(taskId, { externalTaskId: taskId });
+    return taskId;
+  },
+});
+
+// Take the oldest waiting render (or one abandoned by a dead instance) for the calling service instance
+export const claim = mutation({
+  args: { secret: v.string() },
+  handler: async (ctx, { secret }) => {
+    assertRenderService(secret);
+
+    const now = Date.now();
+    const pending = await ctx.db
+      .query("generationTasks")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .filter((q) => q.eq(q.field("taskType"), "video_render"))
+      .first();
+    const task = pending ?? await ctx.db
+      .query("generationTasks")
+      .withIndex("by_status", (q) => q.eq("status", "processing"))
+      .filter((q) => q.and(
+        q.eq(q.field("taskType"), "video_render"),
+        q.lt(q.field("updatedAt"), now - RENDER_STALE_MS)
+      ))
+      .first();
+    if (!task) return null;
+
+    await ctx.db.patch(task._id, {
+      status: "processing",
+      progressMessage: "Starting render...",
+      updatedAt: now,
+    });
+    return {
+      taskId: task._id,
+      projectId: task.projectId,
+      options: task.renderOptions ?? "{}",
+    };
+  },
+});
+
+// What a render needs from the project: the active script's scenes, their videos and the audio tracks
+export const getRenderInputs = query({
+  args: { secret: v.string(), taskId: v.id("generationTasks") },
+  handler: async (ctx, { secret, taskId }) => {
+    assertRenderService(secret);
+
+    const task = await ctx.db.get(taskId);
+    if (!task) throw new Error("Task not found");
+    const project = await ctx.db.get(task.projectId);
+    if (!project) throw new Error("Project not found");
+
+    const script = await getActiveScript(ctx, project);
+    const [scenes, videos, audioTracks] = await Promise.all([
+      script ? getScriptScenes(ctx, script._id) : [],
+      ctx.db
+        .query("videos")
+        .withIndex("by_project", (q) => q.eq("projectId", project._id))
+        .collect(),
+      getScriptAudioTracks(ctx, project._id, script?._id),
+    ]);
+    return { scenes, videos, audioTracks };
+  },
+});
+
+export const reportProgress = mutation({
+  args: {
+    secret: v.string(),
+    taskId: v.id("generationTasks"),
+    message: v.string(),
+  },
+  handler: async (ctx, { secret, taskId, message }) => {
+    assertRenderService(secret);
+
+    await ctx.db.patch(taskId, { progressMessage: message, updatedAt: Date.now() });
+  },
+});
+
+// Record a finished render and close its task
+export const complete = mutation({
+  args: {
+    secret: v.string(),
+    taskId: v.id("generationTasks"),
+    videoUrl: v.string(),
+    preset: v.string(),
+  },
+  handler: async (ctx, { secret, taskId, videoUrl, preset }) => {
+    assertRenderService(secret);
+
+    const task = await ctx.db.get(taskId);
+    if (!task) throw new Error("Task not found");
+
+    const now = Date.now();
+    await ctx.db.insert("renders", {
+      projectId: task.projectId,
+      videoUrl,
+      preset,
+      createdAt: now,
+    });
+    await ctx.db.patch(taskId, {
+      status: "completed",
+      resultUrl: videoUrl,
+      progressMessage: undefined,
+      updatedAt: now,
+    });
+  },
+});
+
+export const fail = mutation({
+  args: {
+    secret: v.string(),
+    taskId: v.id("generationTasks"),
+    errorMessage: v.string(),
+  },
+  handler: async (ctx, { secret, taskId, errorMessage }) => {
+    assertRenderService(secret);
+
+    await ctx.db.patch(taskId, {
+      status: "failed",
+      errorMessage,
+      progressMessage: undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const getByProject = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, { projectId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("renders")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .order("desc")
+      .collect();
+  },
+});
@@ -1,5 +1,6 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 
 // Helper to get authenticated user ID from Clerk JWT
 async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
@@ -38,41 +39,24 @@ export const createScript = mutation({
 
     const now = Date.now();
 
-    // Delete existing scripts and scenes for this project (clean slate on regenerate)
-    const existingScripts = await ctx.db
-      .query("scripts")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
-
-    for (const existingScript of existingScripts) {
-      // Delete scenes for this script
-      const existingScenes = await ctx.db
-        .query("scenes")
-        .withIndex("by_script", (q) => q.eq("scriptId", existingScript._id))
-        .collect();
-      for (const scene of existingScenes) {
-        await ctx.db.delete(scene._id);
-      }
-      // Delete the script
-      await ctx.db.delete(existingScript._id);
-    }
-
-    // Also delete any orphaned scenes for this project (safety cleanup)
-    const orphanedScenes = await ctx.db
-      .query("scenes")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
-    for (const scene of orphanedScenes) {
-      await ctx.db.delete(scene._id);
-    }
-
-    // Create script
+    // Earlier scripts are kept as versions; the new one becomes active
     const scriptId = await ctx.db.insert("scripts", {
       projectId: args.projectId,
       title: args.title,
       style: args.style,
       narratorVoice: args.narratorVoice,
       characters: args.characters,
+      prompt: project.originalPrompt,
+      settings: JSON.stringify({
+        aspectRatio: project.aspectRatio,
+        videoModel: project.videoModel,
+        enableCuts: project.enableCuts,
+        seedanceSceneCount: project.seedanceSceneCount,
+        seedanceDuration: project.seedanceDuration,
+        voiceMode: project.voiceMode,
+        multiCharacter: project.multiCharacter,
+        language: project.language,
+      }),
       createdAt: now,
     });
 
@@ -92,6 +76,7 @@ export const createScript = mutation({
     await ctx.db.patch(args.projectId, {
       title: args.title,
       style: args.style,
+      activeScriptId: scriptId,
       status: "storyboarding",
       updatedAt: now,
     });
@@ -111,16 +96,11 @@ export const getScript = query({
       return null;
     }
 
-    const scripts = await ctx.db
-      .query("scripts")
-      .withIndex("by_project", (q) => q.eq("projectId", projectId))
-      .order("desc")
-      .first();
-
-    return scripts;
+    return await getActiveScript(ctx, project);
   },
 });
 
+// Scenes of the project's active script version
 export const getScenesByProject = query({
   args: { projectId: v.id("projects") },
   handler: async (ctx, { projectId }) => {
@@ -132,12 +112,66 @@ export const getScenesByProject = query({
       return [];
     }
 
-    const scenes = await ctx.db
-      .query("scenes")
+    const script = await getActiveScript(ctx, project);
+    if (!script) return [];
+
+    return await getScriptScenes(ctx, script._id);
+  },
+});
+
+// Every script version of a project, oldest first
+export const getScriptVersions = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, { projectId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      return [];
+    }
+
+    const active = await getActiveScript(ctx, project);
+    const scripts = await ctx.db
+      .query("scripts")
       .withIndex("by_project", (q) => q.eq("projectId", projectId))
       .collect();
 
-    return scenes.sort((a, b) => a.sceneNumber - b.sceneNumber);
+    const numberOf = (scriptId?: Id<"scripts">) => {
+      const index = scripts.findIndex((script) => script._id === scriptId);
+      return index >= 0 ? index + 1 : undefined;
+    };
+    return await Promise.all(scripts.map(async (script, index) => ({
+      ...script,
+      number: index + 1,
+      editedFromNumber: numberOf(script.editedFrom),
+      sceneCount: (await getScriptScenes(ctx, script._id)).length,
+      isActive: script._id === active?._id,
+    })));
+  },
+});
+
+// Switch the project back to an earlier script version. Its storyboards, frames, clips and voiceover come with it.
+export const restoreScript = mutation({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, { scriptId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const script = await ctx.db.get(scriptId);
+    if (!script) throw new Error("Script not found");
+
+    const project = await ctx.db.get(script.projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.patch(project._id, {
+      activeScriptId: scriptId,
+      title: script.title,
+      style: script.style,
+      updatedAt: Date.now(),
+    });
   },
 });
 
@@ -156,8 +190,483 @@ export const getScenesByScript = query({
   },
 });
 
+export const updateTransition = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    transitionType: v.union(
+      v.literal("none"),
+      v.literal("crossfade"),
+      v.literal("dip_to_black"),
+      v.literal("wipe"),
+      v.literal("slide")
+    ),
+    transitionDuration: v.number(),
+  },
+  handler: async (ctx, { sceneId, transitionType, transitionDuration }) => {
+    if (transitionDuration < 0) {
+      throw new Error("Transition duration must not be negative");
+    }
+
+    const { scene } = await getActiveScene(ctx, sceneId);
+    await ctx.db.patch(scene._id, { transitionType, transitionDuration });
+  },
+});
+
+export const updateClipEdit = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    trimIn: v.number(),
+    trimOut: v.optional(v.number()),
+    speed: v.number(),
+  },
+  handler: async (ctx, { sceneId, trimIn, trimOut, speed }) => {
+    if (trimIn < 0) {
+      throw new Error("Trim in must not be negative");
+    }
+    if (trimOut !== undefined && trimOut <= trimIn) {
+      throw new Error("Trim out must be after trim in");
+    }
+    if (speed < 0.5 || speed > 2) {
+      throw new Error("Speed must be between 0.5 and 2");
+    }
+
+    const { scene } = await getActiveScene(ctx, sceneId);
+    await ctx.db.patch(scene._id, { trimIn, trimOut, speed });
+  },
+});
+
+// Put a project's scenes in a new order. sceneIds lists every scene once, first to last.
+export const reorder = mutation({
+  args: {
+    projectId: v.id("projects"),
+    sceneIds: v.array(v.id("scenes")),
+  },
+  handler: async (ctx, { projectId, sceneIds }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error("Project not found");
+    }
+
+    // Reordering keeps the script text, so it edits the active version in place
+    const scenes = await getProjectScenes(ctx, project);
+    const scenesById = new Map(scenes.map((scene) => [scene._id, scene]));
+    if (sceneIds.length !== scenes.length || new Set(sceneIds).size !== sceneIds.length || sceneIds.some((id) => !scenesById.has(id))) {
+      throw new Error("Scene order must list every scene exactly once");
+    }
+
+    await renumberScenes(ctx, project, sceneIds.map((id) => scenesById.get(id)!));
+  },
+});
+
+// Edit a scene's script text. Only the fields passed are changed.
+export const update = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    visualDescription: v.optional(v.string()),
+    audioDescription: v.optional(v.string()),
+    cameraShot: v.optional(v.string()),
+    voiceoverText: v.optional(v.string()),
+    dialogue: v.optional(v.string()), // JSON string of DialogueLine[]
+  },
+  handler: async (ctx, { sceneId, ...changes }) => {
+    const { scene, project } = await getEditableScene(ctx, sceneId);
+
+    await ctx.db.patch(scene._id, changes);
+    await ctx.db.patch(project._id, { updatedAt: Date.now() });
+  },
+});
+
+// Add a blank scene at `position` (0 = first), shifting the scenes after it
+export const insert = mutation({
+  args: {
+    projectId: v.id("projects"),
+    position: v.number(),
+  },
+  handler: async (ctx, { projectId, position }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error("Project not found");
+    }
+
+    const { project: editing, scenes } = await getEditableScript(ctx, project);
+    if (scenes.length === 0) throw new Error("Script not found");
+
+    // Numbered and timed by renumberScenes once it's in place
+    const sceneId = await ctx.db.insert("scenes", {
+      scriptId: scenes[0].scriptId,
+      projectId,
+      sceneNumber: NEW_SCENE_NUMBER,
+      timeRange: "",
+      visualDescription: "",
+      audioDescription: "",
+      cameraShot: "Medium Shot",
+      voiceoverText: "",
+      createdAt: Date.now(),
+    });
+
+    const index = Math.min(Math.max(Math.round(position), 0), scenes.length);
+    scenes.splice(index, 0, (await ctx.db.get(sceneId))!);
+    await renumberScenes(ctx, editing, scenes);
+    return sceneId;
+  },
+});
+
+// Delete a scene along with its frame and clips
+export const remove = mutation({
+  args: { sceneId: v.id("scenes") },
+  handler: async (ctx, { sceneId }) => {
+    const { scene, project, scenes } = await getEditableScene(ctx, sceneId);
+    if (scenes.length <= 1) throw new Error("A script needs at least one scene");
+
+    await deleteSceneMedia(ctx, scene._id);
+    await ctx.db.delete(scene._id);
+    await renumberScenes(ctx, project, scenes.filter((s) => s._id !== scene._id));
+  },
+});
+
+// Split a scene in two at a character offset in its voiceover. Both halves keep the visuals;
+// dialogue lines are shared out between them. The first half keeps the scene's frame and clip.
+export const split = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    splitAt: v.number(),
+  },
+  handler: async (ctx, { sceneId, splitAt }) => {
+    const { scene, project } = await getEditableScene(ctx, sceneId);
+    assertSplitPoint(scene.voiceoverText, splitAt);
+
+    const dialogue = scene.dialogue ? JSON.parse(scene.dialogue) as unknown[] : undefined;
+    const dialogueSplit = dialogue ? Math.ceil(dialogue.length / 2) : 0;
+
+    await ctx.db.patch(scene._id, {
+      voiceoverText: scene.voiceoverText.slice(0, splitAt).trim(),
+      dialogue: dialogue ? JSON.stringify(dialogue.slice(0, dialogueSplit)) : undefined,
+    });
+    const secondId = await ctx.db.insert("scenes", {
+      scriptId: scene.scriptId,
+      projectId: scene.projectId,
+      sceneNumber: NEW_SCENE_NUMBER,
+      timeRange: "",
+      visualDescription: scene.visualDescription,
+      audioDescription: scene.audioDescription,
+      cameraShot: scene.cameraShot,
+      voiceoverText: scene.voiceoverText.slice(splitAt).trim(),
+      dialogue: dialogue ? JSON.stringify(dialogue.slice(dialogueSplit)) : undefined,
+      transitionType: scene.transitionType,
+      transitionDuration: scene.transitionDuration,
+      createdAt: Date.now(),
+    });
+
+    const scenes = await getProjectScenes(ctx, project);
+    const ordered = scenes.filter((s) => s._id !== secondId);
+    ordered.splice(ordered.findIndex((s) => s._id === scene._id) + 1, 0, scenes.find((s) => s._id === secondId)!);
+    await renumberScenes(ctx, project, ordered);
+    return secondId;
+  },
+});
+
+// Merge a scene with the one after it. The merged scene keeps the first scene's frame, clip and camera.
+export const merge = mutation({
+  args: { sceneId: v.id("scenes") },
+  handler: async (ctx, { sceneId }) => {
+    const { scene, project, scenes } = await getEditableScene(ctx, sceneId);
+
+    const next = scenes[scenes.findIndex((s) => s._id === scene._id) + 1];
+    if (!next) throw new Error("There is no scene after this one to merge with");
+
+    const join = (a: string, b: string, separator: string) => [a.trim(), b.trim()].filter(Boolean).join(separator);
+    const dialogue = scene.dialogue || next.dialogue
+      ? JSON.stringify([
+        ...(scene.dialogue ? JSON.parse(scene.dialogue) as unknown[] : []),
+        ...(next.dialogue ? JSON.parse(next.dialogue) as unknown[] : []),
+      ])
+      : undefined;
+
+    await ctx.db.patch(scene._id, {
+      visualDescription: join(scene.visualDescription, next.visualDescription, " "),
+      audioDescription: join(scene.audioDescription, next.audioDescription, "; "),
+      voiceoverText: join(scene.voiceoverText, next.voiceoverText, " "),
+      dialogue,
+      // The merged scene leads into whatever followed the second one
+      transitionType: next.transitionType,
+      transitionDuration: next.transitionDuration,
+    });
+
+    await deleteSceneMedia(ctx, next._id);
+    await ctx.db.delete(next._id);
+    await renumberScenes(ctx, project, scenes.filter((s) => s._id !== next._id));
+  },
+});
+
+// Placeholder number for a scene inserted before renumberScenes puts it in place
+const NEW_SCENE_NUMBER = 0;
+
+// Length of one scene, matching the clips the app generates: Seedance's is configurable, Veo's is fixed
+const getSceneDuration = (project: Doc<"projects">): number =>
+  project.videoModel === "seedance-1.5" ? project.seedanceDuration ?? 4 : 8;
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+// A split must leave voiceover on both sides: a whole character offset strictly inside the text
+export function assertSplitPoint(voiceoverText: string, splitAt: number) {
+  if (!Number.isInteger(splitAt) || splitAt <= 0 || splitAt >= voiceoverText.length) {
+    throw new Error("Split point must be inside the scene's voiceover");
+  }
+}
+
+async function getOwnedScene(ctx: MutationCtx, sceneId: Id<"scenes">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("Unauthorized");
+
+  const scene = await ctx.db.get(sceneId);
+  if (!scene) throw new Error("Scene not found");
+
+  const project = await ctx.db.get(scene.projectId);
+  if (!project || project.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return { scene, project };
+}
+
+/**
+ * A scene of the active script version, for edits that leave the script text alone (transitions,
+ * trims, speed), which change the version in place rather than copying it
+ */
+async function getActiveScene(ctx: MutationCtx, sceneId: Id<"scenes">) {
+  const owned = await getOwnedScene(ctx, sceneId);
+  const script = await getActiveScript(ctx, owned.project);
+  if (!script || owned.scene.scriptId !== script._id) {
+    throw new Error("Scene is not in the active script version");
+  }
+  return owned;
+}
+
+/**
+ * A scene of the active script version, ready to edit (see getEditableScript), with the
+ * project and the scenes of the version it's in
+ */
+async function getEditableScene(ctx: MutationCtx, sceneId: Id<"scenes">) {
+  const owned = await getOwnedScene(ctx, sceneId);
+  const { project, scenes, scenesByActiveId } = await getEditableScript(ctx, owned.project);
+
+  const scene = scenesByActiveId.get(sceneId);
+  if (!scene) throw new Error("Scene is not in the active script version");
+  return { scene, project, scenes };
+}
+
+/**
+ * The active script version, ready for a script text edit. Versions stay as they were written:
+ * the first text edit copies the active version - scenes, storyboards, frames, clips and
+ * voiceover - into a new version that becomes active, and edits go there until the project
+ * moves on to another version. Clips still being generated are moved to the copied scenes. Returns the project as updated, the editable scenes in order, and those scenes by
+ * the id of the active scene they were copied from (their own id when nothing was copied).
+ */
+async function getEditableScript(ctx: MutationCtx, project: Doc<"projects">) {
+  const script = await getActiveScript(ctx, project);
+  if (!script) throw new Error("Script not found");
+
+  const newest = await ctx.db
+    .query("scripts")
+    .withIndex("by_project", (q) => q.eq("projectId", project._id))
+    .order("desc")
+    .first();
+  const scenes = await getScriptScenes(ctx, script._id);
+  if (script.editedFrom && newest?._id === script._id) {
+    return { project, scenes, scenesByActiveId: new Map(scenes.map((scene) => [scene._id, scene])) };
+  }
+
+  const now = Date.now();
+  const draftId = await ctx.db.insert("scripts", {
+    ...withoutSystemFields(script),
+    editedFrom: script._id,
+    createdAt: now,
+  });
+
+  const scenesByActiveId = new Map<Id<"scenes">, Doc<"scenes">>();
+  for (const scene of scenes) {
+    const copyId = await ctx.db.insert("scenes", { ...withoutSystemFields(scene), scriptId: draftId });
+    scenesByActiveId.set(scene._id, (await ctx.db.get(copyId))!);
+
+    const [frames, videos] = await Promise.all([
+      ctx.db.query("frames").withIndex("by_scene", (q) => q.eq("sceneId", scene._id)).collect(),
+      ctx.db.query("videos").withIndex("by_scene", (q) => q.eq("sceneId", scene._id)).collect(),
+    ]);
+    for (const frame of frames) {
+      await ctx.db.insert("frames", { ...withoutSystemFields(frame), sceneId: copyId });
+    }
+    for (const video of videos) {
+      await ctx.db.insert("videos", { ...withoutSystemFields(video), sceneId: copyId });
+    }
+  }
+
+  const pendingTasks = await ctx.db
+    .query("generationTasks")
+    .withIndex("by_project", (q) => q.eq("projectId", project._id))
+    .filter((q) => q.or(q.eq(q.field("status"), "pending"), q.eq(q.field("status"), "processing")))
+    .collect();
+  for (const task of pendingTasks) {
+    const copy = task.sceneId && scenesByActiveId.get(task.sceneId);
+    if (copy) await ctx.db.patch(task._id, { sceneId: copy._id, updatedAt: now });
+  }
+
+  for (const storyboard of await getScriptStoryboards(ctx, project._id, script._id)) {
+    await ctx.db.insert("storyboards", { ...withoutSystemFields(storyboard), scriptId: draftId });
+  }
+  for (const track of await getScriptAudioTracks(ctx, project._id, script._id)) {
+    if (track.type === "voiceover") {
+      await ctx.db.insert("audioTracks", { ...withoutSystemFields(track), scriptId: draftId });
+    }
+  }
+
+  await ctx.db.patch(project._id, { activeScriptId: draftId, updatedAt: now });
+  return {
+    project: (await ctx.db.get(project._id))!,
+    scenes: [...scenesByActiveId.values()],
+    scenesByActiveId,
+  };
+}
+
+// A document's fields without the ones Convex sets, to insert as a copy
+function withoutSystemFields<T extends { _id: unknown; _creationTime: number }>(doc: T): Omit<T, "_id" | "_creationTime"> {
+  const fields: Partial<T> = { ...doc };
+  delete fields._id;
+  delete fields._creationTime;
+  return fields as Omit<T, "_id" | "_creationTime">;
+}
+
+// Scenes of the project's active script version, in order
+async function getProjectScenes(ctx: MutationCtx, project: Doc<"projects">) {
+  const script = await getActiveScript(ctx, project);
+  return script ? await getScriptScenes(ctx, script._id) : [];
+}
+
+export async function getScriptScenes(ctx: QueryCtx, scriptId: Id<"scripts">) {
+  const scenes = await ctx.db
+    .query("scenes")
+    .withIndex("by_script", (q) => q.eq("scriptId", scriptId))
+    .collect();
+  return scenes.sort((a, b) => a.sceneNumber - b.sceneNumber);
+}
+
+/**
+ * The project's script version in use. Projects from before versioning have no
+ * activeScriptId and use their newest script.
+ */
+export async function getActiveScript(ctx: QueryCtx, project: Doc<"projects">) {
+  if (project.activeScriptId) {
+    const script = await ctx.db.get(project.activeScriptId);
+    if (script) return script;
+  }
+
+  return await ctx.db
+    .query("scripts")
+    .withIndex("by_project", (q) => q.eq("projectId", project._id))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Grids drawn for a script version. Ones from before versioning carry no script and stand in
+ * until the version has its own.
+ */
+export async function getScriptStoryboards(ctx: QueryCtx, projectId: Id<"projects">, scriptId: Id<"scripts"> | undefined) {
+  const storyboards = await ctx.db
+    .query("storyboards")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+  const own = storyboards.filter((storyboard) => storyboard.scriptId && storyboard.scriptId === scriptId);
+  return own.length > 0 ? own : storyboards.filter((storyboard) => !storyboard.scriptId);
+}
+
+/**
+ * The project's audio tracks that go with a script version: its voiceover, and the music.
+ * Voiceovers from before versioning carry no script; they go with the version that was
+ * newest when they were recorded.
+ */
+export async function getScriptAudioTracks(ctx: QueryCtx, projectId: Id<"projects">, scriptId: Id<"scripts"> | undefined) {
+  const [tracks, scripts] = await Promise.all([
+    ctx.db
+      .query("audioTracks")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect(),
+    ctx.db
+      .query("scripts")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect(),
+  ]);
+  const recordedFor = (track: Doc<"audioTracks">) =>
+    track.scriptId ?? scripts.filter((script) => script.createdAt <= track.createdAt).pop()?._id;
+  return tracks.filter((track) => track.type !== "voiceover" || recordedFor(track) === scriptId);
+}
+
+async function deleteSceneMedia(ctx: MutationCtx, sceneId: Id<"scenes">) {
+  const frames = await ctx.db
+    .query("frames")
+    .withIndex("by_scene", (q) => q.eq("sceneId", sceneId))
+    .collect();
+  for (const frame of frames) {
+    await ctx.db.delete(frame._id);
+  }
+
+  const videos = await ctx.db
+    .query("videos")
+    .withIndex("by_scene", (q) => q.eq("sceneId", sceneId))
+    .collect();
+  for (const video of videos) {
+    await ctx.db.delete(video._id);
+  }
+}
+
+/**
+ * Number scenes 1..n in the given order, with back-to-back time ranges of one clip each.
+ * Videos and narration refer to scenes by number, so the version's voiceover timings are
+ * renumbered to follow their scenes; timings for scenes that are gone are dropped.
+ */
+async function renumberScenes(ctx: MutationCtx, project: Doc<"projects">, ordered: Doc<"scenes">[]) {
+  const duration = getSceneDuration(project);
+  const newNumbers = new Map<number, number>();
+
+  for (const [index, scene] of ordered.entries()) {
+    const sceneNumber = index + 1;
+    const timeRange = `${formatTime(index * duration)} - ${formatTime(sceneNumber * duration)}`;
+    if (scene.sceneNumber !== NEW_SCENE_NUMBER) newNumbers.set(scene.sceneNumber, sceneNumber);
+    if (scene.sceneNumber !== sceneNumber || scene.timeRange !== timeRange) {
+      await ctx.db.patch(scene._id, { sceneNumber, timeRange });
+    }
+  }
+
+  const voiceovers = (await getScriptAudioTracks(ctx, project._id, ordered[0]?.scriptId))
+    .filter((track) => track.type === "voiceover");
+  const renumber = (json?: string) => {
+    if (!json) return undefined;
+    const items = JSON.parse(json) as { sceneId: number }[];
+    return JSON.stringify(items
+      .filter((item) => newNumbers.has(item.sceneId))
+      .map((item) => ({ ...item, sceneId: newNumbers.get(item.sceneId)! })));
+  };
+  for (const track of voiceovers) {
+    await ctx.db.patch(track._id, {
+      lineTimings: renumber(track.lineTimings),
+      segments: renumber(track.segments),
+    });
+  }
+
+  await ctx.db.patch(project._id, { updatedAt: Date.now() });
+}
+
 // Cleanup mutation to remove duplicate scenes from a project
-// Keeps only the most recent scene for each sceneNumber
+// Keeps only the most recent scene for each sceneNumber of each script version
 export const cleanupDuplicateScenes = mutation({
   args: { projectId: v.id("projects") },
   handler: async (ctx, { projectId }) => {
@@ -195,12 +704,13 @@ async function cleanupDuplicateScenesInternal(ctx: any, projectId: any) {
     .withIndex("by_project", (q: any) => q.eq("projectId", projectId))
     .collect();
 
-  // Group by sceneNumber
-  const scenesByNumber = new Map<number, typeof allScenes>();
+  // Group by sceneNumber within each script version
+  const scenesByNumber = new Map<string, typeof allScenes>();
   for (const scene of allScenes) {
-    const existing = scenesByNumber.get(scene.sceneNumber) || [];
+    const key = `${scene.scriptId}:${scene.sceneNumber}`;
+    const existing = scenesByNumber.get(key) || [];
     existing.push(scene);
-    scenesByNumber.set(scene.sceneNumber, existing);
+    scenesByNumber.set(key, existing);
   }
 
   // For each sceneNumber, keep the most recent (by createdAt), delete the rest
@@ -25,10 +25,15 @@ export default defineSchema({
     language: v.optional(v.string()), // e.g., "english", "japanese", "chinese", "korean", "spanish"
     // Whether to generate background music via Suno
     backgroundMusicEnabled: v.optional(v.boolean()),
+    // Title card, lower thirds and end card for the final movie (JSON ProjectOverlays)
+    overlays: v.optional(v.string()),
+    // Script version in use; the newest script when unset
+    activeScriptId: v.optional(v.id("scripts")),
     status: v.union(
       v.literal("draft"),
       v.literal("scripting"),
       v.literal("storyboarding"),
+      v.literal("animatic"),
       v.literal("production"),
       v.literal("completed")
     ),
@@ -38,7 +43,7 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_user_updated", ["userId", "updatedAt"]),
 
-  // Scripts - the generated screenplay
+  // Scripts - the generated screenplay. Every generation is kept as a version of the project's script.
   scripts: defineTable({
     projectId: v.id("projects"),
     title: v.string(),
@@ -47,6 +52,11 @@ export default defineSchema({
     narratorVoice: v.optional(v.string()),
     // Characters for multi-character mode (JSON array of Character objects)
     characters: v.optional(v.string()), // JSON string of Character[]
+    // What produced this version: the prompt and the project settings at the time
+    prompt: v.optional(v.string()),
+    settings: v.optional(v.string()), // JSON string of ScriptSettings
+    // Version this one was copied from to be edited; generated versions are never edited in place
+    editedFrom: v.optional(v.id("scripts")),
     createdAt: v.number(),
   })
     .index("by_project", ["projectId"]),
@@ -63,6 +73,19 @@ export default defineSchema({
     voiceoverText: v.string(),
     // For multi-character mode: JSON array of DialogueLine objects
     dialogue: v.optional(v.string()), // JSON string of DialogueLine[]
+    // Transition into the next scene on export (defaults to a hard cut)
+    transitionType: v.optional(v.union(
+      v.literal("none"),
+      v.literal("crossfade"),
+      v.literal("dip_to_black"),
+      v.literal("wipe"),
+      v.literal("slide")
+    )),
+    transitionDuration: v.optional(v.number()), // seconds
+    // Trim and speed applied to the generated clip
+    trimIn: v.optional(v.number()), // seconds cut from the start
+    trimOut: v.optional(v.number()), // end point in seconds from the clip start (clip end when unset)
+    speed: v.optional(v.number()), // playback rate, 0.5-2
     createdAt: v.number(),
   })
     .index("by_script", ["scriptId"])
@@ -72,6 +95,8 @@ export default defineSchema({
   // Storyboards - the generated image grids
   storyboards: defineTable({
     projectId: v.id("projects"),
+    // Script version the grid was drawn for (unset on storyboards from before versioning)
+    scriptId: v.optional(v.id("scripts")),
     gridType: v.union(v.literal("3x3"), v.literal("3x2")),
     imageUrl: v.string(),
     // Seed used for generation (for consistency between grids)
@@ -97,6 +122,8 @@ export default defineSchema({
     sceneId: v.id("scenes"),
     videoUrl: v.string(),
     duration: v.number(),
+    // Whether duration was read from the clip; unset on clips from before probing, which store the requested length
+    durationMeasured: v.optional(v.boolean()),
     status: v.union(
       v.literal("pending"),
       v.literal("generating"),
@@ -117,11 +144,46 @@ export default defineSchema({
     type: v.union(v.literal("voiceover"), v.literal("music")),
     audioUrl: v.string(),
     duration: v.optional(v.number()),
+    lineTimings: v.optional(v.string()), // JSON array of VoiceoverLine (voiceover only)
+    segments: v.optional(v.string()), // JSON array of VoiceoverSegment (voiceover only)
+    // Script version the narration was recorded for (voiceover only; unset on tracks from before versioning)
+    scriptId: v.optional(v.id("scripts")),
     createdAt: v.number(),
   })
     .index("by_project", ["projectId"])
     .index("by_project_type", ["projectId", "type"]),
 
+  // Brand kits - one per user, applied to every export
+  brandKits: defineTable({
+    userId: v.string(),
+    logoUrl: v.optional(v.string()),
+    logoPosition: v.union(
+      v.literal("top_left"),
+      v.literal("top_right"),
+      v.literal("bottom_left"),
+      v.literal("bottom_right")
+    ),
+    logoOpacity: v.number(),
+    fontUrl: v.optional(v.string()),
+    fontName: v.optional(v.string()),
+    textColor: v.string(),
+    accentColor: v.string(),
+    boxColor: v.string(),
+    captionStyle: v.union(v.literal("plain"), v.literal("outline"), v.literal("box")),
+    safeAreaMargin: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Server-side renders of the final movie, written by the render service (src/render-service)
+  renders: defineTable({
+    projectId: v.id("projects"),
+    videoUrl: v.string(),
+    preset: v.string(), // ExportPresetId used for the render
+    createdAt: v.number(),
+  })
+    .index("by_project", ["projectId"]),
+
   // Generation tasks - for async polling of external APIs
   generationTasks: defineTable({
     projectId: v.id("projects"),
@@ -129,7 +191,8 @@ export default defineSchema({
       v.literal("video_seedance"),
       v.literal("video_veo"),
       v.literal("music_suno"),
-      v.literal("audio_tts")
+      v.literal("audio_tts"),
+      v.literal("video_render")
     ),
     externalTaskId: v.string(),
     sceneId: v.optional(v.id("scenes")),
@@ -141,6 +204,9 @@ export default defineSchema({
     ),
     resultUrl: v.optional(v.string()),
     errorMessage: v.optional(v.string()),
+    // video_render only: the export options (JSON) and the render service's latest progress message
+    renderOptions: v.optional(v.string()),
+    progressMessage: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
     lastPolledAt: v.optional(v.number()),
@@ -1,5 +1,6 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getActiveScript, getScriptStoryboards } from "./scenes";
 
 // Helper to get authenticated user ID from Clerk JWT
 async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ subject: string } | null> } }) {
@@ -10,6 +11,7 @@ async function getAuthUserId(ctx: { auth: { getUserIdentity: () => Promise<{ sub
 export const create = mutation({
   args: {
     projectId: v.id("projects"),
+    scriptId: v.optional(v.id("scripts")),
     gridType: v.union(v.literal("3x3"), v.literal("3x2")),
     imageUrl: v.string(),
     seed: v.optional(v.number()),
@@ -42,10 +44,9 @@ export const getByProject = query({
       return [];
     }
 
-    return await ctx.db
-      .query("storyboards")
-      .withIndex("by_project", (q) => q.eq("projectId", projectId))
-      .collect();
+    // Grids drawn for the active script version
+    const script = await getActiveScript(ctx, project);
+    return await getScriptStoryboards(ctx, projectId, script?._id);
   },
 });
 
@@ -14,7 +14,8 @@ export const createTask = mutation({
       v.literal("video_seedance"),
       v.literal("video_veo"),
       v.literal("music_suno"),
-      v.literal("audio_tts")
+      v.literal("audio_tts"),
+      v.literal("video_render")
     ),
     externalTaskId: v.string(),
     sceneId: v.optional(v.id("scenes")),
@@ -13,6 +13,7 @@ export const create = mutation({
     sceneId: v.id("scenes"),
     videoUrl: v.string(),
     duration: v.number(),
+    durationMeasured: v.optional(v.boolean()),
     status: v.union(
       v.literal("pending"),
       v.literal("generating"),
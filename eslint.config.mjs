@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // FFmpeg core copied from node_modules
+    "public/ffmpeg-core/**",
   ]),
 ]);
 
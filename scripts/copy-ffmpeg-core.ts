@@ -0,0 +1,55 @@
+/**
+ * Copy the pinned FFmpeg core from node_modules into public/ffmpeg-core, where the app serves it
+ * as static files. Runs before `next dev` and `next build`; pass a directory to copy there instead
+ * (e.g. to upload the files to another host).
+ *
+ * Skipped when NEXT_PUBLIC_FFMPEG_CORE_BASE_URL points the app at another host.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FFMPEG_CORE_FILES, FFMPEG_CORE_VERSION, FFmpegCoreVariant } from '../src/utils/ffmpegCore';
+
+const root = path.resolve(__dirname, '..');
+
+// Same check as verifyIntegrity in the browser, so a mismatched package fails the build rather than the export
+const matchesIntegrity = (data: Buffer, integrity: string): boolean => {
+  const [algorithm, expected] = integrity.split('-', 2);
+  return createHash(algorithm).update(data).digest('base64') === expected;
+};
+
+async function copyVariant(variant: FFmpegCoreVariant, outDir: string) {
+  const packageDir = path.join(root, 'node_modules', '@ffmpeg', variant);
+  const { version } = JSON.parse(await readFile(path.join(packageDir, 'package.json'), 'utf8')) as { version: string };
+  if (version !== FFMPEG_CORE_VERSION) {
+    throw new Error(`@ffmpeg/${variant} ${version} is installed, but the app is pinned to ${FFMPEG_CORE_VERSION}`);
+  }
+
+  await mkdir(path.join(outDir, variant), { recursive: true });
+  for (const [file, integrity] of Object.entries(FFMPEG_CORE_FILES[variant])) {
+    const data = await readFile(path.join(packageDir, 'dist', 'umd', file));
+    if (!matchesIntegrity(data, integrity)) {
+      throw new Error(`@ffmpeg/${variant}/dist/umd/${file} does not match its pinned hash`);
+    }
+    await writeFile(path.join(outDir, variant, file), data);
+  }
+}
+
+async function main() {
+  const outDir = process.argv[2] ? path.resolve(process.argv[2]) : path.join(root, 'public', 'ffmpeg-core');
+  if (!process.argv[2] && process.env.NEXT_PUBLIC_FFMPEG_CORE_BASE_URL) {
+    console.log(`[ffmpeg-core] Served from ${process.env.NEXT_PUBLIC_FFMPEG_CORE_BASE_URL}; not copying`);
+    return;
+  }
+
+  const variants = Object.keys(FFMPEG_CORE_FILES) as FFmpegCoreVariant[];
+  for (const variant of variants) {
+    await copyVariant(variant, outDir);
+  }
+  console.log(`[ffmpeg-core] Copied ${variants.join(', ')} ${FFMPEG_CORE_VERSION} to ${path.relative(root, outDir) || outDir}`);
+}
+
+main().catch((error) => {
+  console.error('[ffmpeg-core]', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
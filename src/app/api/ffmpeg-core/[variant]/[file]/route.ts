@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FFMPEG_CORE_FILES, FFMPEG_CORE_VERSION, FFmpegCoreVariant } from '@/utils/ffmpegCore';
+
+export const runtime = 'edge';
+
+// Opt-in fallback for hosts that can't serve the core statically: point
+// NEXT_PUBLIC_FFMPEG_CORE_BASE_URL at /api/ffmpeg-core to fetch the pinned core from an npm CDN.
+
+// npm CDN the pinned core is fetched from; set to a registry mirror behind a firewall
+const UPSTREAM_URL = process.env.FFMPEG_CORE_UPSTREAM_URL || 'https://unpkg.com';
+
+const CONTENT_TYPES: Record<string, string> = {
+  js: 'text/javascript',
+  wasm: 'application/wasm',
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ variant: string; file: string }> }
+) {
+  const { variant, file } = await params;
+
+  // Only the pinned core files can be fetched through this route
+  const files = FFMPEG_CORE_FILES[variant as FFmpegCoreVariant];
+  if (!files || !Object.prototype.hasOwnProperty.call(files, file)) {
+    return NextResponse.json({ error: 'Unknown FFmpeg core file' }, { status: 404 });
+  }
+
+  try {
+    const response = await fetch(`${UPSTREAM_URL}/@ffmpeg/${variant}@${FFMPEG_CORE_VERSION}/dist/umd/${file}`);
+
+    if (!response.ok || !response.body) {
+      return NextResponse.json({ error: 'Failed to fetch FFmpeg core' }, { status: response.status || 502 });
+    }
+
+    return new NextResponse(response.body, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[file.split('.').pop() ?? ''] ?? 'application/octet-stream',
+        'Access-Control-Allow-Origin': '*',
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+        // The client checks every file against its pinned hash, so a stale cache fails loudly
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('FFmpeg core proxy error:', error);
+    return NextResponse.json({ error: 'Proxy failed' }, { status: 500 });
+  }
+}
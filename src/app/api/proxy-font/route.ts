@@ -1,13 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { CAPTION_FONT_URLS, isCaptionScript } from '@/utils/captionFonts';
 
 export const runtime = 'edge';
 
-// Roboto Regular TTF from Google Fonts
-const FONT_URL = 'https://fonts.gstatic.com/s/roboto/v30/KFOmCnqEu92Fr1Mu4mxP.ttf';
+// Brand kit fonts are uploaded to our R2 bucket
+const ALLOWED_FONT_DOMAINS = ['video-studio.jarwater.com'];
 
 export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url');
+  const script = request.nextUrl.searchParams.get('script') || 'latin';
+
+  if (!isCaptionScript(script)) {
+    return NextResponse.json({ error: 'Unsupported script' }, { status: 400 });
+  }
+
+  if (url) {
+    try {
+      const parsedUrl = new URL(url);
+      if (!ALLOWED_FONT_DOMAINS.includes(parsedUrl.hostname)) {
+        return NextResponse.json({ error: 'Invalid font URL domain' }, { status: 403 });
+      }
+    } catch {
+      return NextResponse.json({ error: 'Invalid URL format' }, { status: 400 });
+    }
+  }
+
   try {
-    const response = await fetch(FONT_URL);
+    const response = await fetch(url || CAPTION_FONT_URLS[script]);
 
     if (!response.ok) {
       return NextResponse.json({ error: 'Failed to fetch font' }, { status: response.status });
@@ -18,7 +37,7 @@ export async function GET(request: NextRequest) {
     return new NextResponse(fontData, {
       status: 200,
       headers: {
-        'Content-Type': 'font/ttf',
+        'Content-Type': response.headers.get('Content-Type') || 'font/ttf',
         'Content-Length': fontData.byteLength.toString(),
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, OPTIONS',
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isAllowedMediaUrl } from '@/utils/mediaHosts';
 
 export const runtime = 'edge';
 
@@ -10,21 +11,8 @@ export async function GET(request: NextRequest) {
   }
 
   // Allow proxying from R2 and known video providers
-  const allowedDomains = [
-    'video-studio.jarwater.com',
-    'kieai.erweima.ai',
-    'api.klingai.com',
-    'cdn.klingai.com',
-    'volces.com', // BytePlus/Seedance video storage
-  ];
-
-  try {
-    const parsedUrl = new URL(url);
-    if (!allowedDomains.some(domain => parsedUrl.hostname.includes(domain))) {
-      return NextResponse.json({ error: 'Invalid video URL domain' }, { status: 403 });
-    }
-  } catch {
-    return NextResponse.json({ error: 'Invalid URL format' }, { status: 400 });
+  if (!isAllowedMediaUrl(url)) {
+    return NextResponse.json({ error: 'Invalid video URL domain' }, { status: 403 });
   }
 
   try {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+import { EXPORT_PRESETS } from '@/utils/exportPresets';
+import type { WorkerExportOptions } from '@/utils/exportWorkerClient';
+
+export const runtime = 'edge';
+
+// Start a render: { projectId, options } -> { taskId }. The render is queued in Convex and run by
+// the render service (src/render-service), which records progress and the finished render there.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    const serviceUrl = process.env.RENDER_SERVICE_URL;
+    const serviceSecret = process.env.RENDER_SERVICE_SECRET;
+    if (!convexUrl) {
+      return NextResponse.json({ error: 'Convex URL not configured' }, { status: 500 });
+    }
+    if (!serviceUrl || !serviceSecret) {
+      return NextResponse.json({ error: 'Render service not configured' }, { status: 500 });
+    }
+
+    const { projectId, options = {} } = await request.json() as { projectId?: string; options?: WorkerExportOptions };
+    if (!projectId) {
+      return NextResponse.json({ error: 'Missing projectId' }, { status: 400 });
+    }
+    if (options.preset && !EXPORT_PRESETS[options.preset]) {
+      return NextResponse.json({ error: `Unknown export preset: ${options.preset}` }, { status: 400 });
+    }
+
+    // Queue as the signed-in user, so Convex enforces ownership
+    const convex = new ConvexHttpClient(convexUrl);
+    const token = await getToken({ template: 'convex' });
+    if (token) convex.setAuth(token);
+
+    const [project, videos] = await Promise.all([
+      convex.query(api.projects.get, { projectId: projectId as Id<'projects'> }),
+      convex.query(api.videos.getByProject, { projectId: projectId as Id<'projects'> }),
+    ]);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!videos.some(video => video.status === 'completed' && video.videoUrl)) {
+      return NextResponse.json({ error: 'No videos to render' }, { status: 400 });
+    }
+
+    const taskId = await convex.mutation(api.renders.queue, {
+      projectId: project._id,
+      options: JSON.stringify(options),
+    });
+
+    // Wake the service; if it doesn't answer, it still picks the render up on its next sweep
+    try {
+      const wake = await fetch(`${serviceUrl.replace(/\/+$/, '')}/renders`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${serviceSecret}` },
+      });
+      if (!wake.ok) console.warn(`[Render] Render service answered ${wake.status}`);
+    } catch (error) {
+      console.warn('[Render] Render service unreachable:', error);
+    }
+
+    return NextResponse.json({ taskId });
+  } catch (error) {
+    console.error('Render start error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start render' },
+      { status: 500 }
+    );
+  }
+}
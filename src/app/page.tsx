@@ -68,6 +68,8 @@ export default function Home() {
         return 'bg-green-500/20 text-green-400';
       case 'production':
         return 'bg-blue-500/20 text-blue-400';
+      case 'animatic':
+        return 'bg-orange-500/20 text-orange-400';
       case 'storyboarding':
         return 'bg-yellow-500/20 text-yellow-400';
       case 'scripting':
@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Script, AspectRatio, VideoModel, VoiceMode, SeedanceDuration, ContentLanguage, VoiceoverSegment } from '@/types';
+import { buildSceneTimeline, getClipDuration, ExportOptions } from '@/utils/videoCompositor';
+import { exportVideoInWorker } from '@/utils/exportWorkerClient';
+import { placeVoiceoverSegments } from '@/utils/voiceoverTimeline';
+import MoviePlayer from '@/components/MoviePlayer';
+
+interface AnimaticProps {
+  script: Script;
+  frames: string[];
+  masterAudioUrl: string | null;
+  voiceoverSegments?: VoiceoverSegment[]; // Per-scene narration within the master track
+  backgroundMusicUrl: string | null;
+  isGeneratingAudio: boolean;
+  isGeneratingMusic: boolean;
+  onGenerateAudio: () => void;
+  onGenerateMusic?: () => void; // Left out when the project has background music turned off
+  onBackToStoryboard?: () => void;
+  onContinue: () => void;
+  aspectRatio: AspectRatio;
+  videoModel: VideoModel;
+  voiceMode: VoiceMode;
+  seedanceDuration?: SeedanceDuration;
+  language?: ContentLanguage;
+}
+
+// The animatic has no clips yet; a shared object keeps the player's memos stable across renders
+const NO_CLIPS: Record<number, string> = {};
+
+/**
+ * The storyboard frames played back to back at clip length, under the voiceover and music,
+ * so the film can be checked before any clips are paid for
+ */
+const Animatic: React.FC<AnimaticProps> = ({
+  script,
+  frames,
+  masterAudioUrl,
+  voiceoverSegments,
+  backgroundMusicUrl,
+  isGeneratingAudio,
+  isGeneratingMusic,
+  onGenerateAudio,
+  onGenerateMusic,
+  onBackToStoryboard,
+  onContinue,
+  aspectRatio,
+  videoModel,
+  voiceMode,
+  seedanceDuration,
+  language = 'english',
+}) => {
+  const clipDuration = getClipDuration(videoModel, seedanceDuration);
+  const [showPlayer, setShowPlayer] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState("");
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  // Every scene is shown as its storyboard frame (by scene id)
+  const stillFrames: Record<number, string> = React.useMemo(() => Object.fromEntries(
+    script.scenes
+      .map((scene, index) => [scene.id, frames[index]] as const)
+      .filter(([, frame]) => frame)
+  ), [script.scenes, frames]);
+
+  // Narration lands on the same timeline the clips will use
+  const voiceoverPlacements = React.useMemo(() => {
+    if (!voiceoverSegments || voiceoverSegments.length === 0) return undefined;
+    const scenes = script.scenes.filter(s => stillFrames[s.id]);
+    const { timings } = buildSceneTimeline(scenes, clipDuration);
+    return placeVoiceoverSegments(voiceoverSegments, scenes, timings);
+  }, [voiceoverSegments, script.scenes, stillFrames, clipDuration]);
+
+  const frameCount = Object.keys(stillFrames).length;
+  // In speech_in_video mode there is no narration track to wait for
+  const needsVoiceover = voiceMode !== 'speech_in_video' && !masterAudioUrl;
+  const canWatch = frameCount > 0 && !needsVoiceover;
+  const totalDuration = frameCount * clipDuration;
+
+  const handleExport = async () => {
+    if (!canWatch) return;
+    setIsExporting(true);
+    setExportProgress("Starting export...");
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    const options: ExportOptions = {
+      aspectRatio,
+      videoModel,
+      includeMusic: true,
+      clipDuration,
+      voiceoverSegments,
+      stillFrames,
+      language,
+      signal: controller.signal,
+    };
+
+    try {
+      const blob = await exportVideoInWorker(
+        script.scenes,
+        NO_CLIPS,
+        masterAudioUrl,
+        backgroundMusicUrl,
+        (progress) => setExportProgress(progress.message),
+        options
+      );
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${script.title.replace(/\s+/g, '_')}_Animatic.mp4`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setIsExporting(false);
+      setExportProgress("");
+    } catch (error) {
+      setIsExporting(false);
+      setExportProgress("");
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error("Animatic export failed:", error);
+      alert("Animatic export failed: " + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      exportAbortRef.current = null;
+    }
+  };
+
+  // Don't leave an export running after leaving the page
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-neutral-900 p-6 rounded-xl border border-neutral-800">
+        <div className="flex items-center gap-4">
+          {onBackToStoryboard && (
+            <button
+              onClick={onBackToStoryboard}
+              className="p-2 rounded-lg border border-neutral-600 text-neutral-400 hover:text-white hover:border-neutral-500 hover:bg-neutral-800 transition-all"
+              title="Back to Storyboard"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </button>
+          )}
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Animatic</h2>
+            <p className="text-sm text-neutral-400">
+              {frameCount} frames • {totalDuration}s • Check the pacing with voiceover and music before generating clips
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {needsVoiceover && (
+            <button
+              onClick={onGenerateAudio}
+              disabled={isGeneratingAudio}
+              className="px-4 py-3 rounded-lg font-bold transition-all bg-neutral-800 text-neutral-200 hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-wait"
+            >
+              {isGeneratingAudio ? 'Generating voiceover...' : 'Generate voiceover'}
+            </button>
+          )}
+          {onGenerateMusic && !backgroundMusicUrl && (
+            <button
+              onClick={onGenerateMusic}
+              disabled={isGeneratingMusic}
+              className="px-4 py-3 rounded-lg font-bold transition-all bg-neutral-800 text-neutral-200 hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-wait"
+            >
+              {isGeneratingMusic ? 'Generating music...' : 'Generate music'}
+            </button>
+          )}
+          {canWatch && (isExporting ? (
+            <>
+              <button
+                disabled
+                className="px-4 py-3 rounded-lg font-bold bg-neutral-700 text-neutral-300 cursor-wait"
+              >
+                {exportProgress || "Exporting..."}
+              </button>
+              <button
+                onClick={() => exportAbortRef.current?.abort()}
+                className="px-4 py-3 rounded-lg font-bold transition-all bg-neutral-800 text-neutral-200 hover:bg-neutral-700 border border-neutral-700"
+              >
+                Cancel export
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleExport}
+              className="px-4 py-3 rounded-lg font-bold transition-all flex items-center gap-2 bg-white text-black hover:bg-neutral-200"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+              Download MP4
+            </button>
+          ))}
+          {canWatch && (
+            <button
+              onClick={() => setShowPlayer(true)}
+              disabled={isExporting}
+              className="px-6 py-3 rounded-lg bg-green-600 hover:bg-green-500 text-white font-bold transition-all flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+              Play animatic
+            </button>
+          )}
+          <button
+            onClick={onContinue}
+            disabled={isExporting}
+            className="px-6 py-3 rounded-lg font-bold transition-all bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500 text-white"
+          >
+            Continue to Production
+          </button>
+        </div>
+      </div>
+
+      {/* Scene strip - each frame holds for one clip length */}
+      <div className={`grid gap-4 ${aspectRatio === '9:16' ? 'grid-cols-3 md:grid-cols-5' : 'grid-cols-2 md:grid-cols-3'}`}>
+        {script.scenes.map((scene, index) => (
+          <div key={scene.id} className="bg-neutral-900 rounded-xl border border-neutral-800 overflow-hidden">
+            <div className={`relative bg-black ${aspectRatio === '9:16' ? 'aspect-[9/16]' : 'aspect-video'}`}>
+              {frames[index] && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={frames[index]} alt={`Scene ${index + 1}`} className="w-full h-full object-cover" />
+              )}
+            </div>
+            <div className="p-3 space-y-1">
+              <div className="text-xs font-bold text-neutral-400 uppercase tracking-wide">
+                Scene {index + 1} • {index * clipDuration}s–{(index + 1) * clipDuration}s
+              </div>
+              {scene.voiceoverText && (
+                <p className="text-sm text-neutral-300 italic line-clamp-3">&ldquo;{scene.voiceoverText}&rdquo;</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {showPlayer && (
+        <MoviePlayer
+          scenes={script.scenes}
+          videoUrls={NO_CLIPS}
+          stillFrames={stillFrames}
+          audioUrl={masterAudioUrl}
+          musicUrl={backgroundMusicUrl}
+          onClose={() => setShowPlayer(false)}
+          clipDuration={clipDuration}
+          voiceoverPlacements={voiceoverPlacements}
+          title={script.title}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Animatic;
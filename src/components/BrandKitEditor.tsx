@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import { BrandKit, CaptionStyle, LogoPosition } from '@/types';
+import { LOGO_POSITIONS } from '@/utils/brandKit';
+import { uploadBrandAsset } from '@/utils/brandAssets';
+
+interface BrandKitEditorProps {
+  brandKit: BrandKit;
+  onSave: (brandKit: BrandKit) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const CAPTION_STYLES: { value: CaptionStyle; label: string }[] = [
+  { value: 'plain', label: 'Plain text' },
+  { value: 'outline', label: 'Outlined' },
+  { value: 'box', label: 'Background box' },
+];
+
+const SAFE_AREA_MARGINS = [0.02, 0.04, 0.06, 0.08, 0.1];
+
+const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ brandKit, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BrandKit>(brandKit);
+  const [uploading, setUploading] = useState<'logo' | 'font' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<BrandKit>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleUpload = async (kind: 'logo' | 'font', file: File | undefined) => {
+    if (!file) return;
+    setUploading(kind);
+    setError(null);
+    try {
+      const url = await uploadBrandAsset(file);
+      update(kind === 'logo' ? { logoUrl: url } : { fontUrl: url, fontName: file.name.replace(/\.[^.]+$/, '') });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save brand kit');
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass = 'px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200';
+  const previewTextStyle: React.CSSProperties = {
+    color: draft.textColor,
+    backgroundColor: draft.captionStyle === 'box' ? `${draft.boxColor}99` : undefined,
+    WebkitTextStroke: draft.captionStyle === 'outline' ? `1px ${draft.boxColor}` : undefined,
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div role="dialog" aria-label="Brand kit" className="w-full max-w-2xl bg-neutral-900 border border-neutral-700 rounded-xl p-6 space-y-5 text-sm text-neutral-300">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Brand kit</h2>
+          <span className="text-xs text-neutral-500">Applied to every export</span>
+        </div>
+
+        {/* Preview */}
+        <div className="relative aspect-video bg-neutral-800 rounded-lg overflow-hidden">
+          {draft.logoUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={draft.logoUrl}
+              alt="Logo preview"
+              className="absolute h-[8%] object-contain"
+              style={{
+                opacity: draft.logoOpacity,
+                [draft.logoPosition.startsWith('top') ? 'top' : 'bottom']: `${draft.safeAreaMargin * 100}%`,
+                [draft.logoPosition.endsWith('left') ? 'left' : 'right']: `${draft.safeAreaMargin * 100 * 9 / 16}%`,
+              }}
+            />
+          )}
+          <div className="absolute left-0 right-0 flex flex-col items-center" style={{ bottom: `${draft.safeAreaMargin * 100 + 4}%` }}>
+            <span className="text-xs opacity-70" style={{ color: draft.accentColor }}>Speaker</span>
+            <span className="px-2 text-base" style={previewTextStyle}>Your captions will look like this</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1">
+            Logo watermark
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              aria-label="Logo file"
+              disabled={uploading !== null}
+              onChange={(e) => handleUpload('logo', e.target.files?.[0])}
+              className="text-xs"
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <select
+              aria-label="Logo position"
+              value={draft.logoPosition}
+              onChange={(e) => update({ logoPosition: e.target.value as LogoPosition })}
+              className={fieldClass}
+            >
+              {LOGO_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+            <label className="flex flex-col gap-1 flex-1">
+              Opacity {Math.round(draft.logoOpacity * 100)}%
+              <input
+                type="range"
+                aria-label="Logo opacity"
+                min={0.1}
+                max={1}
+                step={0.1}
+                value={draft.logoOpacity}
+                onChange={(e) => update({ logoOpacity: Number(e.target.value) })}
+              />
+            </label>
+            {draft.logoUrl && (
+              <button onClick={() => update({ logoUrl: undefined })} className="px-2 py-2 text-neutral-400 hover:text-white">
+                Remove logo
+              </button>
+            )}
+          </div>
+
+          <label className="flex flex-col gap-1">
+            Caption font {draft.fontName ? `(${draft.fontName})` : '(Roboto)'}
+            <input
+              type="file"
+              accept=".ttf,.otf"
+              aria-label="Font file"
+              disabled={uploading !== null}
+              onChange={(e) => handleUpload('font', e.target.files?.[0])}
+              className="text-xs"
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <select
+              aria-label="Caption style"
+              value={draft.captionStyle}
+              onChange={(e) => update({ captionStyle: e.target.value as CaptionStyle })}
+              className={fieldClass}
+            >
+              {CAPTION_STYLES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+            <select
+              aria-label="Safe area margin"
+              value={draft.safeAreaMargin}
+              onChange={(e) => update({ safeAreaMargin: Number(e.target.value) })}
+              className={fieldClass}
+            >
+              {SAFE_AREA_MARGINS.map(m => <option key={m} value={m}>Margin {Math.round(m * 100)}%</option>)}
+            </select>
+            {draft.fontUrl && (
+              <button onClick={() => update({ fontUrl: undefined, fontName: undefined })} className="px-2 py-2 text-neutral-400 hover:text-white">
+                Use Roboto
+              </button>
+            )}
+          </div>
+
+          <div className="col-span-2 flex gap-6">
+            <label className="flex items-center gap-2">
+              <input type="color" aria-label="Text colour" value={draft.textColor} onChange={(e) => update({ textColor: e.target.value })} />
+              Text
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="color" aria-label="Accent colour" value={draft.accentColor} onChange={(e) => update({ accentColor: e.target.value })} />
+              Speaker names
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="color" aria-label="Box colour" value={draft.boxColor} onChange={(e) => update({ boxColor: e.target.value })} />
+              Box, outline and end card
+            </label>
+          </div>
+        </div>
+
+        {uploading && <p className="text-neutral-400">Uploading {uploading}...</p>}
+        {error && <p className="text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg border border-neutral-700 text-neutral-300 hover:bg-neutral-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || uploading !== null}
+            className="px-4 py-2 rounded-lg font-bold bg-white text-black hover:bg-neutral-200 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save brand kit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitEditor;
@@ -0,0 +1,391 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Scene, ProjectOverlays } from '@/types';
+import { getCutScenes } from '@/utils/videoCompositor';
+import { SubtitleCue } from '@/utils/subtitles';
+import { clampSpeed, getEditedDuration, getTrimRange } from '@/utils/clipEdit';
+import { getEndCardDuration, LowerThird } from '@/utils/overlays';
+import { VoiceoverPlacement } from '@/utils/voiceoverTimeline';
+
+interface MoviePlayerProps {
+  scenes: Scene[];
+  videoUrls: Record<number, string>;
+  audioUrl: string | null;
+  musicUrl: string | null;
+  onClose: () => void;
+  clipDuration: number;
+  clipDurations?: Record<number, number>;
+  captions?: SubtitleCue[];
+  rtl?: boolean;
+  voiceoverPlacements?: VoiceoverPlacement[];
+  title?: string;
+  overlays?: ProjectOverlays;
+  lowerThirds?: LowerThird[];
+  stillFrames?: Record<number, string>; // Storyboard frames shown for scenes without a clip
+}
+
+const MoviePlayer: React.FC<MoviePlayerProps> = ({ scenes, videoUrls, stillFrames, audioUrl, musicUrl, onClose, clipDuration, clipDurations, captions, rtl, voiceoverPlacements, title, overlays, lowerThirds }) => {
+  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [activeCaption, setActiveCaption] = useState<SubtitleCue | null>(null);
+  // Position on the movie timeline, for overlays timed like the export
+  const [playhead, setPlayhead] = useState(0);
+  const [showEndCard, setShowEndCard] = useState(false);
+  const endCardDuration = getEndCardDuration(overlays);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const musicRef = useRef<HTMLAudioElement>(null);
+  const videoRefs = useRef<Record<number, HTMLVideoElement | null>>({});
+  // When the current storyboard still started showing
+  const stillStartRef = useRef(0);
+
+  // Scenes with a clip, plus scenes standing in with their storyboard frame
+  const playableScenes = React.useMemo(
+    () => getCutScenes(scenes, videoUrls, stillFrames),
+    [scenes, videoUrls, stillFrames]
+  );
+
+  // Where each clip starts when played back to back, using real clip lengths where they are known,
+  // and which part of each source clip is played at what speed
+  const clipTimeline = React.useMemo(() => {
+    const starts: number[] = [];
+    const durations: number[] = [];
+    const trims: { start: number; end: number; speed: number }[] = [];
+    let total = 0;
+    for (const scene of playableScenes) {
+      const sourceDuration = clipDurations?.[scene.id] ?? clipDuration;
+      const duration = getEditedDuration(sourceDuration, scene.clipEdit);
+      starts.push(total);
+      durations.push(duration);
+      trims.push({ ...getTrimRange(scene.clipEdit, sourceDuration), speed: clampSpeed(scene.clipEdit?.speed ?? 1) });
+      total += duration;
+    }
+    return { starts, durations, trims, total };
+  }, [playableScenes, clipDurations, clipDuration]);
+
+  useEffect(() => {
+    let animationFrame: number;
+
+    const update = () => {
+      if (isPlaying) {
+        // Calculate progress based on video duration
+        const videoProgress = clipTimeline.starts[currentSceneIndex] ?? 0;
+        const trim = clipTimeline.trims[currentSceneIndex];
+        const currentScene = playableScenes[currentSceneIndex];
+        const currentVideo = videoRefs.current[currentScene?.id];
+        const isStill = !!currentScene && !videoUrls[currentScene.id];
+        // Time into the current clip as it appears on the timeline, after its trim and speed
+        const clipTime = isStill
+          ? Math.min((performance.now() - stillStartRef.current) / 1000, clipTimeline.durations[currentSceneIndex])
+          : currentVideo && trim
+            ? Math.min(Math.max(currentVideo.currentTime - trim.start, 0) / trim.speed, clipTimeline.durations[currentSceneIndex])
+            : 0;
+        if (currentVideo || isStill) {
+          const effectiveTime = videoProgress + clipTime;
+          setProgress((effectiveTime / clipTimeline.total) * 100);
+          setPlayhead(effectiveTime);
+        }
+
+        const audio = audioRef.current;
+        const placement = voiceoverPlacements?.find(p => p.sceneId === currentScene?.id);
+
+        // Scene-aligned narration stops at the end of its own segment instead of running into the next scene's
+        if (placement && audio && !audio.paused && audio.currentTime >= placement.offset + placement.duration) {
+          audio.pause();
+        }
+
+        // Captions follow the voiceover clock, which is what their timings were measured against
+        if (captions && audio) {
+          let t = audio.currentTime;
+          if (voiceoverPlacements) {
+            // Map the master track position back onto the timeline the cues were placed on
+            t = placement && !audio.paused
+              ? placement.start + (audio.currentTime - placement.offset) / placement.tempo
+              : videoProgress + clipTime;
+          }
+          setActiveCaption(captions.find(c => t >= c.start && t < c.end) ?? null);
+        }
+      }
+      animationFrame = requestAnimationFrame(update);
+    };
+
+    if (isPlaying) {
+      animationFrame = requestAnimationFrame(update);
+    }
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isPlaying, currentSceneIndex, playableScenes, videoUrls, clipTimeline, captions, voiceoverPlacements]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const currentScene = playableScenes[currentSceneIndex];
+    if (!currentScene) return;
+
+    const video = videoRefs.current[currentScene.id];
+    const isStill = !videoUrls[currentScene.id];
+    let stillTimer: ReturnType<typeof setTimeout> | undefined;
+
+    if (video || isStill) {
+      // Start this scene's narration together with its clip
+      const audio = audioRef.current;
+      if (voiceoverPlacements && audio) {
+        const placement = voiceoverPlacements.find(p => p.sceneId === currentScene.id);
+        if (placement) {
+          audio.currentTime = placement.offset;
+          audio.playbackRate = placement.tempo;
+          audio.play().catch(e => console.warn("Voiceover play failed", e));
+        } else {
+          audio.pause();
+        }
+      }
+
+      // When the clip ends (or reaches its trim out point), advance to next scene
+      const finishClip = () => {
+        if (currentSceneIndex < playableScenes.length - 1) {
+          setCurrentSceneIndex(prev => prev + 1);
+        } else if (endCardDuration > 0) {
+          // Hold the end card over the music before finishing
+          setShowEndCard(true);
+        } else {
+          // End of movie - all videos played
+          setIsPlaying(false);
+          setHasStarted(false);
+          setCurrentSceneIndex(0);
+          audioRef.current?.pause();
+          musicRef.current?.pause();
+        }
+      };
+
+      if (video) {
+        const trim = clipTimeline.trims[currentSceneIndex];
+        video.currentTime = trim?.start ?? 0;
+        video.playbackRate = trim?.speed ?? 1;
+        video.volume = 0.4; // SFX at 40% volume
+        video.play().catch(e => console.warn("Video play failed", e));
+
+        video.onended = finishClip;
+        video.ontimeupdate = currentScene.clipEdit?.trimOut !== undefined
+          ? () => {
+            if (trim && video.currentTime >= trim.end) {
+              video.ontimeupdate = null;
+              video.onended = null;
+              video.pause();
+              finishClip();
+            }
+          }
+          : null;
+      } else {
+        // A storyboard still holds for the clip duration
+        stillStartRef.current = performance.now();
+        stillTimer = setTimeout(finishClip, clipTimeline.durations[currentSceneIndex] * 1000);
+      }
+    }
+
+    // Pause all other videos
+    Object.keys(videoRefs.current).forEach(key => {
+      const id = Number(key);
+      if (id !== currentScene.id && videoRefs.current[id]) {
+        videoRefs.current[id]?.pause();
+      }
+    });
+
+    return () => clearTimeout(stillTimer);
+  }, [currentSceneIndex, isPlaying, playableScenes, videoUrls, clipTimeline, voiceoverPlacements, endCardDuration]);
+
+  // End of movie once the end card has been shown
+  useEffect(() => {
+    if (!showEndCard) return;
+
+    const timer = setTimeout(() => {
+      setShowEndCard(false);
+      setIsPlaying(false);
+      setHasStarted(false);
+      setCurrentSceneIndex(0);
+      audioRef.current?.pause();
+      musicRef.current?.pause();
+    }, endCardDuration * 1000);
+
+    return () => clearTimeout(timer);
+  }, [showEndCard, endCardDuration]);
+
+  const titleCard = overlays?.titleCard?.enabled && title ? overlays.titleCard : undefined;
+  const activeLowerThird = lowerThirds?.find(l => playhead >= l.start && playhead < l.end);
+
+  const togglePlay = () => {
+    if (!hasStarted) {
+      setHasStarted(true);
+      setIsPlaying(true);
+
+      // Scene-aligned narration is started per scene as each clip begins
+      if (audioRef.current && !voiceoverPlacements) audioRef.current.play();
+      if (musicRef.current) {
+        musicRef.current.volume = 0.3;
+        musicRef.current.play();
+      }
+    } else {
+      if (isPlaying) {
+        audioRef.current?.pause();
+        musicRef.current?.pause();
+        Object.values(videoRefs.current).forEach(v => v?.pause());
+      } else {
+        const placement = voiceoverPlacements?.find(p => p.sceneId === playableScenes[currentSceneIndex]?.id);
+        const audio = audioRef.current;
+        if (audio && (!voiceoverPlacements || (placement && audio.currentTime < placement.offset + placement.duration))) {
+          audio.play();
+        }
+        musicRef.current?.play();
+        const currentScene = playableScenes[currentSceneIndex];
+        if (currentScene) {
+          const vid = videoRefs.current[currentScene.id];
+          if (vid) vid.play();
+        }
+      }
+      setIsPlaying(!isPlaying);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
+      <div className="relative w-full h-full max-w-6xl max-h-screen flex items-center justify-center bg-black overflow-hidden">
+
+        {playableScenes.map((scene, idx) => {
+          const url = videoUrls[scene.id];
+
+          if (!url) {
+            // Slow zoom on the storyboard frame, like the export's Ken Burns still
+            const isCurrent = idx === currentSceneIndex;
+            return (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                key={scene.id}
+                src={stillFrames?.[scene.id]}
+                alt={`Storyboard frame for scene ${idx + 1}`}
+                className={`absolute inset-0 w-full h-full object-contain ease-linear ${isCurrent ? 'opacity-100 z-10' : 'opacity-0 z-0'}`}
+                style={{
+                  transform: isCurrent && isPlaying ? 'scale(1.2)' : 'scale(1)',
+                  transitionProperty: 'transform',
+                  transitionDuration: isCurrent && isPlaying ? `${clipTimeline.durations[idx]}s` : '0s',
+                }}
+              />
+            );
+          }
+
+          return (
+            <video
+              key={scene.id}
+              ref={(el) => { videoRefs.current[scene.id] = el; }}
+              src={url}
+              className={`absolute inset-0 w-full h-full object-contain transition-opacity duration-0 ${idx === currentSceneIndex ? 'opacity-100 z-10' : 'opacity-0 z-0'
+                }`}
+              playsInline
+              // No loop - we use onended to advance to next scene
+            />
+          );
+        })}
+
+        {audioUrl && (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            onEnded={() => {
+              // With scene-aligned narration the last clip, not the audio, ends the movie
+              if (voiceoverPlacements) return;
+              setIsPlaying(false);
+              setHasStarted(false);
+              setCurrentSceneIndex(0);
+              if (musicRef.current) {
+                musicRef.current.pause();
+                musicRef.current.currentTime = 0;
+              }
+            }}
+          />
+        )}
+
+        {musicUrl && (
+          <audio
+            ref={musicRef}
+            src={musicUrl}
+            loop
+          />
+        )}
+
+        {hasStarted && titleCard && playhead < titleCard.duration && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 z-20 pointer-events-none">
+            <h2 className="text-4xl md:text-5xl font-bold text-white text-center px-8">{title}</h2>
+            {titleCard.subtitle && <p className="mt-4 text-xl text-white/80">{titleCard.subtitle}</p>}
+          </div>
+        )}
+
+        {hasStarted && activeLowerThird && (
+          <div className="absolute left-[6%] top-[72%] z-20 pointer-events-none">
+            <span className="bg-black/60 px-3 py-1 text-lg md:text-2xl font-medium text-white">{activeLowerThird.name}</span>
+          </div>
+        )}
+
+        {showEndCard && overlays?.endCard && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black z-20 pointer-events-none">
+            {overlays.endCard.logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={overlays.endCard.logoUrl} alt="Logo" className="h-[20%] object-contain mb-8" />
+            )}
+            {overlays.endCard.callToAction && <p className="text-3xl md:text-4xl font-bold text-white">{overlays.endCard.callToAction}</p>}
+            {overlays.endCard.url && <p className="mt-3 text-xl text-white/80">{overlays.endCard.url}</p>}
+          </div>
+        )}
+
+        {activeCaption && (
+          <div className="absolute bottom-24 left-0 right-0 flex justify-center px-8 z-20 pointer-events-none">
+            <p dir={rtl ? 'rtl' : undefined} className="max-w-3xl text-center text-xl md:text-2xl font-medium text-white bg-black/60 px-4 py-2 rounded">
+              {activeCaption.speaker && <span className="text-yellow-400">{activeCaption.speaker}: </span>}
+              {activeCaption.text}
+            </p>
+          </div>
+        )}
+
+        <div className="absolute bottom-0 left-0 right-0 h-1 bg-neutral-800 z-30">
+          <div
+            className="h-full bg-red-600 transition-all duration-200 ease-linear"
+            style={{ width: `${Math.min(100, progress)}%` }}
+          />
+        </div>
+
+        <div className={`absolute bottom-10 left-0 right-0 flex justify-center gap-4 transition-opacity duration-500 ${isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'} z-20`}>
+          <button
+            onClick={togglePlay}
+            className="bg-white/20 backdrop-blur-md hover:bg-white/40 text-white rounded-full p-4 transition-all"
+          >
+            {isPlaying ? (
+              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" /></svg>
+            ) : (
+              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            )}
+          </button>
+
+          <button
+            onClick={onClose}
+            className="bg-red-600/80 hover:bg-red-500 text-white rounded-full p-4 transition-all"
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        {!hasStarted && (
+          <div className="absolute inset-0 flex items-center justify-center z-30 bg-black/60 cursor-pointer" onClick={togglePlay}>
+            <div className="text-center">
+              <div className="w-20 h-20 bg-red-600 rounded-full flex items-center justify-center mx-auto mb-4 shadow-lg shadow-red-900/50">
+                <svg className="w-10 h-10 text-white ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+              </div>
+              <h2 className="text-2xl font-bold text-white tracking-wide">Play Full Movie</h2>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MoviePlayer;
@@ -1,9 +1,21 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Script, Scene, AspectRatio, VideoModel, VoiceMode, SeedanceDuration, ContentLanguage } from '@/types';
-import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { Script, Scene, AspectRatio, VideoModel, VoiceMode, SeedanceDuration, ContentLanguage, SceneTransition, TransitionType, ClipEdit, VoiceoverLine, VoiceoverSegment, ProjectOverlays, BrandKit } from '@/types';
+import { buildSceneTimeline, getClipDuration, getCutScenes, DEFAULT_CLIP_AUDIO_GAIN, DEFAULT_MUSIC_DUCKING, ExportOptions, LOUDNESS_PRESETS, LoudnessPreset, LoudnessResult } from '@/utils/videoCompositor';
+import { buildCaptionCues, formatSubtitles, CaptionLayout, CaptionTiming, DEFAULT_CAPTION_LAYOUT, SubtitleFormat } from '@/utils/subtitles';
+import { canBurnInCaptions, isRtlLanguage } from '@/utils/captionFonts';
+import { CLIP_SPEEDS, DEFAULT_CLIP_EDIT, MIN_TRIMMED_LENGTH, clampSpeed, getEditedDuration } from '@/utils/clipEdit';
+import { EXPORT_PRESETS, ExportPresetId } from '@/utils/exportPresets';
+import { exportVideoInWorker, toWorkerExportOptions, WorkerExportOptions } from '@/utils/exportWorkerClient';
+import { buildLowerThirds, DEFAULT_END_CARD_DURATION, DEFAULT_TITLE_CARD_DURATION, isExportableImageUrl } from '@/utils/overlays';
+import { alignVoiceoverLines, placeVoiceoverSegments, VoiceoverPlacement } from '@/utils/voiceoverTimeline';
+import { resolveBrandKit } from '@/utils/brandKit';
+import { uploadBrandAsset } from '@/utils/brandAssets';
 import { buildSeedancePrompt, buildVeoPrompt } from '@/services/geminiService';
+import BrandKitEditor from '@/components/BrandKitEditor';
+import MoviePlayer from '@/components/MoviePlayer';
+import Timeline from '@/components/Timeline';
 
 // Type for character reference data stored in project
 interface CharacterRef {
@@ -15,15 +27,32 @@ interface ProductionProps {
   script: Script;
   frames: string[];
   generatedVideos: Record<number, string>;
+  clipDurations?: Record<number, number>; // Real clip lengths by scene id, where known
   generatingVideoIds: number[];
   masterAudioUrl: string | null;
+  voiceoverLines?: VoiceoverLine[]; // Measured TTS line timings for line-by-line captions
+  voiceoverSegments?: VoiceoverSegment[]; // Per-scene narration within the master track
   backgroundMusicUrl: string | null;
   isGeneratingAudio: boolean;
   isGeneratingMusic: boolean;
   isGeneratingFullMovie: boolean;
   onGenerateVideo: (sceneId: number) => void;
   onGenerateFullMovie: () => void;
+  onUpdateTransition?: (sceneId: number, transition: SceneTransition) => void;
+  onUpdateClipEdit?: (sceneId: number, edit: ClipEdit) => void;
+  onReorderScenes?: (sceneIds: number[]) => void; // Every scene id, in the new order
+  // Title card, lower thirds and end card saved with the project
+  overlays?: ProjectOverlays;
+  onUpdateOverlays?: (overlays: ProjectOverlays) => void;
+  // The user's brand kit, applied to every export
+  brandKit?: BrandKit;
+  onSaveBrandKit?: (brandKit: BrandKit) => Promise<void> | void;
   onBackToStoryboard?: () => void;
+  // Server-side render with native FFmpeg, for devices that can't export in the browser
+  onRenderOnServer?: (options: WorkerExportOptions) => void;
+  isServerRendering?: boolean;
+  serverRenderStatus?: string; // Latest progress message from the render service
+  latestRenderUrl?: string;
   aspectRatio: AspectRatio;
   videoModel: VideoModel;
   voiceMode: VoiceMode;
@@ -39,11 +68,36 @@ interface ProductionProps {
   language?: ContentLanguage;
 }
 
-// Video duration per clip based on model
-const CLIP_DURATION_BY_MODEL: Record<VideoModel, number> = {
-  'veo-3.1': 8,
-  'seedance-1.5': 4,
-};
+// Transition options shown on each scene card (applied between this scene and the next)
+const TRANSITION_OPTIONS: { value: TransitionType; label: string }[] = [
+  { value: 'none', label: 'Cut' },
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'dip_to_black', label: 'Dip to Black' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'slide', label: 'Slide' },
+];
+
+const TRANSITION_DURATIONS = [0.25, 0.5, 1, 1.5];
+const DEFAULT_TRANSITION_DURATION = 0.5;
+
+// Max words per caption when captions are split into short phrases
+const CAPTION_PHRASE_WORDS = 5;
+
+// Burned caption layout choices: lines on screen at once and widest line as a share of the frame
+const CAPTION_MAX_LINES = [1, 2, 3];
+const CAPTION_WIDTHS = [0.6, 0.7, 0.8, 0.9];
+
+// Export music level while nobody is speaking, and how far it drops under narration
+const MUSIC_LEVELS = [0.1, 0.2, 0.3, 0.4];
+const DUCK_DEPTHS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: -6, label: '-6 dB' },
+  { value: -12, label: '-12 dB' },
+  { value: -18, label: '-18 dB' },
+];
+
+// Export gain for the clips' own audio (SFX, in-video speech)
+const CLIP_AUDIO_LEVELS = [0, 0.2, 0.4, 0.7, 1];
 
 const parseDuration = (timeRange: string): number => {
   try {
@@ -66,224 +120,32 @@ const parseDuration = (timeRange: string): number => {
   }
 };
 
-const MoviePlayer: React.FC<{
-  scenes: Scene[];
-  videoUrls: Record<number, string>;
-  audioUrl: string | null;
-  musicUrl: string | null;
-  onClose: () => void;
-  clipDuration: number;
-}> = ({ scenes, videoUrls, audioUrl, musicUrl, onClose, clipDuration }) => {
-  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [hasStarted, setHasStarted] = useState(false);
-  const [progress, setProgress] = useState(0);
-
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const musicRef = useRef<HTMLAudioElement>(null);
-  const videoRefs = useRef<Record<number, HTMLVideoElement | null>>({});
-  const totalDurationRef = useRef<number>(0);
-
-  // Calculate total duration based on clip duration
-  useEffect(() => {
-    const scenesWithVideo = scenes.filter(s => videoUrls[s.id]);
-    totalDurationRef.current = scenesWithVideo.length * clipDuration;
-  }, [scenes, videoUrls, clipDuration]);
-
-  useEffect(() => {
-    let animationFrame: number;
-
-    const update = () => {
-      if (isPlaying) {
-        const scenesWithVideo = scenes.filter(s => videoUrls[s.id]);
-        const totalVideoDuration = scenesWithVideo.length * clipDuration;
-
-        // Calculate progress based on video duration
-        const videoProgress = currentSceneIndex * clipDuration;
-        const currentVideo = videoRefs.current[scenesWithVideo[currentSceneIndex]?.id];
-        if (currentVideo) {
-          const effectiveTime = videoProgress + Math.min(currentVideo.currentTime, clipDuration);
-          setProgress((effectiveTime / totalVideoDuration) * 100);
-        }
-      }
-      animationFrame = requestAnimationFrame(update);
-    };
-
-    if (isPlaying) {
-      animationFrame = requestAnimationFrame(update);
-    }
-
-    return () => cancelAnimationFrame(animationFrame);
-  }, [isPlaying, currentSceneIndex, scenes, videoUrls, clipDuration]);
-
-  useEffect(() => {
-    if (!isPlaying) return;
-
-    // Only iterate through scenes that have videos
-    const scenesWithVideo = scenes.filter(s => videoUrls[s.id]);
-    const currentScene = scenesWithVideo[currentSceneIndex];
-    if (!currentScene) return;
-
-    const video = videoRefs.current[currentScene.id];
-
-    if (video) {
-      video.currentTime = 0;
-      video.volume = 0.4; // SFX at 40% volume
-      video.play().catch(e => console.warn("Video play failed", e));
-
-      // When video ends, advance to next scene
-      video.onended = () => {
-        if (currentSceneIndex < scenesWithVideo.length - 1) {
-          setCurrentSceneIndex(prev => prev + 1);
-        } else {
-          // End of movie - all videos played
-          setIsPlaying(false);
-          setHasStarted(false);
-          setCurrentSceneIndex(0);
-          audioRef.current?.pause();
-          musicRef.current?.pause();
-        }
-      };
-    }
-
-    // Pause all other videos
-    Object.keys(videoRefs.current).forEach(key => {
-      const id = Number(key);
-      if (id !== currentScene.id && videoRefs.current[id]) {
-        videoRefs.current[id]?.pause();
-      }
-    });
-  }, [currentSceneIndex, isPlaying, scenes, videoUrls]);
-
-  // Get scenes that have videos for playback
-  const scenesWithVideo = scenes.filter(s => videoUrls[s.id]);
-
-  const togglePlay = () => {
-    if (!hasStarted) {
-      setHasStarted(true);
-      setIsPlaying(true);
-
-      if (audioRef.current) audioRef.current.play();
-      if (musicRef.current) {
-        musicRef.current.volume = 0.3;
-        musicRef.current.play();
-      }
-    } else {
-      if (isPlaying) {
-        audioRef.current?.pause();
-        musicRef.current?.pause();
-        Object.values(videoRefs.current).forEach(v => v?.pause());
-      } else {
-        audioRef.current?.play();
-        musicRef.current?.play();
-        const currentScene = scenesWithVideo[currentSceneIndex];
-        if (currentScene) {
-          const vid = videoRefs.current[currentScene.id];
-          if (vid) vid.play();
-        }
-      }
-      setIsPlaying(!isPlaying);
-    }
-  };
-
-  return (
-    <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
-      <div className="relative w-full h-full max-w-6xl max-h-screen flex items-center justify-center bg-black overflow-hidden">
-
-        {scenesWithVideo.map((scene, idx) => {
-          const url = videoUrls[scene.id];
-
-          return (
-            <video
-              key={scene.id}
-              ref={(el) => { videoRefs.current[scene.id] = el; }}
-              src={url}
-              className={`absolute inset-0 w-full h-full object-contain transition-opacity duration-0 ${idx === currentSceneIndex ? 'opacity-100 z-10' : 'opacity-0 z-0'
-                }`}
-              playsInline
-              // No loop - we use onended to advance to next scene
-            />
-          );
-        })}
-
-        {audioUrl && (
-          <audio
-            ref={audioRef}
-            src={audioUrl}
-            onEnded={() => {
-              setIsPlaying(false);
-              setHasStarted(false);
-              setCurrentSceneIndex(0);
-              if (musicRef.current) {
-                musicRef.current.pause();
-                musicRef.current.currentTime = 0;
-              }
-            }}
-          />
-        )}
-
-        {musicUrl && (
-          <audio
-            ref={musicRef}
-            src={musicUrl}
-            loop
-          />
-        )}
-
-        <div className="absolute bottom-0 left-0 right-0 h-1 bg-neutral-800 z-30">
-          <div
-            className="h-full bg-red-600 transition-all duration-200 ease-linear"
-            style={{ width: `${Math.min(100, progress)}%` }}
-          />
-        </div>
-
-        <div className={`absolute bottom-10 left-0 right-0 flex justify-center gap-4 transition-opacity duration-500 ${isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'} z-20`}>
-          <button
-            onClick={togglePlay}
-            className="bg-white/20 backdrop-blur-md hover:bg-white/40 text-white rounded-full p-4 transition-all"
-          >
-            {isPlaying ? (
-              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" /></svg>
-            ) : (
-              <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
-            )}
-          </button>
-
-          <button
-            onClick={onClose}
-            className="bg-red-600/80 hover:bg-red-500 text-white rounded-full p-4 transition-all"
-          >
-            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
-          </button>
-        </div>
-
-        {!hasStarted && (
-          <div className="absolute inset-0 flex items-center justify-center z-30 bg-black/60 cursor-pointer" onClick={togglePlay}>
-            <div className="text-center">
-              <div className="w-20 h-20 bg-red-600 rounded-full flex items-center justify-center mx-auto mb-4 shadow-lg shadow-red-900/50">
-                <svg className="w-10 h-10 text-white ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
-              </div>
-              <h2 className="text-2xl font-bold text-white tracking-wide">Play Full Movie</h2>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
-
 const Production: React.FC<ProductionProps> = ({
   script,
   frames,
   generatedVideos,
+  clipDurations,
   generatingVideoIds,
   masterAudioUrl,
+  voiceoverLines,
+  voiceoverSegments,
   backgroundMusicUrl,
   isGeneratingMusic,
   isGeneratingFullMovie,
   onGenerateVideo,
   onGenerateFullMovie,
+  onUpdateTransition,
+  onUpdateClipEdit,
+  onReorderScenes,
+  overlays,
+  onUpdateOverlays,
+  brandKit,
+  onSaveBrandKit,
   onBackToStoryboard,
+  onRenderOnServer,
+  isServerRendering = false,
+  serverRenderStatus,
+  latestRenderUrl,
   aspectRatio,
   videoModel,
   voiceMode,
@@ -296,17 +158,47 @@ const Production: React.FC<ProductionProps> = ({
   language = 'english',
 }) => {
   // For Seedance, use the configurable duration; for Veo, use fixed 8s
-  const clipDuration = videoModel === 'seedance-1.5'
-    ? (seedanceDuration ?? 4)
-    : CLIP_DURATION_BY_MODEL[videoModel];
+  const clipDuration = getClipDuration(videoModel, seedanceDuration);
   const isSeedance = videoModel === 'seedance-1.5';
   const [showPlayer, setShowPlayer] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState("");
+  const exportAbortRef = useRef<AbortController | null>(null);
   const [playingAudio, setPlayingAudio] = useState<'music' | 'voiceover' | null>(null);
   const [showProjectOverview, setShowProjectOverview] = useState(false);
   const [copiedSceneId, setCopiedSceneId] = useState<number | null>(null);
   const [enableCaptions, setEnableCaptions] = useState(false);
+  // Burned-in drawtext captions, or a toggleable mov_text subtitle track
+  const [preferredCaptionMode, setCaptionMode] = useState<'burned' | 'soft'>('burned');
+  const canBurnIn = canBurnInCaptions(language);
+  const captionMode = canBurnIn ? preferredCaptionMode : 'soft';
+  // Whole voiceover lines, or short word-chunked phrases
+  const [captionChunking, setCaptionChunking] = useState<'lines' | 'phrases'>('lines');
+  // Vertical exports are mostly posted to TikTok/Reels, so their captions start clear of the app UI
+  const [captionLayout, setCaptionLayout] = useState<CaptionLayout>({
+    ...DEFAULT_CAPTION_LAYOUT,
+    socialSafeArea: aspectRatio === '9:16',
+  });
+  const [musicLevel, setMusicLevel] = useState(DEFAULT_MUSIC_DUCKING.baseVolume);
+  const [duckDb, setDuckDb] = useState(DEFAULT_MUSIC_DUCKING.duckDb);
+  // In speech_in_video mode the clip audio carries the dialogue, so it stays at full level
+  const [clipAudioGain, setClipAudioGain] = useState(voiceMode === 'speech_in_video' ? 1 : DEFAULT_CLIP_AUDIO_GAIN);
+  // Normalizing takes a second full pass over the audio, so it's opt-in
+  const [loudnessPreset, setLoudnessPreset] = useState<LoudnessPreset | 'off'>('off');
+  const [exportPreset, setExportPreset] = useState<ExportPresetId>('standard');
+  // Show the storyboard frame, slowly panned and zoomed, for scenes whose clip is missing
+  const [fillWithStills, setFillWithStills] = useState(false);
+  // Edited locally and saved through onUpdateOverlays (text fields save on blur)
+  const [projectOverlays, setProjectOverlays] = useState<ProjectOverlays>(overlays ?? {});
+  const [showBrandKit, setShowBrandKit] = useState(false);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  // Measured loudness of the last export, before and after normalization
+  const [lastLoudness, setLastLoudness] = useState<LoudnessResult | null>(null);
+  const hasLineTimings = !!voiceoverLines && voiceoverLines.length > 0;
+  const captionTiming: CaptionTiming | undefined = React.useMemo(() => hasLineTimings ? {
+    lines: voiceoverLines,
+    maxWordsPerCue: captionChunking === 'phrases' ? CAPTION_PHRASE_WORDS : undefined,
+  } : undefined, [hasLineTimings, voiceoverLines, captionChunking]);
 
   // Copy video prompt for a scene
   const handleCopyPrompt = async (scene: Scene) => {
@@ -362,35 +254,97 @@ const Production: React.FC<ProductionProps> = ({
   // In speech_in_video mode, voices are baked into videos - no separate audio needed
   const hasEnoughToWatch = generatedCount >= 1 && (voiceMode === 'speech_in_video' || !!masterAudioUrl);
 
+  // Storyboard frames standing in for scenes without a clip (by scene id)
+  const missingFrames: Record<number, string> = React.useMemo(() => Object.fromEntries(
+    script.scenes
+      .map((scene, index) => [scene.id, frames[index]] as const)
+      .filter(([sceneId, frame]) => frame && !generatedVideos[sceneId])
+  ), [script.scenes, frames, generatedVideos]);
+  const canFillWithStills = Object.keys(missingFrames).length > 0;
+  const stillFrames = fillWithStills && canFillWithStills ? missingFrames : undefined;
+
   const handlePlayMovie = () => {
     if (hasEnoughToWatch) setShowPlayer(true);
   };
 
+  const buildExportOptions = (includeMusic: boolean): ExportOptions => ({
+    preset: exportPreset,
+    aspectRatio,
+    videoModel,
+    includeMusic,
+    clipDuration,  // Pass the configured clip duration
+    captions: enableCaptions ? captionMode : 'none',
+    captionTiming,
+    captionLayout,
+    voiceoverSegments,
+    musicDucking: { baseVolume: musicLevel, duckDb },
+    loudness: loudnessPreset === 'off' ? undefined : { preset: loudnessPreset, onMeasured: setLastLoudness },
+    clipAudioGain,
+    title: script.title,
+    overlays: projectOverlays,
+    brandKit,
+    language,
+    stillFrames,
+  });
+
+  // Save a scene's trim and speed, ignoring edits that would leave (almost) nothing of the clip
+  const updateClipEdit = (scene: Scene, changes: Partial<ClipEdit>) => {
+    const current = scene.clipEdit ?? DEFAULT_CLIP_EDIT;
+    const next: ClipEdit = { ...current, ...changes, speed: clampSpeed(changes.speed ?? current.speed) };
+    next.trimIn = Math.max(0, next.trimIn);
+    if (next.trimOut !== undefined && next.trimOut < next.trimIn + MIN_TRIMMED_LENGTH) return;
+    if (next.trimIn === current.trimIn && next.trimOut === current.trimOut && next.speed === current.speed) return;
+    onUpdateClipEdit?.(scene.id, next);
+  };
+
+  const updateOverlays = (next: ProjectOverlays, save: boolean = true) => {
+    setProjectOverlays(next);
+    if (save) onUpdateOverlays?.(next);
+  };
+
+  const updateEndCard = (changes: Partial<NonNullable<ProjectOverlays['endCard']>>, save: boolean = true) => {
+    const endCard = { enabled: false, duration: DEFAULT_END_CARD_DURATION, ...projectOverlays.endCard, ...changes };
+    updateOverlays({ ...projectOverlays, endCard }, save);
+  };
+
+  // The logo goes to R2 like the brand kit's, so the export can fetch it
+  const handleEndCardLogo = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploadingLogo(true);
+    try {
+      updateEndCard({ logoUrl: await uploadBrandAsset(file) });
+    } catch (error) {
+      console.error("Logo upload failed:", error);
+      alert("Logo upload failed: " + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
+
   const handleExport = async (includeMusic: boolean = true) => {
     if (!hasEnoughToWatch) return;
     setIsExporting(true);
     setExportProgress("Starting export...");
+    setLastLoudness(null);
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
 
     try {
-      const blob = await composeAndExportVideo(
+      const blob = await exportVideoInWorker(
         script.scenes,
         generatedVideos,
         masterAudioUrl,
         backgroundMusicUrl,
-        (msg) => setExportProgress(msg),
-        aspectRatio,
-        videoModel,
-        includeMusic,
-        clipDuration,  // Pass the configured clip duration
-        enableCaptions  // Pass caption toggle state
+        (progress) => setExportProgress(progress.message),
+        { ...buildExportOptions(includeMusic), signal: controller.signal }
       );
 
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      const captionSuffix = enableCaptions ? '_Captions' : '';
+      const captionSuffix = enableCaptions ? (captionMode === 'soft' ? '_Subtitled' : '_Captions') : '';
       const musicSuffix = includeMusic && backgroundMusicUrl ? '' : '_NoMusic';
-      a.download = `${script.title.replace(/\s+/g, '_')}${captionSuffix}${musicSuffix}.mp4`;
+      a.download = `${script.title.replace(/\s+/g, '_')}${captionSuffix}${musicSuffix}.${EXPORT_PRESETS[exportPreset].container}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -403,12 +357,71 @@ const Production: React.FC<ProductionProps> = ({
       }, 2000);
 
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        setIsExporting(false);
+        setExportProgress("");
+        return;
+      }
       console.error("Export failed:", error);
       alert("Export failed: " + (error instanceof Error ? error.message : 'Unknown error'));
       setIsExporting(false);
+    } finally {
+      exportAbortRef.current = null;
     }
   };
 
+  const handleRenderOnServer = () => {
+    onRenderOnServer?.(toWorkerExportOptions(buildExportOptions(!!backgroundMusicUrl)));
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  // Don't leave an export running after leaving the page
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
+  // Download captions as a sidecar file, timed against the same timeline as the export
+  const hasSegments = !!voiceoverSegments && voiceoverSegments.length > 0;
+
+  // Where each scene's narration lands in the full film, to flag scenes whose narration doesn't fit
+  const narrationFit: Record<number, VoiceoverPlacement> = React.useMemo(() => {
+    if (!hasSegments) return {};
+    const { timings } = buildSceneTimeline(script.scenes, clipDuration, clipDurations);
+    return Object.fromEntries(
+      placeVoiceoverSegments(voiceoverSegments, script.scenes, timings).map(p => [p.sceneId, p])
+    );
+  }, [hasSegments, voiceoverSegments, script.scenes, clipDuration, clipDurations]);
+
+  // Narration placement and caption cues on the export timeline, shared by sidecar downloads and the player preview
+  const { exportPlacements, captionCues, lowerThirds } = React.useMemo(() => {
+    const scenesWithVideo = getCutScenes(script.scenes, generatedVideos, stillFrames);
+    const { timings } = buildSceneTimeline(scenesWithVideo, clipDuration, clipDurations);
+    const placements = hasSegments ? placeVoiceoverSegments(voiceoverSegments, scenesWithVideo, timings) : undefined;
+    const timing = placements && captionTiming
+      ? { ...captionTiming, lines: alignVoiceoverLines(captionTiming.lines, placements) }
+      : captionTiming;
+    return {
+      exportPlacements: placements,
+      captionCues: buildCaptionCues(scenesWithVideo, timings, timing),
+      lowerThirds: buildLowerThirds(scenesWithVideo, timings, timing?.lines),
+    };
+  }, [script.scenes, generatedVideos, stillFrames, clipDuration, clipDurations, captionTiming, hasSegments, voiceoverSegments]);
+
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    const content = formatSubtitles(captionCues, format, { rtl: isRtlLanguage(language) });
+
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${script.title.replace(/\s+/g, '_')}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="w-full max-w-6xl mx-auto space-y-8 pb-20">
 
@@ -524,6 +537,22 @@ const Production: React.FC<ProductionProps> = ({
             </div>
           )}
 
+          {/* Storyboard stills for missing clips - only offered while some clips are missing */}
+          {hasEnoughToWatch && !isExporting && canFillWithStills && (
+            <label
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-300 cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700"
+              title="Show the storyboard frame with a slow pan and zoom where a scene's clip is missing"
+            >
+              <input
+                type="checkbox"
+                checked={fillWithStills}
+                onChange={(e) => setFillWithStills(e.target.checked)}
+                className="w-4 h-4 rounded border-neutral-500 bg-neutral-700 text-yellow-500 focus:ring-yellow-500 focus:ring-offset-neutral-900 accent-yellow-500"
+              />
+              Fill gaps with storyboard frames
+            </label>
+          )}
+
           {/* Caption toggle - available with partial videos */}
           {hasEnoughToWatch && !isExporting && (
             <label className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-neutral-300 cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700">
@@ -536,18 +565,256 @@ const Production: React.FC<ProductionProps> = ({
               Captions
             </label>
           )}
+          {hasEnoughToWatch && !isExporting && enableCaptions && (
+            <select
+              aria-label="Caption style"
+              value={captionMode}
+              onChange={(e) => setCaptionMode(e.target.value as 'burned' | 'soft')}
+              className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+            >
+              <option value="burned" disabled={!canBurnIn}>{canBurnIn ? 'Burned in' : 'Burned in (not for this language)'}</option>
+              <option value="soft">Subtitle track</option>
+            </select>
+          )}
+          {hasEnoughToWatch && !isExporting && enableCaptions && hasLineTimings && (
+            <select
+              aria-label="Caption timing"
+              value={captionChunking}
+              onChange={(e) => setCaptionChunking(e.target.value as 'lines' | 'phrases')}
+              className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+            >
+              <option value="lines">Full lines</option>
+              <option value="phrases">Phrases</option>
+            </select>
+          )}
+          {hasEnoughToWatch && !isExporting && enableCaptions && captionMode === 'burned' && (
+            <div className="flex items-center gap-2 text-sm text-neutral-300">
+              <select
+                aria-label="Caption lines"
+                value={captionLayout.maxLines}
+                onChange={(e) => setCaptionLayout(prev => ({ ...prev, maxLines: Number(e.target.value) }))}
+                className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+              >
+                {CAPTION_MAX_LINES.map(lines => (
+                  <option key={lines} value={lines}>{lines === 1 ? '1 line' : `${lines} lines`}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Caption width"
+                value={captionLayout.maxWidth}
+                onChange={(e) => setCaptionLayout(prev => ({ ...prev, maxWidth: Number(e.target.value) }))}
+                className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+              >
+                {CAPTION_WIDTHS.map(width => (
+                  <option key={width} value={width}>Width {Math.round(width * 100)}%</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 cursor-pointer" title="Keep captions clear of TikTok/Reels captions and buttons">
+                <input
+                  type="checkbox"
+                  checked={!!captionLayout.socialSafeArea}
+                  onChange={(e) => setCaptionLayout(prev => ({ ...prev, socialSafeArea: e.target.checked }))}
+                  className="w-4 h-4 accent-yellow-500"
+                />
+                Social safe area
+              </label>
+            </div>
+          )}
+
+          {/* Music mix - level and ducking under narration */}
+          {hasEnoughToWatch && !isExporting && backgroundMusicUrl && (
+            <div className="flex items-center gap-2 text-sm text-neutral-300">
+              <select
+                aria-label="Music level"
+                value={musicLevel}
+                onChange={(e) => setMusicLevel(Number(e.target.value))}
+                className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+              >
+                {MUSIC_LEVELS.map(level => (
+                  <option key={level} value={level}>Music {Math.round(level * 100)}%</option>
+                ))}
+              </select>
+              {masterAudioUrl && (
+                <select
+                  aria-label="Duck music under voice"
+                  value={duckDb}
+                  onChange={(e) => setDuckDb(Number(e.target.value))}
+                  className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+                >
+                  {DUCK_DEPTHS.map(depth => (
+                    <option key={depth.value} value={depth.value}>Duck {depth.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {/* Clip audio level */}
+          {hasEnoughToWatch && !isExporting && (
+            <select
+              aria-label="Clip audio level"
+              value={clipAudioGain}
+              onChange={(e) => setClipAudioGain(Number(e.target.value))}
+              className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+            >
+              {CLIP_AUDIO_LEVELS.map(level => (
+                <option key={level} value={level}>{level === 0 ? 'Clip audio off' : `Clip audio ${Math.round(level * 100)}%`}</option>
+              ))}
+            </select>
+          )}
+
+          {/* Loudness normalization target */}
+          {hasEnoughToWatch && !isExporting && (
+            <select
+              aria-label="Loudness"
+              value={loudnessPreset}
+              onChange={(e) => setLoudnessPreset(e.target.value as LoudnessPreset | 'off')}
+              className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+            >
+              <option value="off">Loudness: as mixed</option>
+              {(Object.keys(LOUDNESS_PRESETS) as LoudnessPreset[]).map(preset => (
+                <option key={preset} value={preset}>{LOUDNESS_PRESETS[preset].label}</option>
+              ))}
+            </select>
+          )}
+
+          {/* Output resolution, codec and container */}
+          {hasEnoughToWatch && !isExporting && (
+            <select
+              aria-label="Export preset"
+              value={exportPreset}
+              onChange={(e) => setExportPreset(e.target.value as ExportPresetId)}
+              className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200"
+            >
+              {(Object.keys(EXPORT_PRESETS) as ExportPresetId[]).map(preset => (
+                <option key={preset} value={preset}>{EXPORT_PRESETS[preset].label}</option>
+              ))}
+            </select>
+          )}
+
+          {/* Title card, name tags and end card */}
+          {hasEnoughToWatch && !isExporting && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-300">
+              <label className="flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={!!projectOverlays.titleCard?.enabled}
+                  onChange={(e) => updateOverlays({
+                    ...projectOverlays,
+                    titleCard: { duration: DEFAULT_TITLE_CARD_DURATION, ...projectOverlays.titleCard, enabled: e.target.checked },
+                  })}
+                  className="w-4 h-4 accent-yellow-500"
+                />
+                Title card
+              </label>
+              <label className="flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={!!projectOverlays.lowerThirds}
+                  onChange={(e) => updateOverlays({ ...projectOverlays, lowerThirds: e.target.checked })}
+                  className="w-4 h-4 accent-yellow-500"
+                />
+                Name tags
+              </label>
+              <label className="flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={!!projectOverlays.endCard?.enabled}
+                  onChange={(e) => updateEndCard({ enabled: e.target.checked })}
+                  className="w-4 h-4 accent-yellow-500"
+                />
+                End card
+              </label>
+              {projectOverlays.endCard?.enabled && (
+                <>
+                  <input
+                    aria-label="End card call to action"
+                    placeholder="Call to action"
+                    value={projectOverlays.endCard.callToAction ?? ''}
+                    onChange={(e) => updateEndCard({ callToAction: e.target.value }, false)}
+                    onBlur={() => onUpdateOverlays?.(projectOverlays)}
+                    className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200 w-36"
+                  />
+                  <input
+                    aria-label="End card URL"
+                    placeholder="URL"
+                    value={projectOverlays.endCard.url ?? ''}
+                    onChange={(e) => updateEndCard({ url: e.target.value }, false)}
+                    onBlur={() => onUpdateOverlays?.(projectOverlays)}
+                    className="px-2 py-2 rounded-lg bg-neutral-900 border border-neutral-700 text-sm text-neutral-200 w-36"
+                  />
+                  <label className="flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700">
+                    {isUploadingLogo ? 'Uploading...' : projectOverlays.endCard.logoUrl ? 'Replace logo' : 'Logo'}
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      aria-label="End card logo file"
+                      disabled={isUploadingLogo}
+                      onChange={(e) => handleEndCardLogo(e.target.files?.[0])}
+                      className="hidden"
+                    />
+                  </label>
+                  {projectOverlays.endCard.logoUrl && (
+                    <button
+                      onClick={() => updateEndCard({ logoUrl: undefined })}
+                      className="px-2 py-2 text-sm text-neutral-400 hover:text-white"
+                    >
+                      Remove logo
+                    </button>
+                  )}
+                  {projectOverlays.endCard.logoUrl && !isExportableImageUrl(projectOverlays.endCard.logoUrl) && (
+                    <span className="text-xs text-red-400">This logo can&apos;t be exported from its host; upload it again</span>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Brand kit */}
+          {hasEnoughToWatch && !isExporting && onSaveBrandKit && (
+            <button
+              onClick={() => setShowBrandKit(true)}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-neutral-300 hover:text-white hover:bg-neutral-700/50 transition-all border border-neutral-700"
+            >
+              Brand kit
+            </button>
+          )}
+
+          {/* Subtitle sidecar downloads */}
+          {hasEnoughToWatch && !isExporting && (
+            <div className="flex rounded-lg border border-neutral-700 overflow-hidden text-xs font-medium">
+              {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleDownloadSubtitles(format)}
+                  className="px-3 py-2 text-neutral-300 hover:text-white hover:bg-neutral-700/50 transition-all uppercase"
+                  title={`Download subtitles as .${format}`}
+                >
+                  .{format}
+                </button>
+              ))}
+            </div>
+          )}
 
           {/* Watch/Download buttons - available with partial videos */}
           {hasEnoughToWatch && (
             <div className="flex gap-2">
               {isExporting ? (
-                <button
-                  disabled
-                  className="px-6 py-3 rounded-lg font-bold shadow-lg bg-neutral-700 text-neutral-300 cursor-wait flex items-center gap-2"
-                >
-                  <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  {exportProgress || "Exporting..."}
-                </button>
+                <>
+                  <button
+                    disabled
+                    className="px-6 py-3 rounded-lg font-bold shadow-lg bg-neutral-700 text-neutral-300 cursor-wait flex items-center gap-2"
+                  >
+                    <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                    {exportProgress || "Exporting..."}
+                  </button>
+                  <button
+                    onClick={handleCancelExport}
+                    className="px-4 py-3 rounded-lg font-bold shadow-lg transition-all bg-neutral-800 text-neutral-200 hover:bg-neutral-700 border border-neutral-700"
+                  >
+                    Cancel export
+                  </button>
+                </>
               ) : backgroundMusicUrl ? (
                 <>
                   <button
@@ -574,6 +841,26 @@ const Production: React.FC<ProductionProps> = ({
                   Download
                 </button>
               )}
+              {onRenderOnServer && !isExporting && (
+                <button
+                  onClick={handleRenderOnServer}
+                  disabled={isServerRendering}
+                  title={isServerRendering ? serverRenderStatus : undefined}
+                  className={`px-4 py-3 rounded-lg font-bold shadow-lg transition-all border border-neutral-700 ${isServerRendering ? 'bg-neutral-800 text-neutral-400 cursor-wait' : 'bg-neutral-800 text-neutral-200 hover:bg-neutral-700'}`}
+                >
+                  {isServerRendering ? 'Rendering on server...' : 'Render on server'}
+                </button>
+              )}
+              {latestRenderUrl && !isServerRendering && (
+                <a
+                  href={latestRenderUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-4 py-3 rounded-lg font-bold shadow-lg transition-all bg-neutral-800 text-neutral-200 hover:bg-neutral-700 border border-neutral-700"
+                >
+                  Server render
+                </a>
+              )}
               <button
                 onClick={handlePlayMovie}
                 disabled={isExporting}
@@ -612,6 +899,16 @@ const Production: React.FC<ProductionProps> = ({
         </div>
       </div>
 
+      {/* Loudness report for the last export */}
+      {lastLoudness && (
+        <div className="px-4 py-2 rounded-lg border border-neutral-700 bg-neutral-800/50 text-xs text-neutral-400 font-mono">
+          Loudness ({LOUDNESS_PRESETS[lastLoudness.preset].label}): measured {lastLoudness.input.integrated.toFixed(1)} LUFS,
+          {' '}peak {lastLoudness.input.truePeak.toFixed(1)} dBTP, LRA {lastLoudness.input.lra.toFixed(1)} LU
+          {' '}→ exported {lastLoudness.output.integrated.toFixed(1)} LUFS,
+          {' '}peak {lastLoudness.output.truePeak.toFixed(1)} dBTP, LRA {lastLoudness.output.lra.toFixed(1)} LU
+        </div>
+      )}
+
       {/* Project Overview - Collapsible */}
       {originalPrompt && (
         <div className="bg-neutral-800/50 rounded-xl border border-neutral-700 overflow-hidden">
@@ -682,6 +979,20 @@ const Production: React.FC<ProductionProps> = ({
         </div>
       )}
 
+      <Timeline
+        scenes={script.scenes}
+        frames={frames}
+        videoUrls={generatedVideos}
+        stillFrames={stillFrames}
+        clipDuration={clipDuration}
+        clipDurations={clipDurations}
+        voiceoverSegments={voiceoverSegments}
+        captionTiming={captionTiming}
+        hasVoiceover={!!masterAudioUrl}
+        hasMusic={!!backgroundMusicUrl}
+        onReorder={onReorderScenes}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {script.scenes.map((scene, index) => {
           const isGenerating = generatingVideoIds.includes(scene.id);
@@ -730,13 +1041,92 @@ const Production: React.FC<ProductionProps> = ({
                 )}
 
                 <div className="absolute top-2 left-2 bg-black/80 text-white text-[10px] px-2 py-0.5 rounded border border-neutral-600">
-                  Scene {index + 1}{scene.cameraShot ? ` • ${scene.cameraShot}` : ''} • {clipDuration}s
+                  Scene {index + 1}{scene.cameraShot ? ` • ${scene.cameraShot}` : ''} • {getEditedDuration(clipDurations?.[scene.id] ?? clipDuration, scene.clipEdit)}s
                 </div>
               </div>
 
               <div className="p-4 flex-1 flex flex-col gap-3">
                 <p className="text-xs text-neutral-400 font-mono">ID: {scene.id}</p>
                 <p className="text-sm text-neutral-200 line-clamp-3">{scene.visualDescription}</p>
+                {narrationFit[scene.id]?.overflow > 0 ? (
+                  <p className="text-xs text-yellow-500">
+                    Narration runs {narrationFit[scene.id].overflow.toFixed(1)}s past this scene
+                  </p>
+                ) : narrationFit[scene.id]?.tempo > 1 && (
+                  <p className="text-xs text-neutral-400">
+                    Narration sped up {Math.round((narrationFit[scene.id].tempo - 1) * 100)}% to fit
+                  </p>
+                )}
+                {onUpdateTransition && index < script.scenes.length - 1 && (
+                  <div className="flex items-center gap-2 text-xs text-neutral-400">
+                    <label htmlFor={`transition-${scene.id}`}>Transition to next</label>
+                    <select
+                      id={`transition-${scene.id}`}
+                      value={scene.transition?.type ?? 'none'}
+                      onChange={(e) => onUpdateTransition(scene.id, {
+                        type: e.target.value as TransitionType,
+                        duration: scene.transition?.duration ?? DEFAULT_TRANSITION_DURATION,
+                      })}
+                      className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200"
+                    >
+                      {TRANSITION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    {scene.transition && scene.transition.type !== 'none' && (
+                      <select
+                        aria-label={`Transition duration for scene ${index + 1}`}
+                        value={scene.transition.duration}
+                        onChange={(e) => onUpdateTransition(scene.id, {
+                          type: scene.transition!.type,
+                          duration: Number(e.target.value),
+                        })}
+                        className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200"
+                      >
+                        {TRANSITION_DURATIONS.map(d => (
+                          <option key={d} value={d}>{d}s</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+                {onUpdateClipEdit && generatedVideos[scene.id] && (
+                  <div className="flex items-center gap-2 text-xs text-neutral-400">
+                    <span>Trim</span>
+                    <input
+                      key={`trim-in-${scene.clipEdit?.trimIn ?? 0}`}
+                      type="number"
+                      aria-label={`Trim in for scene ${index + 1}`}
+                      min={0}
+                      step={0.1}
+                      defaultValue={scene.clipEdit?.trimIn ?? 0}
+                      onBlur={(e) => updateClipEdit(scene, { trimIn: Number(e.target.value) || 0 })}
+                      className="w-14 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200"
+                    />
+                    <span>to</span>
+                    <input
+                      key={`trim-out-${scene.clipEdit?.trimOut ?? 'end'}`}
+                      type="number"
+                      aria-label={`Trim out for scene ${index + 1}`}
+                      min={0}
+                      step={0.1}
+                      placeholder="end"
+                      defaultValue={scene.clipEdit?.trimOut ?? ''}
+                      onBlur={(e) => updateClipEdit(scene, { trimOut: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className="w-14 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200"
+                    />
+                    <select
+                      aria-label={`Speed for scene ${index + 1}`}
+                      value={scene.clipEdit?.speed ?? 1}
+                      onChange={(e) => updateClipEdit(scene, { speed: Number(e.target.value) })}
+                      className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-200"
+                    >
+                      {CLIP_SPEEDS.map(speed => (
+                        <option key={speed} value={speed}>{speed}x</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <button
                   onClick={() => handleCopyPrompt(scene)}
                   className="mt-auto self-start px-3 py-1.5 text-xs rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200 transition-all flex items-center gap-1.5"
@@ -764,14 +1154,30 @@ const Production: React.FC<ProductionProps> = ({
         })}
       </div>
 
+      {showBrandKit && onSaveBrandKit && (
+        <BrandKitEditor
+          brandKit={resolveBrandKit(brandKit)}
+          onSave={onSaveBrandKit}
+          onClose={() => setShowBrandKit(false)}
+        />
+      )}
+
       {showPlayer && masterAudioUrl && (
         <MoviePlayer
           scenes={script.scenes}
           videoUrls={generatedVideos}
+          stillFrames={stillFrames}
           audioUrl={masterAudioUrl}
           musicUrl={backgroundMusicUrl}
           onClose={() => setShowPlayer(false)}
           clipDuration={clipDuration}
+          clipDurations={clipDurations}
+          captions={enableCaptions ? captionCues : undefined}
+          rtl={isRtlLanguage(language)}
+          title={script.title}
+          overlays={projectOverlays}
+          lowerThirds={projectOverlays.lowerThirds ? lowerThirds : undefined}
+          voiceoverPlacements={exportPlacements}
         />
       )}
 
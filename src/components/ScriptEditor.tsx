@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Script, Scene, DialogueLine } from '@/types';
+import { findSplitPoint } from '@/utils/scriptEdit';
+import { ScriptLintWarning } from '@/utils/scriptLint';
+
+export type SceneTextChanges = Partial<Pick<Scene, 'visualDescription' | 'audioDescription' | 'cameraShot' | 'voiceoverText' | 'dialogue'>>;
+
+interface ScriptEditorProps {
+  script: Script;
+  // Scenes are addressed by id; numbering and time ranges are kept in order by the caller
+  onUpdateScene: (sceneId: number, changes: SceneTextChanges) => void;
+  onInsertScene: (position: number) => void;
+  onDeleteScene: (sceneId: number) => void;
+  onSplitScene: (sceneId: number, splitAt: number) => void;
+  onMergeScene: (sceneId: number) => void; // Merges with the scene after it
+  // Rewrite a scene with AI following an instruction; left out when it isn't available
+  onRegenerateScene?: (sceneId: number, instruction: string) => void;
+  regeneratingSceneId?: number | null;
+  warnings?: ScriptLintWarning[]; // Shown on their scenes
+  disabled?: boolean;
+}
+
+interface FieldProps {
+  label: string;
+  value: string;
+  onSave: (value: string) => void;
+  rows?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Text field that saves on blur, and only when the text changed
+ */
+const Field: React.FC<FieldProps> = ({ label, value, onSave, rows = 1, disabled }) => (
+  <label className="block">
+    <span className="text-[10px] uppercase tracking-wide text-neutral-500">{label}</span>
+    <textarea
+      // Remount when the saved value changes so the field shows it
+      key={value}
+      defaultValue={value}
+      rows={rows}
+      disabled={disabled}
+      aria-label={label}
+      onBlur={(e) => {
+        const next = e.target.value.trim();
+        if (next !== value) onSave(next);
+      }}
+      className="mt-1 w-full bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white resize-y focus:outline-none focus:border-neutral-500 disabled:opacity-50"
+    />
+  </label>
+);
+
+/**
+ * Edit the script scene by scene before the storyboard is drawn: rewrite any field,
+ * add or delete scenes, or split and merge them
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({
+  script,
+  onUpdateScene,
+  onInsertScene,
+  onDeleteScene,
+  onSplitScene,
+  onMergeScene,
+  onRegenerateScene,
+  regeneratingSceneId,
+  warnings = [],
+  disabled,
+}) => {
+  const [confirmDelete, setConfirmDelete] = useState<number | null>(null);
+  const [rewriteSceneId, setRewriteSceneId] = useState<number | null>(null);
+  const [instruction, setInstruction] = useState('');
+
+  const submitRewrite = (sceneId: number) => {
+    if (!onRegenerateScene || !instruction.trim()) return;
+    onRegenerateScene(sceneId, instruction.trim());
+    setRewriteSceneId(null);
+    setInstruction('');
+  };
+
+  const insertButton = (position: number) => (
+    <button
+      onClick={() => onInsertScene(position)}
+      disabled={disabled}
+      aria-label={`Add scene at position ${position + 1}`}
+      className="w-full py-1 text-xs text-neutral-500 hover:text-white border border-dashed border-neutral-700 hover:border-neutral-500 rounded-lg transition-colors disabled:opacity-50"
+    >
+      + Add scene
+    </button>
+  );
+
+  const saveDialogueLine = (scene: Scene, lineIndex: number, text: string) => {
+    const dialogue: DialogueLine[] = (scene.dialogue ?? []).map((line, i) => i === lineIndex ? { ...line, text } : line);
+    onUpdateScene(scene.id, { dialogue });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8 space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-lg font-semibold text-white">{script.title}</h3>
+        <span className="text-xs text-neutral-500">
+          {script.scenes.length} scenes
+          {warnings.length > 0 && <span className="text-yellow-500"> • {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}</span>}
+        </span>
+      </div>
+
+      {insertButton(0)}
+      {script.scenes.map((scene, index) => {
+        const isLast = index === script.scenes.length - 1;
+        const isRegenerating = regeneratingSceneId === scene.id;
+        const sceneDisabled = disabled || isRegenerating;
+        const sceneWarnings = warnings.filter(w => w.sceneId === scene.id);
+        return (
+          <React.Fragment key={scene.id}>
+            <div data-testid={`script-scene-${scene.id}`} className="bg-neutral-800/50 rounded-xl border border-neutral-700 p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold text-neutral-400 uppercase tracking-wide">
+                  Scene {index + 1} • <span className="font-mono">{scene.timeRange}</span>
+                </span>
+                <div className="flex gap-1">
+                  {onRegenerateScene && (
+                    <button
+                      onClick={() => setRewriteSceneId(rewriteSceneId === scene.id ? null : scene.id)}
+                      disabled={sceneDisabled}
+                      className="px-2 py-1 text-xs rounded bg-neutral-700 text-neutral-200 hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                      {isRegenerating ? 'Rewriting...' : 'Rewrite'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onSplitScene(scene.id, findSplitPoint(scene.voiceoverText))}
+                    disabled={sceneDisabled || scene.voiceoverText.length < 2}
+                    className="px-2 py-1 text-xs rounded bg-neutral-700 text-neutral-200 hover:bg-neutral-600 disabled:opacity-50"
+                  >
+                    Split
+                  </button>
+                  <button
+                    onClick={() => onMergeScene(scene.id)}
+                    disabled={sceneDisabled || isLast}
+                    className="px-2 py-1 text-xs rounded bg-neutral-700 text-neutral-200 hover:bg-neutral-600 disabled:opacity-50"
+                  >
+                    Merge with next
+                  </button>
+                  {confirmDelete === scene.id ? (
+                    <button
+                      onClick={() => {
+                        setConfirmDelete(null);
+                        onDeleteScene(scene.id);
+                      }}
+                      onBlur={() => setConfirmDelete(null)}
+                      disabled={sceneDisabled}
+                      className="px-2 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-500 disabled:opacity-50"
+                    >
+                      Confirm delete
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDelete(scene.id)}
+                      disabled={sceneDisabled || script.scenes.length <= 1}
+                      className="px-2 py-1 text-xs rounded bg-neutral-700 text-red-300 hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {sceneWarnings.length > 0 && (
+                <ul className="space-y-1">
+                  {sceneWarnings.map((warning, i) => (
+                    <li key={i} className="text-xs text-yellow-500 flex gap-1.5">
+                      <span aria-hidden>⚠</span>
+                      {warning.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {rewriteSceneId === scene.id && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitRewrite(scene.id);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    placeholder="How should this scene change? e.g. Set it at night in the rain"
+                    aria-label="Rewrite instruction"
+                    autoFocus
+                    className="flex-1 bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-neutral-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!instruction.trim() || sceneDisabled}
+                    className="px-3 py-2 text-xs rounded-lg bg-white text-black font-bold hover:bg-neutral-200 disabled:opacity-50"
+                  >
+                    Rewrite scene
+                  </button>
+                </form>
+              )}
+
+              <Field
+                label="Visual"
+                value={scene.visualDescription}
+                rows={3}
+                disabled={sceneDisabled}
+                onSave={(visualDescription) => onUpdateScene(scene.id, { visualDescription })}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <Field
+                  label="Camera"
+                  value={scene.cameraShot ?? ''}
+                  disabled={sceneDisabled}
+                  onSave={(cameraShot) => onUpdateScene(scene.id, { cameraShot })}
+                />
+                <Field
+                  label="Audio"
+                  value={scene.audioDescription ?? ''}
+                  disabled={sceneDisabled}
+                  onSave={(audioDescription) => onUpdateScene(scene.id, { audioDescription })}
+                />
+              </div>
+              <Field
+                label="Voiceover"
+                value={scene.voiceoverText}
+                rows={2}
+                disabled={sceneDisabled}
+                onSave={(voiceoverText) => onUpdateScene(scene.id, { voiceoverText })}
+              />
+              {scene.dialogue?.map((line, lineIndex) => (
+                <Field
+                  key={lineIndex}
+                  label={`Dialogue ${lineIndex + 1} • ${line.speaker}`}
+                  value={line.text}
+                  rows={2}
+                  disabled={sceneDisabled}
+                  onSave={(text) => saveDialogueLine(scene, lineIndex, text)}
+                />
+              ))}
+            </div>
+            {insertButton(index + 1)}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScriptEditor;
@@ -0,0 +1,123 @@
+'use client';
+
+import React from 'react';
+import { Scene, ScriptVersion } from '@/types';
+import { diffScenes, SceneField } from '@/utils/scriptEdit';
+
+interface ScriptVersionsProps {
+  versions: ScriptVersion[];
+  activeScenes: Scene[];
+  comparedVersionId: string | null;
+  comparedScenes?: Scene[]; // Scenes of the compared version, undefined while loading
+  onCompare: (versionId: string | null) => void;
+  onRestore: (versionId: string) => void;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<SceneField, string> = {
+  visualDescription: 'Visual',
+  audioDescription: 'Audio',
+  cameraShot: 'Camera',
+  voiceoverText: 'Voiceover',
+  dialogue: 'Dialogue',
+};
+
+/**
+ * Every script version of the project, newest first: each one generated, and the edited
+ * copy made the first time its script text is changed. Any version can be compared scene by
+ * scene with the active one, and restored along with its storyboards, clips and voiceover.
+ */
+const ScriptVersions: React.FC<ScriptVersionsProps> = ({
+  versions,
+  activeScenes,
+  comparedVersionId,
+  comparedScenes,
+  onCompare,
+  onRestore,
+  disabled,
+}) => {
+  const compared = versions.find(v => v.id === comparedVersionId);
+  const diff = compared && comparedScenes
+    ? diffScenes(comparedScenes, activeScenes).filter(d => d.status !== 'unchanged')
+    : undefined;
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8 bg-neutral-800/50 rounded-xl border border-neutral-700 p-4 space-y-3">
+      <h3 className="text-sm font-medium text-neutral-300">Script versions</h3>
+
+      <ul className="space-y-2">
+        {[...versions].reverse().map(version => (
+          <li
+            key={version.id}
+            data-testid={`script-version-${version.number}`}
+            className={`rounded-lg border p-3 ${version.isActive ? 'border-green-700 bg-green-900/10' : 'border-neutral-700'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm text-white truncate">
+                  v{version.number} • {version.title}
+                  {version.isActive && <span className="ml-2 text-[10px] uppercase tracking-wide text-green-400">Active</span>}
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {new Date(version.createdAt).toLocaleString()} • {version.sceneCount} scenes
+                  {version.editedFrom && ` • edited from v${version.editedFrom}`}
+                  {version.settings && ` • ${version.settings.videoModel} • ${version.settings.aspectRatio}`}
+                </div>
+              </div>
+              {!version.isActive && (
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onCompare(comparedVersionId === version.id ? null : version.id)}
+                    className="px-2 py-1 text-xs rounded bg-neutral-700 text-neutral-200 hover:bg-neutral-600"
+                  >
+                    {comparedVersionId === version.id ? 'Hide changes' : 'Compare'}
+                  </button>
+                  <button
+                    onClick={() => onRestore(version.id)}
+                    disabled={disabled}
+                    className="px-2 py-1 text-xs rounded bg-neutral-700 text-neutral-200 hover:bg-neutral-600 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                </div>
+              )}
+            </div>
+            {version.prompt && (
+              <p className="mt-1 text-xs text-neutral-400 line-clamp-2" title={version.prompt}>{version.prompt}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {compared && (
+        <div className="border-t border-neutral-700 pt-3 space-y-3">
+          <h4 className="text-xs font-bold text-neutral-400 uppercase tracking-wide">
+            Changes from v{compared.number} to the active version
+          </h4>
+          {!diff ? (
+            <p className="text-xs text-neutral-500">Loading...</p>
+          ) : diff.length === 0 ? (
+            <p className="text-xs text-neutral-500">No differences</p>
+          ) : diff.map(sceneDiff => (
+            <div key={sceneDiff.sceneNumber} className="space-y-1">
+              <div className="text-xs font-medium text-neutral-300">
+                Scene {sceneDiff.sceneNumber}
+                {sceneDiff.status === 'added' && <span className="ml-2 text-green-400">added</span>}
+                {sceneDiff.status === 'removed' && <span className="ml-2 text-red-400">removed</span>}
+              </div>
+              {sceneDiff.changes.map(change => (
+                <div key={change.field} className="pl-3 text-xs">
+                  <span className="text-neutral-500">{FIELD_LABELS[change.field]}: </span>
+                  <span className="text-red-400 line-through whitespace-pre-wrap">{change.before}</span>{' '}
+                  <span className="text-green-400 whitespace-pre-wrap">{change.after}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptVersions;
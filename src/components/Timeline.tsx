@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Scene, VoiceoverSegment } from '@/types';
+import { buildSceneTimeline, getCutScenes } from '@/utils/videoCompositor';
+import { buildCaptionCues, CaptionTiming } from '@/utils/subtitles';
+import { alignVoiceoverLines, placeVoiceoverSegments } from '@/utils/voiceoverTimeline';
+
+interface TimelineProps {
+  scenes: Scene[];
+  frames: string[]; // Storyboard frames in scene order, used as thumbnails
+  videoUrls: Record<number, string>; // Generated clips by scene id
+  stillFrames?: Record<number, string>; // Storyboard frames standing in for missing clips, by scene id
+  clipDuration: number;
+  clipDurations?: Record<number, number>; // Real clip lengths by scene id, where known
+  voiceoverSegments?: VoiceoverSegment[];
+  captionTiming?: CaptionTiming;
+  hasVoiceover: boolean;
+  hasMusic: boolean;
+  // Called with every scene id in the new order
+  onReorder?: (sceneIds: number[]) => void;
+}
+
+const PX_PER_SECOND = 20;
+const RULER_STEP = 5; // seconds between ruler marks
+
+/**
+ * Move the item at `from` so it lands at `to`
+ */
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Horizontal view of the film as it will be exported: the scenes in the cut at their real
+ * (trimmed, retimed) length, with the voiceover, music and captions on their own lanes. Scenes
+ * are reordered by dragging, or with the arrow buttons on each clip, unless the narration is one
+ * continuous track that can't follow them.
+ */
+const Timeline: React.FC<TimelineProps> = ({
+  scenes,
+  frames,
+  videoUrls,
+  stillFrames,
+  clipDuration,
+  clipDurations,
+  voiceoverSegments,
+  captionTiming,
+  hasVoiceover,
+  hasMusic,
+  onReorder,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Same scenes as the export: scenes without a clip or a still are left out
+  const cutScenes = getCutScenes(scenes, videoUrls, stillFrames);
+  const { timings, totalDuration } = buildSceneTimeline(cutScenes, clipDuration, clipDurations);
+  const placements = hasVoiceover && voiceoverSegments && voiceoverSegments.length > 0
+    ? placeVoiceoverSegments(voiceoverSegments, cutScenes, timings)
+    : undefined;
+  const cues = buildCaptionCues(cutScenes, timings, placements && captionTiming
+    ? { ...captionTiming, lines: alignVoiceoverLines(captionTiming.lines, placements) }
+    : captionTiming);
+
+  const trackWidth = Math.max(totalDuration * PX_PER_SECOND, 1);
+  const toPx = (seconds: number) => seconds * PX_PER_SECOND;
+
+  const leftOut = scenes.length - cutScenes.length;
+  const frameOf = (scene: Scene) => frames[scenes.findIndex(s => s.id === scene.id)];
+
+  // Continuous narration was recorded in script order and would no longer match reordered scenes
+  const reorderBlocked = hasVoiceover && !placements;
+  const canReorder = !!onReorder && !reorderBlocked;
+
+  // Move a clip to another clip's place; scenes left out of the cut keep their place in the script
+  const moveScene = (from: number, to: number) => {
+    if (!onReorder || reorderBlocked || from === to || to < 0 || to >= cutScenes.length) return;
+    const sceneIds = scenes.map(s => s.id);
+    onReorder(moveItem(sceneIds, sceneIds.indexOf(cutScenes[from].id), sceneIds.indexOf(cutScenes[to].id)));
+  };
+
+  const lane = (label: string, children: React.ReactNode) => (
+    <div className="flex items-stretch gap-2">
+      <div className="w-20 flex-shrink-0 text-[10px] uppercase tracking-wide text-neutral-500 flex items-center">{label}</div>
+      <div className="relative h-8 bg-neutral-900/60 rounded" style={{ width: trackWidth }}>
+        {children}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-neutral-800/50 rounded-xl border border-neutral-700 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-neutral-300">Timeline</h3>
+        <span className="text-xs text-neutral-500 font-mono">{totalDuration.toFixed(1)}s</span>
+      </div>
+      {leftOut > 0 && (
+        <p className="text-xs text-neutral-500">
+          {leftOut} {leftOut === 1 ? 'scene has' : 'scenes have'} no clip yet and {leftOut === 1 ? 'is' : 'are'} left out of the cut
+        </p>
+      )}
+      {onReorder && reorderBlocked && (
+        <p className="text-xs text-yellow-500">
+          The voiceover is one continuous track in script order, so scenes can&apos;t be reordered here. Regenerate the voiceover to split it by scene.
+        </p>
+      )}
+
+      <div className="overflow-x-auto pb-2">
+        <div className="space-y-1.5 w-max">
+          {/* Ruler */}
+          {lane('', Array.from({ length: Math.floor(totalDuration / RULER_STEP) + 1 }, (_, i) => (
+            <span
+              key={i}
+              className="absolute bottom-0 text-[10px] text-neutral-500 font-mono border-l border-neutral-700 pl-1"
+              style={{ left: toPx(i * RULER_STEP) }}
+            >
+              {i * RULER_STEP}s
+            </span>
+          )))}
+
+          {/* Scenes */}
+          <div className="flex items-stretch gap-2">
+            <div className="w-20 flex-shrink-0 text-[10px] uppercase tracking-wide text-neutral-500 flex items-center">Video</div>
+            <div className="relative h-16" style={{ width: trackWidth }}>
+              {cutScenes.map((scene, index) => {
+                const timing = timings[index];
+                const frame = frameOf(scene);
+                return (
+                  <div
+                    key={scene.id}
+                    data-testid={`timeline-scene-${scene.id}`}
+                    draggable={canReorder}
+                    onDragStart={(e) => {
+                      e.dataTransfer?.setData('text/plain', String(scene.id));
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragIndex !== null) moveScene(dragIndex, index);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`absolute top-0 h-full rounded border overflow-hidden group bg-neutral-700 bg-cover bg-center ${dragIndex === index ? 'opacity-40 border-yellow-500' : 'border-neutral-500'} ${canReorder ? 'cursor-grab' : ''}`}
+                    style={{
+                      left: toPx(timing.start),
+                      width: toPx(timing.duration),
+                      backgroundImage: frame ? `url(${frame})` : undefined,
+                    }}
+                    title={scene.visualDescription}
+                  >
+                    <div className="absolute inset-x-0 bottom-0 bg-black/70 px-1 text-[10px] text-white font-mono truncate">
+                      {scene.id} • {timing.duration}s
+                    </div>
+                    {canReorder && (
+                      <div className="absolute top-0.5 right-0.5 flex gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        <button
+                          onClick={() => moveScene(index, index - 1)}
+                          disabled={index === 0}
+                          aria-label={`Move scene ${scene.id} earlier`}
+                          className="w-4 h-4 rounded bg-black/70 text-[10px] text-white disabled:opacity-30"
+                        >
+                          ‹
+                        </button>
+                        <button
+                          onClick={() => moveScene(index, index + 1)}
+                          disabled={index === cutScenes.length - 1}
+                          aria-label={`Move scene ${scene.id} later`}
+                          className="w-4 h-4 rounded bg-black/70 text-[10px] text-white disabled:opacity-30"
+                        >
+                          ›
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Voiceover: per-scene narration where it's been split by scene, otherwise one continuous track */}
+          {lane('Voiceover', placements ? placements.map(p => (
+            <div
+              key={p.sceneId}
+              className={`absolute top-1 bottom-1 rounded ${p.overflow > 0 ? 'bg-yellow-600/70' : 'bg-blue-600/60'}`}
+              style={{ left: toPx(p.start), width: toPx(p.duration / p.tempo) }}
+              title={p.overflow > 0 ? `Runs ${p.overflow.toFixed(1)}s past its scene` : undefined}
+            />
+          )) : hasVoiceover ? (
+            <div className="absolute inset-y-1 left-0 right-0 rounded bg-blue-600/60 px-2 text-[10px] text-white flex items-center">Continuous narration</div>
+          ) : (
+            <span className="absolute inset-0 px-2 text-[10px] text-neutral-600 flex items-center">No voiceover</span>
+          ))}
+
+          {/* Music runs under the whole film */}
+          {lane('Music', hasMusic ? (
+            <div className="absolute inset-y-1 left-0 right-0 rounded bg-purple-600/50" />
+          ) : (
+            <span className="absolute inset-0 px-2 text-[10px] text-neutral-600 flex items-center">No music</span>
+          ))}
+
+          {lane('Captions', cues.map((cue, i) => (
+            <div
+              key={i}
+              className="absolute top-1 bottom-1 rounded bg-neutral-500/60 px-1 text-[9px] text-white truncate"
+              style={{ left: toPx(cue.start), width: toPx(cue.end - cue.start) }}
+              title={cue.text}
+            >
+              {cue.text}
+            </div>
+          )))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -152,7 +152,7 @@ export default function VideoStudio() {
 
     setState(prev => ({ ...prev, isGeneratingScript: true }));
     try {
-      const script = await generateScript(
+      const { script } = await generateScript(
         prompt,
         refVideo,
         flatImages,
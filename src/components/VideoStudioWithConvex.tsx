@@ -5,15 +5,25 @@ import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { Id, Doc } from '../../convex/_generated/dataModel';
 import InputForm from '@/components/InputForm';
+import ScriptEditor, { SceneTextChanges } from '@/components/ScriptEditor';
+import ScriptVersions from '@/components/ScriptVersions';
 import Production from '@/components/Production';
+import Animatic from '@/components/Animatic';
 import ProjectLayout, { ProjectStep } from '@/components/project/ProjectLayout';
 import InputStep from '@/components/project/steps/InputStep';
 import StoryboardStep from '@/components/project/steps/StoryboardStep';
-import { generateScript, generateStoryboard, generateStoryboard2, generateMasterAudio, generateVideoForScene, setApiKey, getApiKey, buildStoryboardPrompt, buildStoryboard2Prompt } from '@/services/geminiService';
+import { generateScript, regenerateScene, generateStoryboard, generateStoryboard2, generateMasterAudioWithTimings, generateVideoForScene, setApiKey, getApiKey, buildStoryboardPrompt, buildStoryboard2Prompt } from '@/services/geminiService';
 import { sliceGridImage, sliceGrid3x2Image } from '@/utils/imageUtils';
-import { useTaskPolling, useStartVideoTask, useStartMusicTask } from '@/hooks/useTaskPolling';
-import { AspectRatio, VideoModel, SeedanceResolution, SeedanceDuration, SeedanceSceneCount, Script, VoiceMode, Character, DialogueLine, ReferenceImages, Scene, ContentLanguage } from '@/types';
+import { useTaskPolling, useStartVideoTask, useStartMusicTask, useStartRenderTask } from '@/hooks/useTaskPolling';
+import { AspectRatio, VideoModel, SeedanceResolution, SeedanceDuration, SeedanceSceneCount, Script, VoiceMode, Character, ReferenceImages, Scene, ContentLanguage, SceneTransition, ClipEdit, VoiceoverLine, VoiceoverSegment, ProjectOverlays, BrandKit, ScriptSettings, ScriptVersion } from '@/types';
 import { useToast } from '@/components/ui/Toast';
+import type { WorkerExportOptions } from '@/utils/exportWorkerClient';
+import { parseOverlays } from '@/utils/overlays';
+import { resolveBrandKit } from '@/utils/brandKit';
+import { probeVideoDuration } from '@/utils/videoDuration';
+import { lintScript } from '@/utils/scriptLint';
+import { toScene } from '@/utils/sceneDoc';
+import { ScriptViolation } from '@/utils/scriptValidation';
 
 /**
  * Build the full prompt for Seedance video generation
@@ -119,14 +129,25 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
   const [isGeneratingMusic, setIsGeneratingMusic] = useState(false);
   const [isGeneratingFullMovie, setIsGeneratingFullMovie] = useState(false);
   const [generatingVideoIds, setGeneratingVideoIds] = useState<number[]>([]);
+  const [regeneratingSceneId, setRegeneratingSceneId] = useState<number | null>(null);
+  // What the model left wrong in the last generated script, for the user to fix before the storyboard
+  const [scriptViolations, setScriptViolations] = useState<ScriptViolation[]>([]);
 
   // Convex queries
   const script = useQuery(api.scenes.getScript, { projectId });
   const scenes = useQuery(api.scenes.getScenesByProject, { projectId });
+  const scriptVersions = useQuery(api.scenes.getScriptVersions, { projectId });
+  const [comparedScriptId, setComparedScriptId] = useState<string | null>(null);
+  const comparedSceneDocs = useQuery(
+    api.scenes.getScenesByScript,
+    comparedScriptId ? { scriptId: comparedScriptId as Id<'scripts'> } : 'skip'
+  );
   const storyboards = useQuery(api.storyboards.getByProject, { projectId });
   const frames = useQuery(api.frames.getByProject, { projectId });
   const videos = useQuery(api.videos.getByProject, { projectId });
   const audioTracks = useQuery(api.audioTracks.getByProject, { projectId });
+  const renders = useQuery(api.renders.getByProject, { projectId });
+  const brandKitDoc = useQuery(api.brandKits.get);
 
   // Convex mutations
   const createScript = useMutation(api.scenes.createScript);
@@ -137,13 +158,27 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
   const updateProject = useMutation(api.projects.update);
   const createAudioTrack = useMutation(api.audioTracks.create);
   const createVideo = useMutation(api.videos.create);
+  const updateSceneTransition = useMutation(api.scenes.updateTransition);
+  const updateSceneClipEdit = useMutation(api.scenes.updateClipEdit);
+  const reorderScenes = useMutation(api.scenes.reorder);
+  const updateSceneText = useMutation(api.scenes.update);
+  const insertScene = useMutation(api.scenes.insert);
+  const removeScene = useMutation(api.scenes.remove);
+  const splitScene = useMutation(api.scenes.split);
+  const mergeScene = useMutation(api.scenes.merge);
+  const restoreScript = useMutation(api.scenes.restoreScript);
+  const saveBrandKit = useMutation(api.brandKits.save);
 
   // Task polling hooks - get pending tasks to track async generation status
-  const { pendingTasks } = useTaskPolling(projectId);
+  const { pendingTasks } = useTaskPolling(projectId, project.seedanceDuration ?? 4);
 
   // Check if music is currently generating (async task pending)
   const hasPendingMusicTask = pendingTasks.some(t => t.taskType === 'music_suno');
 
+  // The render service writes its progress to the task as it goes
+  const serverRenderTask = pendingTasks.find(t => t.taskType === 'video_render');
+  const isServerRendering = !!serverRenderTask;
+
   // Get scene IDs that have pending video tasks (for Seedance)
   const pendingVideoSceneIds = pendingTasks
     .filter(t => t.taskType === 'video_seedance' && t.sceneId)
@@ -194,6 +229,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
   const { startSeedanceVideo } = useStartVideoTask(projectId);
   const { startMusic } = useStartMusicTask(projectId);
+  const { startRender } = useStartRenderTask(projectId);
 
   // Ref images for storyboard generation
   const refImagesRef = useRef<ReferenceImages | undefined>(undefined);
@@ -212,15 +248,17 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
   // Derived state
   const step: ProjectStep = project.status === 'draft' || project.status === 'scripting' ? 'input'
              : project.status === 'storyboarding' ? 'storyboard'
+             : project.status === 'animatic' ? 'animatic'
              : 'production';
 
   // Step change handler for sidebar navigation
   const handleStepChange = useCallback(async (newStep: ProjectStep) => {
     if (newStep === step) return;
 
-    const statusMap: Record<ProjectStep, string> = {
+    const statusMap: Record<ProjectStep, Doc<'projects'>['status']> = {
       'input': 'draft',
       'storyboard': 'storyboarding',
+      'animatic': 'animatic',
       'production': 'production',
     };
 
@@ -229,22 +267,32 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
   const storyboard1 = storyboards?.find(s => s.gridType === '3x3');
   const storyboard2 = storyboards?.find(s => s.gridType === '3x2');
+  // Storyboards from before script versions have no scriptId; they belong to the only version there is
+  const hasStoryboardForScript = !!storyboard1 && (storyboard1.scriptId
+    ? storyboard1.scriptId === script?._id
+    : (scriptVersions?.length ?? 0) <= 1);
 
   // Convert videos to the expected format
   const generatedVideos: Record<number, string> = {};
+  const clipDurations: Record<number, number> = {};
   if (videos && scenes) {
     for (const video of videos) {
       if (video.status === 'completed' && video.videoUrl) {
         const scene = scenes.find(s => s._id === video.sceneId);
         if (scene) {
           generatedVideos[scene.sceneNumber] = video.videoUrl;
+          // Older clips store the length that was asked for, not the real one
+          if (video.durationMeasured) clipDurations[scene.sceneNumber] = video.duration;
         }
       }
     }
   }
 
   // Get audio URLs
-  const masterAudioUrl = audioTracks?.find(a => a.type === 'voiceover')?.audioUrl || null;
+  const voiceoverTrack = audioTracks?.find(a => a.type === 'voiceover');
+  const masterAudioUrl = voiceoverTrack?.audioUrl || null;
+  const voiceoverLines = voiceoverTrack?.lineTimings ? JSON.parse(voiceoverTrack.lineTimings) as VoiceoverLine[] : undefined;
+  const voiceoverSegments = voiceoverTrack?.segments ? JSON.parse(voiceoverTrack.segments) as VoiceoverSegment[] : undefined;
   const backgroundMusicUrl = audioTracks?.find(a => a.type === 'music')?.audioUrl || null;
 
   // Build Script object from Convex data
@@ -253,19 +301,31 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
     style: script.style,
     narratorVoice: script.narratorVoice as Script['narratorVoice'],
     characters: script.characters ? JSON.parse(script.characters) as Character[] : undefined,
-    scenes: scenes.map(s => ({
-      id: s.sceneNumber,
-      timeRange: s.timeRange,
-      visualDescription: s.visualDescription,
-      audioDescription: s.audioDescription,
-      cameraShot: s.cameraShot,
-      voiceoverText: s.voiceoverText,
-      dialogue: s.dialogue ? JSON.parse(s.dialogue) as DialogueLine[] : undefined,
-    })),
+    scenes: scenes.map(toScene),
   } : localScriptRef.current;
 
-  // Frame data URLs array
-  const frameUrls: string[] = frames?.map(f => f.imageUrl) || [];
+  // Earlier script versions, and the scenes of the one being compared with the active script
+  const versions: ScriptVersion[] = (scriptVersions ?? []).map(version => ({
+    id: version._id,
+    number: version.number,
+    editedFrom: version.editedFromNumber,
+    title: version.title,
+    style: version.style,
+    prompt: version.prompt,
+    settings: version.settings ? JSON.parse(version.settings) as ScriptSettings : undefined,
+    sceneCount: version.sceneCount,
+    createdAt: version.createdAt,
+    isActive: version.isActive,
+  }));
+  const comparedScenes = comparedSceneDocs?.map(toScene);
+
+  // Problems to review before the storyboard is drawn
+  const scriptWarnings = fullScript ? lintScript(fullScript, project.videoModel as VideoModel) : [];
+
+  // Frame URLs in scene order (frames keep their storyboard numbering when scenes are reordered)
+  const frameUrls: string[] = scenes && frames
+    ? scenes.map(s => frames.find(f => f.sceneId === s._id)?.imageUrl ?? '')
+    : [];
 
   const handleManualKeySubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -278,6 +338,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
   const handleInitialGenerate = async (prompt: string, refVideo?: string, refImages?: ReferenceImages) => {
     refImagesRef.current = refImages;
     setIsGeneratingScript(true);
+    setScriptViolations([]);
 
     // Flatten for functions that don't support categorized refs yet
     const flatImages = flattenRefImages(refImages);
@@ -315,7 +376,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
       await updateProjectStatus({ projectId, status: 'scripting' });
 
-      const generatedScript = await generateScript(
+      const { script: generatedScript, violations } = await generateScript(
         prompt,
         refVideo,
         flatImages,
@@ -349,21 +410,38 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       };
       console.log('[createScript] Saving script with', scriptData.scenes.length, 'scenes');
       await createScript(scriptData);
+      setScriptViolations(violations);
 
+      // Stop here so the script and its lint warnings can be reviewed before paying for a storyboard
+      setIsGeneratingScript(false);
+    } catch (error) {
+      console.error(error);
+      showError("Generation failed. See console for details.");
       setIsGeneratingScript(false);
-      setIsGeneratingStoryboard1(true);
+      await updateProjectStatus({ projectId, status: 'draft' });
+    }
+  };
+
+  // Draw the storyboard grid(s) for the reviewed (and possibly edited) active script
+  const handleGenerateStoryboards = async () => {
+    if (!fullScript || !script) return;
+    setIsGeneratingStoryboard1(true);
+
+    const flatImages = flattenRefImages(refImagesRef.current);
 
+    try {
       await updateProjectStatus({ projectId, status: 'storyboarding' });
 
       // Generate first storyboard (3x3 grid)
       // Pass totalScenes so the model knows if this is part of a longer story
       const totalScenes = project.videoModel === 'seedance-1.5' ? (project.seedanceSceneCount ?? 9) : 9;
-      const { imageDataUrl: storyboardBase64, seed: storyboardSeed } = await generateStoryboard(generatedScript, flatImages, project.aspectRatio as AspectRatio, totalScenes);
+      const { imageDataUrl: storyboardBase64, seed: storyboardSeed } = await generateStoryboard(fullScript, flatImages, project.aspectRatio as AspectRatio, totalScenes);
       // Upload to R2 to avoid Convex 1MB limit
       const storyboardUrl = await uploadImageToR2(storyboardBase64);
 
-      const storyboard1Id = await createStoryboard({
+      await createStoryboard({
         projectId,
+        scriptId: script._id,
         gridType: '3x3',
         imageUrl: storyboardUrl,
         seed: storyboardSeed,
@@ -377,7 +455,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
         // Generate second storyboard for Seedance (use full first grid as style reference)
         const storyboardBase64_2 = await generateStoryboard2(
-          generatedScript,
+          fullScript,
           storyboardBase64,  // Pass full first grid image as style reference
           flatImages,
           project.aspectRatio as AspectRatio,
@@ -388,6 +466,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
         await createStoryboard({
           projectId,
+          scriptId: script._id,
           gridType: '3x2',
           imageUrl: storyboardUrl2,
         });
@@ -395,11 +474,10 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       }
     } catch (error) {
       console.error(error);
-      showError("Generation failed. See console for details.");
-      setIsGeneratingScript(false);
+      showError("Storyboard generation failed. See console for details.");
       setIsGeneratingStoryboard1(false);
       setIsGeneratingStoryboard2(false);
-      await updateProjectStatus({ projectId, status: 'draft' });
+      await updateProjectStatus({ projectId, status: 'scripting' });
     }
   };
 
@@ -477,8 +555,8 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       // Check if frames already exist (user might be returning from production)
       const expectedFrameCount = project.videoModel === 'seedance-1.5' && project.seedanceSceneCount === 15 ? 15 : 9;
       if (frames && frames.length >= expectedFrameCount) {
-        // Frames already exist, just go to production without re-processing
-        await updateProjectStatus({ projectId, status: 'production' });
+        // Frames already exist, just go to the animatic without re-processing
+        await updateProjectStatus({ projectId, status: 'animatic' });
         setIsConfirming(false);
         return;
       }
@@ -536,7 +614,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
         })),
       });
 
-      await updateProjectStatus({ projectId, status: 'production' });
+      await updateProjectStatus({ projectId, status: 'animatic' });
     } catch (error) {
       console.error("Failed to process storyboard:", error);
       showError("Could not process storyboard grid.");
@@ -552,7 +630,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
     if (sceneIndex === -1) return;
 
     const convexScene = scenes[sceneIndex];
-    const frame = frames[sceneIndex];
+    const frame = frames.find(f => f.sceneId === convexScene?._id);
     if (!convexScene || !frame) return;
 
     const sceneData = fullScript.scenes[sceneIndex];
@@ -578,11 +656,13 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
         const r2Url = await uploadVideoToR2(blobUrl, sceneId);
 
         // Save video record in Convex
+        const duration = await probeVideoDuration(r2Url);
         await createVideo({
           projectId,
           sceneId: convexScene._id,
           videoUrl: r2Url,
-          duration: 8, // Veo generates 8-second clips
+          duration: duration ?? 8, // Veo generates ~8-second clips
+          durationMeasured: duration !== null,
           status: 'completed',
         });
       } else {
@@ -614,6 +694,182 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
     }
   }, [fullScript, scenes, frames, startSeedanceVideo, project, projectId, createVideo]);
 
+  const handleRenderOnServer = async (options: WorkerExportOptions) => {
+    try {
+      await startRender(options);
+    } catch (error) {
+      console.error(error);
+      showError(error instanceof Error ? error.message : 'Failed to start server render');
+    }
+  };
+
+  const handleSaveBrandKit = async (brandKit: BrandKit) => {
+    await saveBrandKit(resolveBrandKit(brandKit));
+  };
+
+  const handleUpdateOverlays = async (overlays: ProjectOverlays) => {
+    try {
+      await updateProject({ projectId, overlays: JSON.stringify(overlays) });
+    } catch (error) {
+      console.error(error);
+      showError('Failed to save overlays');
+    }
+  };
+
+  const handleUpdateTransition = async (sceneId: number, transition: SceneTransition) => {
+    const convexScene = scenes?.find(s => s.sceneNumber === sceneId);
+    if (!convexScene) return;
+
+    try {
+      await updateSceneTransition({
+        sceneId: convexScene._id,
+        transitionType: transition.type,
+        transitionDuration: transition.duration,
+      });
+    } catch (error) {
+      console.error(error);
+      showError(`Failed to update transition for scene ${sceneId}`);
+    }
+  };
+
+  const handleUpdateClipEdit = async (sceneId: number, clipEdit: ClipEdit) => {
+    const convexScene = scenes?.find(s => s.sceneNumber === sceneId);
+    if (!convexScene) return;
+
+    try {
+      await updateSceneClipEdit({
+        sceneId: convexScene._id,
+        trimIn: clipEdit.trimIn,
+        trimOut: clipEdit.trimOut,
+        speed: clipEdit.speed,
+      });
+    } catch (error) {
+      console.error(error);
+      showError(`Failed to update trim for scene ${sceneId}`);
+    }
+  };
+
+  const handleReorderScenes = async (order: number[]) => {
+    if (!scenes) return;
+    const sceneIds = order.map(sceneId => scenes.find(s => s.sceneNumber === sceneId)?._id);
+    if (sceneIds.some(id => !id)) return;
+
+    try {
+      await reorderScenes({ projectId, sceneIds: sceneIds as Id<'scenes'>[] });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to reorder scenes");
+    }
+  };
+
+  // Script editor: scenes arrive by number and are resolved to their Convex ids
+  const getSceneDocId = (sceneId: number) => scenes?.find(s => s.sceneNumber === sceneId)?._id;
+
+  const handleUpdateSceneText = async (sceneId: number, changes: SceneTextChanges) => {
+    const id = getSceneDocId(sceneId);
+    if (!id) return;
+
+    const { dialogue, ...text } = changes;
+    try {
+      await updateSceneText({
+        sceneId: id,
+        ...text,
+        ...(dialogue ? { dialogue: JSON.stringify(dialogue) } : {}),
+      });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to save scene");
+    }
+  };
+
+  const handleRegenerateScene = async (sceneId: number, instruction: string) => {
+    // Resolve the stored scene first so edits elsewhere while the AI runs can't redirect the save
+    const id = getSceneDocId(sceneId);
+    const sceneIndex = fullScript?.scenes.findIndex(s => s.id === sceneId) ?? -1;
+    if (!fullScript || !id || sceneIndex === -1) return;
+
+    setRegeneratingSceneId(sceneId);
+    try {
+      const scene = await regenerateScene(
+        fullScript,
+        sceneIndex,
+        instruction,
+        project.enableCuts,
+        project.videoModel as VideoModel,
+        (project.voiceMode ?? 'tts') as VoiceMode,
+        project.language ?? 'english'
+      );
+      await updateSceneText({
+        sceneId: id,
+        visualDescription: scene.visualDescription,
+        audioDescription: scene.audioDescription ?? '',
+        cameraShot: scene.cameraShot ?? '',
+        voiceoverText: scene.voiceoverText,
+        ...(scene.dialogue ? { dialogue: JSON.stringify(scene.dialogue) } : {}),
+      });
+    } catch (error) {
+      console.error(error);
+      showError(`Failed to rewrite scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRegeneratingSceneId(null);
+    }
+  };
+
+  const handleInsertScene = async (position: number) => {
+    try {
+      await insertScene({ projectId, position });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to add scene");
+    }
+  };
+
+  const handleDeleteScene = async (sceneId: number) => {
+    const id = getSceneDocId(sceneId);
+    if (!id) return;
+
+    try {
+      await removeScene({ sceneId: id });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to delete scene");
+    }
+  };
+
+  const handleSplitScene = async (sceneId: number, splitAt: number) => {
+    const id = getSceneDocId(sceneId);
+    if (!id) return;
+
+    try {
+      await splitScene({ sceneId: id, splitAt });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to split scene");
+    }
+  };
+
+  const handleMergeScene = async (sceneId: number) => {
+    const id = getSceneDocId(sceneId);
+    if (!id) return;
+
+    try {
+      await mergeScene({ sceneId: id });
+    } catch (error) {
+      console.error(error);
+      showError("Failed to merge scenes");
+    }
+  };
+
+  const handleRestoreScript = async (scriptId: string) => {
+    try {
+      await restoreScript({ scriptId: scriptId as Id<'scripts'> });
+      setComparedScriptId(null);
+    } catch (error) {
+      console.error(error);
+      showError("Failed to restore script version");
+    }
+  };
+
   const handleGenerateAudio = async () => {
     if (!fullScript) return;
 
@@ -625,7 +881,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
 
     setIsGeneratingAudio(true);
     try {
-      const audioDataUrl = await generateMasterAudio(fullScript, project.multiCharacter ?? false);
+      const { audioUrl: audioDataUrl, lines, segments } = await generateMasterAudioWithTimings(fullScript, project.multiCharacter ?? false);
 
       // Upload to R2 for persistent storage (blob URLs expire)
       let finalAudioUrl = audioDataUrl;
@@ -649,6 +905,8 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
         projectId,
         type: 'voiceover',
         audioUrl: finalAudioUrl,
+        lineTimings: JSON.stringify(lines),
+        segments: JSON.stringify(segments),
       });
       setIsGeneratingAudio(false);
     } catch (error) {
@@ -682,7 +940,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       if (!masterAudioUrl && project.voiceMode !== 'speech_in_video') {
         setIsGeneratingAudio(true);
         try {
-          const audioDataUrl = await generateMasterAudio(fullScript, project.multiCharacter ?? false);
+          const { audioUrl: audioDataUrl, lines, segments } = await generateMasterAudioWithTimings(fullScript, project.multiCharacter ?? false);
 
           // Upload to R2 for persistent storage (blob URLs expire)
           let finalAudioUrl = audioDataUrl;
@@ -706,6 +964,8 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
             projectId,
             type: 'voiceover',
             audioUrl: finalAudioUrl,
+            lineTimings: JSON.stringify(lines),
+            segments: JSON.stringify(segments),
           });
         } catch (err) {
           console.error("Audio gen failed", err);
@@ -730,7 +990,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       for (const scene of scenesToGenerate) {
         const sceneIndex = fullScript.scenes.findIndex(s => s.id === scene.id);
         const convexScene = scenes[sceneIndex];
-        const frame = frames[sceneIndex];
+        const frame = frames.find(f => f.sceneId === convexScene?._id);
 
         if (convexScene && frame) {
           try {
@@ -753,11 +1013,13 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
               const r2Url = await uploadVideoToR2(blobUrl, scene.id);
 
               // Save video record in Convex
+              const duration = await probeVideoDuration(r2Url);
               await createVideo({
                 projectId,
                 sceneId: convexScene._id,
                 videoUrl: r2Url,
-                duration: 8, // Veo generates 8-second clips
+                duration: duration ?? 8, // Veo generates ~8-second clips
+                durationMeasured: duration !== null,
                 status: 'completed',
               });
             } else {
@@ -847,6 +1109,7 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
       hasScript={hasScript}
       hasStoryboard={hasStoryboard}
       hasFrames={hasFrames}
+      hasVoiceover={!!masterAudioUrl}
       hasAllVideos={hasAllVideos}
       isGeneratingScript={isGeneratingScript}
       isGeneratingStoryboard={isGeneratingStoryboard1 || isGeneratingStoryboard2}
@@ -885,6 +1148,55 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
             backgroundMusicEnabled={project.backgroundMusicEnabled ?? true}
             onBackgroundMusicEnabledChange={(v) => updateProject({ projectId, backgroundMusicEnabled: v })}
           />
+          {fullScript && scenes && scenes.length > 0 && (
+            <ScriptEditor
+              script={fullScript}
+              onUpdateScene={handleUpdateSceneText}
+              onInsertScene={handleInsertScene}
+              onDeleteScene={handleDeleteScene}
+              onSplitScene={handleSplitScene}
+              onMergeScene={handleMergeScene}
+              onRegenerateScene={handleRegenerateScene}
+              regeneratingSceneId={regeneratingSceneId}
+              warnings={scriptWarnings}
+              disabled={isGeneratingStoryboard1 || isGeneratingStoryboard2}
+            />
+          )}
+          {fullScript && scenes && scenes.length > 0 && scriptViolations.length > 0 && !hasStoryboardForScript && (
+            <div className="max-w-2xl mx-auto mt-4 p-3 rounded-lg border border-red-900/50 bg-red-950/20 text-xs text-red-400">
+              <p className="font-bold mb-1">The script still has problems the model couldn&apos;t fix. Edit the scenes before drawing the storyboard:</p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {scriptViolations.map(v => <li key={v.path + v.message}>{v.path}: {v.message}</li>)}
+              </ul>
+            </div>
+          )}
+          {fullScript && scenes && scenes.length > 0 && (
+            <div className="max-w-2xl mx-auto mt-4 flex items-center justify-end gap-3">
+              {scriptWarnings.length > 0 && !hasStoryboardForScript && (
+                <span className="text-xs text-yellow-500">
+                  {scriptWarnings.length} {scriptWarnings.length === 1 ? 'warning' : 'warnings'} to review before drawing the storyboard
+                </span>
+              )}
+              <button
+                onClick={hasStoryboardForScript ? () => handleStepChange('storyboard') : handleGenerateStoryboards}
+                disabled={isGeneratingStoryboard1 || isGeneratingStoryboard2 || regeneratingSceneId !== null}
+                className="px-4 py-2 rounded-lg bg-white text-black text-sm font-bold hover:bg-neutral-200 disabled:opacity-50"
+              >
+                {hasStoryboardForScript ? 'Continue to storyboard' : 'Generate storyboard'}
+              </button>
+            </div>
+          )}
+          {fullScript && versions.length > 1 && (
+            <ScriptVersions
+              versions={versions}
+              activeScenes={fullScript.scenes}
+              comparedVersionId={comparedScriptId}
+              comparedScenes={comparedScenes}
+              onCompare={setComparedScriptId}
+              onRestore={handleRestoreScript}
+              disabled={isGeneratingScript || isGeneratingStoryboard1 || isGeneratingStoryboard2}
+            />
+          )}
         </InputStep>
       )}
 
@@ -913,20 +1225,56 @@ export default function VideoStudioWithConvex({ projectId, project }: VideoStudi
         />
       )}
 
-      {/* Step 3: Production */}
+      {/* Step 3: Animatic - storyboard frames with voiceover and music, before any clips are generated */}
+      {step === 'animatic' && fullScript && (
+        <Animatic
+          script={fullScript}
+          frames={frameUrls}
+          masterAudioUrl={masterAudioUrl}
+          voiceoverSegments={voiceoverSegments}
+          backgroundMusicUrl={backgroundMusicUrl}
+          isGeneratingAudio={isGeneratingAudio}
+          isGeneratingMusic={isGeneratingMusic || hasPendingMusicTask}
+          onGenerateAudio={handleGenerateAudio}
+          onGenerateMusic={project.backgroundMusicEnabled !== false ? handleGenerateMusic : undefined}
+          onBackToStoryboard={() => handleStepChange('storyboard')}
+          onContinue={() => handleStepChange('production')}
+          aspectRatio={project.aspectRatio as AspectRatio}
+          videoModel={project.videoModel as VideoModel}
+          voiceMode={(project.voiceMode ?? 'tts') as VoiceMode}
+          seedanceDuration={(project.seedanceDuration ?? 4) as SeedanceDuration}
+          language={(project.language ?? 'english') as ContentLanguage}
+        />
+      )}
+
+      {/* Step 4: Production */}
       {step === 'production' && fullScript && (
         <Production
           script={fullScript}
           frames={frameUrls}
           generatedVideos={generatedVideos}
+          clipDurations={clipDurations}
           generatingVideoIds={[...generatingVideoIds, ...pendingVideoSceneIds]}
           masterAudioUrl={masterAudioUrl}
+          voiceoverLines={voiceoverLines}
+          voiceoverSegments={voiceoverSegments}
           backgroundMusicUrl={backgroundMusicUrl}
           isGeneratingAudio={isGeneratingAudio}
           isGeneratingMusic={isGeneratingMusic || hasPendingMusicTask}
           isGeneratingFullMovie={isGeneratingFullMovie}
           onGenerateVideo={handleGenerateVideo}
           onGenerateFullMovie={handleGenerateFullMovie}
+          onUpdateTransition={handleUpdateTransition}
+          onUpdateClipEdit={handleUpdateClipEdit}
+          onReorderScenes={handleReorderScenes}
+          overlays={parseOverlays(project.overlays)}
+          onUpdateOverlays={handleUpdateOverlays}
+          brandKit={brandKitDoc ? resolveBrandKit(brandKitDoc) : undefined}
+          onSaveBrandKit={handleSaveBrandKit}
+          onRenderOnServer={handleRenderOnServer}
+          isServerRendering={isServerRendering}
+          serverRenderStatus={serverRenderTask?.progressMessage}
+          latestRenderUrl={renders?.[0]?.videoUrl}
           onBackToStoryboard={() => handleStepChange('storyboard')}
           aspectRatio={project.aspectRatio as AspectRatio}
           videoModel={project.videoModel as VideoModel}
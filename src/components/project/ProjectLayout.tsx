@@ -6,7 +6,7 @@ import StepTransition from './ui/StepTransition';
 import { Step } from './StepIndicator';
 import { AspectRatio, VideoModel, VoiceMode, Script } from '@/types';
 
-export type ProjectStep = 'input' | 'storyboard' | 'production';
+export type ProjectStep = 'input' | 'storyboard' | 'animatic' | 'production';
 
 interface ProjectLayoutProps {
   children: React.ReactNode;
@@ -24,6 +24,7 @@ interface ProjectLayoutProps {
   hasScript: boolean;
   hasStoryboard: boolean;
   hasFrames: boolean;
+  hasVoiceover: boolean;
   hasAllVideos: boolean;
   // Loading states
   isGeneratingScript: boolean;
@@ -42,6 +43,7 @@ export default function ProjectLayout({
   hasScript,
   hasStoryboard,
   hasFrames,
+  hasVoiceover,
   hasAllVideos,
   isGeneratingScript,
   isGeneratingStoryboard,
@@ -63,6 +65,12 @@ export default function ProjectLayout({
       return 'pending';
     };
 
+    // Optional preview: reachable as soon as there are frames to play
+    const getAnimaticStatus = (): Step['status'] => {
+      if (currentStep === 'animatic') return 'current';
+      return hasFrames ? 'completed' : 'locked';
+    };
+
     const getProductionStatus = (): Step['status'] => {
       if (currentStep === 'production') return 'current';
       if (hasAllVideos) return 'completed';
@@ -85,6 +93,12 @@ export default function ProjectLayout({
         status: getStoryboardStatus(),
         isLoading: isGeneratingStoryboard,
       },
+      {
+        id: 'animatic',
+        label: 'Animatic',
+        description: hasVoiceover ? 'Preview with voiceover' : 'Preview before video',
+        status: getAnimaticStatus(),
+      },
       {
         id: 'production',
         label: 'Production',
@@ -92,7 +106,7 @@ export default function ProjectLayout({
         status: getProductionStatus(),
       },
     ];
-  }, [currentStep, hasScript, hasStoryboard, hasFrames, hasAllVideos, isGeneratingScript, isGeneratingStoryboard]);
+  }, [currentStep, hasScript, hasStoryboard, hasFrames, hasVoiceover, hasAllVideos, isGeneratingScript, isGeneratingStoryboard]);
 
   const handleStepClick = (stepId: string) => {
     const step = steps.find(s => s.id === stepId);
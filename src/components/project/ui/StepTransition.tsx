@@ -14,7 +14,7 @@ export default function StepTransition({ children, stepKey }: StepTransitionProp
   const previousStepRef = useRef(stepKey);
   const contentRef = useRef<HTMLDivElement>(null);
 
-  const stepOrder = ['input', 'storyboard', 'production'];
+  const stepOrder = ['input', 'storyboard', 'animatic', 'production'];
 
   useEffect(() => {
     if (stepKey !== previousStepRef.current) {
@@ -4,6 +4,8 @@ import { useEffect, useRef, useCallback } from 'react';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
+import type { WorkerExportOptions } from '@/utils/exportWorkerClient';
+import { probeVideoDuration } from '@/utils/videoDuration';
 
 const POLL_INTERVAL = 5000; // 5 seconds
 
@@ -16,7 +18,7 @@ interface TaskStatusResponse {
   taskId?: string;
 }
 
-type TaskType = 'video_seedance' | 'video_veo' | 'music_suno' | 'audio_tts';
+type TaskType = 'video_seedance' | 'video_veo' | 'music_suno' | 'audio_tts' | 'video_render';
 
 function getStatusEndpoint(taskType: TaskType): string {
   switch (taskType) {
@@ -29,7 +31,8 @@ function getStatusEndpoint(taskType: TaskType): string {
   }
 }
 
-export function useTaskPolling(projectId: Id<'projects'> | undefined) {
+// seedanceDuration is the clip length asked of Seedance, stored when a clip's real length can't be read
+export function useTaskPolling(projectId: Id<'projects'> | undefined, seedanceDuration: number) {
   const pendingTasks = useQuery(
     api.tasks.getPendingTasks,
     projectId ? { projectId } : 'skip'
@@ -76,11 +79,14 @@ export function useTaskPolling(projectId: Id<'projects'> | undefined) {
         // Create the appropriate record
         if (taskType === 'video_seedance' || taskType === 'video_veo') {
           if (result.videoUrl && projectId && sceneId) {
+            // Providers return clips a little off the requested length (and report it loosely), so read it from the clip
+            const duration = await probeVideoDuration(result.videoUrl);
             await createVideo({
               projectId,
               sceneId,
               videoUrl: result.videoUrl,
-              duration: 4, // Default 4 seconds for Seedance
+              duration: duration ?? seedanceDuration,
+              durationMeasured: duration !== null,
               status: 'completed',
             });
           }
@@ -128,7 +134,7 @@ export function useTaskPolling(projectId: Id<'projects'> | undefined) {
     } finally {
       isPollingRef.current.delete(externalTaskId);
     }
-  }, [projectId, updateTaskStatus, createVideo, createAudioTrack]);
+  }, [projectId, seedanceDuration, updateTaskStatus, createVideo, createAudioTrack]);
 
   useEffect(() => {
     if (!pendingTasks || pendingTasks.length === 0 || !projectId) {
@@ -137,6 +143,8 @@ export function useTaskPolling(projectId: Id<'projects'> | undefined) {
 
     // Start polling for each pending task that isn't already being polled
     for (const task of pendingTasks) {
+      // Renders report their own progress to Convex from the render service
+      if (task.taskType === 'video_render') continue;
       if (!pollingRef.current.has(task.externalTaskId)) {
         // Poll immediately
         pollTask(
@@ -266,3 +274,29 @@ export function useStartMusicTask(projectId: Id<'projects'> | undefined) {
 
   return { startMusic };
 }
+
+// Hook to start a server-side render of the final movie
+export function useStartRenderTask(projectId: Id<'projects'> | undefined) {
+  const startRender = useCallback(async (options: WorkerExportOptions) => {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    // Queue the render; the render service (native FFmpeg) records its progress and result in Convex
+    const response = await fetch('/api/render', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId, options }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to start render');
+    }
+
+    const { taskId } = await response.json();
+    return taskId;
+  }, [projectId]);
+
+  return { startRender };
+}
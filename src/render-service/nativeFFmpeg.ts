@@ -0,0 +1,62 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtemp, readFile, rm, unlink, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { FFmpegEngine } from '@/utils/videoCompositor';
+
+export interface NativeFFmpeg extends FFmpegEngine {
+  readFile(name: string): Promise<Uint8Array>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Native FFmpeg behind the same interface as ffmpeg.wasm, so composeAndExportVideo can run
+ * unchanged on the server. Files live in a private temp directory until dispose().
+ */
+export const createNativeFFmpeg = async (binary: string = process.env.FFMPEG_PATH || 'ffmpeg'): Promise<NativeFFmpeg> => {
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'render-'));
+  const logListeners: ((event: { message: string }) => void)[] = [];
+  const running = new Set<ChildProcess>();
+
+  // The compositor only uses flat file names; basename keeps them inside the work directory
+  const resolve = (name: string) => path.join(workDir, path.basename(name));
+
+  return {
+    exec: (args) => new Promise<number>((resolveExit, reject) => {
+      const child = spawn(binary, ['-nostdin', '-y', ...args], { cwd: workDir });
+      running.add(child);
+
+      // Like ffmpeg.wasm, every stderr line is a log message
+      let pending = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        const lines = (pending + chunk.toString()).split(/\r?\n|\r/);
+        pending = lines.pop() ?? '';
+        lines.forEach(message => logListeners.forEach(listener => listener({ message })));
+      });
+
+      child.on('error', (error) => {
+        running.delete(child);
+        reject(error);
+      });
+      child.on('close', (code, signal) => {
+        running.delete(child);
+        if (pending) logListeners.forEach(listener => listener({ message: pending }));
+        if (signal) {
+          reject(new Error(`FFmpeg was terminated (${signal})`));
+        } else {
+          resolveExit(code ?? 1);
+        }
+      });
+    }),
+    writeFile: (name, data) => writeFile(resolve(name), data),
+    readFile: async (name) => new Uint8Array(await readFile(resolve(name))),
+    deleteFile: (name) => unlink(resolve(name)),
+    on: (_event, callback) => {
+      logListeners.push(callback);
+    },
+    terminate: () => {
+      running.forEach(child => child.kill('SIGKILL'));
+    },
+    dispose: () => rm(workDir, { recursive: true, force: true }),
+  };
+};
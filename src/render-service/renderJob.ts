@@ -0,0 +1,147 @@
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+import { Scene } from '@/types';
+import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { EXPORT_MIME_TYPES, EXPORT_PRESETS } from '@/utils/exportPresets';
+import type { WorkerExportOptions } from '@/utils/exportWorkerClient';
+import { isAllowedMediaUrl } from '@/utils/mediaHosts';
+import { toScene } from '@/utils/sceneDoc';
+import { uploadToR2 } from '@/utils/r2';
+import { createNativeFFmpeg, NativeFFmpeg } from './nativeFFmpeg';
+
+export interface RenderServiceConfig {
+  convex: ConvexHttpClient;
+  secret: string; // RENDER_SERVICE_SECRET, shared with Convex and the /api/render route
+  appUrl: string; // The web app, for the same-origin proxy paths the compositor asks for
+}
+
+// A render taken from the queue by renders.claim
+export interface RenderClaim {
+  taskId: Id<'generationTasks'>;
+  projectId: Id<'projects'>;
+  options: string; // WorkerExportOptions (JSON)
+}
+
+export interface RenderInputs {
+  scenes: Scene[];
+  videoUrls: Record<number, string>;
+  masterAudioUrl: string | null;
+  backgroundMusicUrl: string | null;
+}
+
+// Keep the claim alive while a long FFmpeg step reports nothing
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Progress messages come many times a second; Convex only needs the latest every so often
+const PROGRESS_THROTTLE_MS = 5 * 1000;
+
+const PROXY_VIDEO_PATH = '/api/proxy-video';
+
+/**
+ * The same media the Production view exports, keyed by scene number
+ */
+export function toRenderInputs({ scenes, videos, audioTracks }: {
+  scenes: Doc<'scenes'>[];
+  videos: Doc<'videos'>[];
+  audioTracks: Doc<'audioTracks'>[];
+}): RenderInputs {
+  const videoUrls: Record<number, string> = {};
+  for (const video of videos) {
+    const scene = scenes.find(s => s._id === video.sceneId);
+    if (scene && video.status === 'completed' && video.videoUrl) {
+      videoUrls[scene.sceneNumber] = video.videoUrl;
+    }
+  }
+
+  return {
+    scenes: scenes.map(toScene),
+    videoUrls,
+    masterAudioUrl: audioTracks.find(a => a.type === 'voiceover')?.audioUrl || null,
+    backgroundMusicUrl: audioTracks.find(a => a.type === 'music')?.audioUrl || null,
+  };
+}
+
+const assertAllowedMedia = (url: string) => {
+  if (!isAllowedMediaUrl(url)) throw new Error(`Media host not allowed: ${url}`);
+};
+
+/**
+ * fetchFile for the compositor on the server. Media URLs come from Convex, where users can
+ * write them, so absolute URLs must be on an allowed media host. proxy-video targets are
+ * checked the same way and fetched directly; other same-origin paths (fonts) go to the app,
+ * whose proxy routes check their own.
+ */
+export const createMediaFetcher = (appUrl: string) => async (url: string): Promise<Uint8Array> => {
+  let target: URL;
+  if (url.startsWith('/')) {
+    target = new URL(url, appUrl);
+    // "//host/path" is protocol-relative, not a path on the app
+    if (target.origin !== new URL(appUrl).origin) throw new Error(`Media host not allowed: ${url}`);
+    if (target.pathname === PROXY_VIDEO_PATH) {
+      const source = target.searchParams.get('url') ?? '';
+      assertAllowedMedia(source);
+      target = new URL(source);
+    }
+  } else {
+    assertAllowedMedia(url);
+    target = new URL(url);
+  }
+
+  // An allowed host must not be able to bounce the request somewhere else
+  const response = await fetch(target, { redirect: 'error' });
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Render a claimed task with native FFmpeg, upload it to R2 and record it in Convex.
+ * Never throws: a failed render is written to its task.
+ */
+export async function runRender({ convex, secret, appUrl }: RenderServiceConfig, { taskId, options: optionsJson }: RenderClaim) {
+  let lastMessage = 'Starting render...';
+  let lastReportedAt = 0;
+  const report = (message: string) => {
+    lastMessage = message;
+    lastReportedAt = Date.now();
+    convex.mutation(api.renders.reportProgress, { secret, taskId, message }).catch((error) => {
+      console.error(`[Render] ${taskId} progress update failed:`, error);
+    });
+  };
+  const heartbeat = setInterval(() => report(lastMessage), HEARTBEAT_INTERVAL_MS);
+
+  let ffmpeg: NativeFFmpeg | null = null;
+  try {
+    ffmpeg = await createNativeFFmpeg();
+    const options = JSON.parse(optionsJson) as WorkerExportOptions;
+    const inputs = toRenderInputs(await convex.query(api.renders.getRenderInputs, { secret, taskId }));
+
+    const blob = await composeAndExportVideo(
+      inputs.scenes,
+      inputs.videoUrls,
+      inputs.masterAudioUrl,
+      inputs.backgroundMusicUrl,
+      (progress) => {
+        if (Date.now() - lastReportedAt >= PROGRESS_THROTTLE_MS) report(progress.message);
+        else lastMessage = progress.message;
+      },
+      options,
+      { ffmpeg, fetchFile: createMediaFetcher(appUrl) }
+    );
+
+    const preset = options.preset ?? 'standard';
+    const container = EXPORT_PRESETS[preset].container;
+    const videoUrl = await uploadToR2(`renders/${taskId}.${container}`, new Uint8Array(await blob.arrayBuffer()), EXPORT_MIME_TYPES[container]);
+
+    await convex.mutation(api.renders.complete, { secret, taskId, videoUrl, preset });
+    console.log(`[Render] ${taskId} uploaded to ${videoUrl}`);
+  } catch (error) {
+    console.error(`[Render] ${taskId} failed:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Render failed';
+    await convex.mutation(api.renders.fail, { secret, taskId, errorMessage }).catch((reportError) => {
+      console.error(`[Render] ${taskId} could not be marked failed:`, reportError);
+    });
+  } finally {
+    clearInterval(heartbeat);
+    await ffmpeg?.dispose();
+  }
+}
@@ -0,0 +1,70 @@
+import http from 'http';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../../convex/_generated/api';
+import { runRender, RenderServiceConfig } from './renderJob';
+
+/**
+ * Render service: a small Node process that runs server-side renders with native FFmpeg.
+ * It can't live in the web app, which deploys to Cloudflare Pages (edge only); see
+ * docs/render-service.md. Renders are queued in Convex, so any instance can take one and
+ * a render survives the request that started it.
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+// Pick up renders whose wake-up call was missed, and ones abandoned by a dead instance
+const SWEEP_INTERVAL_MS = 30 * 1000;
+
+const secret = process.env.RENDER_SERVICE_SECRET;
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+const appUrl = process.env.APP_URL;
+if (!secret || !convexUrl || !appUrl) {
+  console.error('[RenderService] RENDER_SERVICE_SECRET, NEXT_PUBLIC_CONVEX_URL and APP_URL must be set');
+  process.exit(1);
+}
+
+const config: RenderServiceConfig = { convex: new ConvexHttpClient(convexUrl), secret, appUrl };
+
+// Renders run one at a time per instance - each native encode already uses every core
+let draining = false;
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    for (;;) {
+      const claim = await config.convex.mutation(api.renders.claim, { secret: config.secret });
+      if (!claim) break;
+      console.log(`[RenderService] Rendering ${claim.taskId} for project ${claim.projectId}`);
+      await runRender(config, claim);
+    }
+  } catch (error) {
+    console.error('[RenderService] Failed to claim a render:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+const server = http.createServer((request, response) => {
+  if (request.method === 'GET' && request.url === '/health') {
+    response.writeHead(200).end('ok');
+    return;
+  }
+
+  // Wake-up call from /api/render after it queues a render
+  if (request.method === 'POST' && request.url === '/renders') {
+    if (request.headers.authorization !== `Bearer ${config.secret}`) {
+      response.writeHead(401).end();
+      return;
+    }
+    void drain();
+    response.writeHead(202).end();
+    return;
+  }
+
+  response.writeHead(404).end();
+});
+
+server.listen(PORT, () => {
+  console.log(`[RenderService] Listening on :${PORT}`);
+  void drain();
+  setInterval(() => void drain(), SWEEP_INTERVAL_MS);
+});
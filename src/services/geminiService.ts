@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type, Modality, HarmCategory, HarmBlockThreshold, SafetySetting } from "@google/genai";
-import { Scene, Script, AspectRatio, VideoModel, SeedanceResolution, VoiceMode, Character, DialogueLine, GeminiVoice, GEMINI_VOICES } from "@/types";
+import { Scene, Script, AspectRatio, VideoModel, SeedanceResolution, VoiceMode, Character, DialogueLine, GeminiVoice, GEMINI_VOICES, VoiceoverLine, VoiceoverSegment } from "@/types";
+import { getWordsPerScene } from "@/utils/scriptLint";
+import { expectedTimeRange, formatViolations, normalizeScript, ScriptViolation, validateScript } from "@/utils/scriptValidation";
 
 declare global {
   interface Window {
@@ -85,117 +87,57 @@ const handleApiError = (error: unknown, context: string): never => {
   throw new Error(`${context} failed with unknown error`);
 };
 
-export const generateScript = async (
-  prompt: string,
-  referenceVideoBase64?: string,
-  referenceImagesBase64?: string[],
-  enableCuts: boolean = true,
-  videoModel: VideoModel = 'veo-3.1',
-  seedanceSceneCount: 9 | 15 = 15,
-  multiCharacter: boolean = false,
-  voiceMode: VoiceMode = 'tts',
-  characterNames: string[] = [],
-  language: string = 'english'
-): Promise<Script> => {
-  const ai = getClient();
-  const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
-
-  if (referenceVideoBase64) {
-    parts.push({
-      inlineData: {
-        mimeType: "video/mp4",
-        data: referenceVideoBase64,
-      },
-    });
-    parts.push({ text: "Analyze this video to extract its style, pacing, and content structure." });
-  }
-
-  if (referenceImagesBase64 && referenceImagesBase64.length > 0) {
-    for (let i = 0; i < referenceImagesBase64.length; i++) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: referenceImagesBase64[i],
-        },
-      });
-    }
-    const imageCount = referenceImagesBase64.length;
-    parts.push({
-      text: imageCount === 1
-        ? "Use this image as a key visual reference for the art style and characters."
-        : `Use these ${imageCount} images as visual references for the art style, characters, and scene elements. Maintain consistency with these references throughout all scenes.`
-    });
-  }
-
-  // Seedance mode: configurable scenes (9 or 15) × 4 seconds
-  // Veo mode: 9 scenes × 8 seconds = 72 seconds
-  const isSeedance = videoModel === 'seedance-1.5';
-  const sceneCount = isSeedance ? seedanceSceneCount : 9;
-  const sceneDuration = isSeedance ? 4 : 8;
-  const wordsPerScene = isSeedance ? 10 : 22; // ~10 words for 4s, ~22 words for 8s
-
-  // Build time ranges
-  const timeRanges = Array.from({ length: sceneCount }, (_, i) => {
-    const start = i * sceneDuration;
-    const end = start + sceneDuration;
-    const formatTime = (s: number) => {
-      const mins = Math.floor(s / 60);
-      const secs = s % 60;
-      return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    };
-    return `"${formatTime(start)} - ${formatTime(end)}"`;
-  });
-
-  // Build system instruction conditionally based on enableCuts and videoModel
-  // CRITICAL: The start frame constraint - cuts can only show what's in the base description
-  const startFrameConstraint = `
-    CRITICAL START FRAME CONSTRAINT:
-    The BASE description (text BEFORE any [cut] tags) becomes the storyboard image/start frame.
-    The video generator ONLY knows what is visible in this starting image.
-
-    RULE: [cut] tags can ONLY show things that are PRESENT in the base description.
-    - If a character's FACE is NOT visible in the base description, you CANNOT cut to that character's face
-    - If showing a hand on a doorknob (no face), you CANNOT [cut] to the character's face - it would be a random stranger
-    - To show a character's face in a cut, their face MUST be visible in the base description
-
-    SAFE cuts when character face is NOT in base description:
-    - Insert shots of objects/items being interacted with
-    - Close-ups of hands performing actions
-    - Environment/scenery shots
-    - Detail shots of props in the scene
-
-    WRONG: "A hand reaches for the doorknob [cut] close up of John's determined face" (John's face not in start frame!)
-    CORRECT: "John stands at the door, his hand on the doorknob [cut] close up of John's determined face" (face visible)
-    CORRECT: "A hand reaches for the doorknob [cut] insert shot of the brass doorknob turning" (no face needed)
-  `;
-
-  // Seedance 1.5 Pro specific instructions based on the official prompt guide
-  const seedanceCameraVocabulary = `
-    SEEDANCE CAMERA MOVEMENT VOCABULARY (use these exact terms):
-    - dolly-in / dolly-out: Camera physically moves toward/away from subject
-    - pan left / pan right / pan up / pan down: Camera rotates on its axis
-    - track / follow: Camera follows a moving subject
-    - surround / orbit: Camera circles around the subject
-    - rise / fall: Camera moves vertically
-    - zoom-in / zoom-out: Lens focal length changes
-    - Hitchcock zoom: dolly-out + zoom-in (or reverse) for dramatic effect
-    - static shot: Camera remains fixed
-
-    SEEDANCE SHOT SIZES:
-    - wide shot / full shot: Shows full environment
-    - medium shot: Subject from waist up
-    - close-up: Face or detail
-    - extreme close-up / big close-up: Very tight on feature
-    - over-the-shoulder: Camera behind one character looking at another
-
-    SEEDANCE CAMERA ANGLES:
-    - eye-level: Camera at subject's eye height
-    - high angle: Camera looks down at subject
-    - low angle: Camera looks up at subject
-    - bird's eye view: Directly overhead
-    - Dutch angle: Camera tilted for tension
-  `;
-
+// CRITICAL: The start frame constraint - cuts can only show what's in the base description
+const START_FRAME_CONSTRAINT = `
+  CRITICAL START FRAME CONSTRAINT:
+  The BASE description (text BEFORE any [cut] tags) becomes the storyboard image/start frame.
+  The video generator ONLY knows what is visible in this starting image.
+
+  RULE: [cut] tags can ONLY show things that are PRESENT in the base description.
+  - If a character's FACE is NOT visible in the base description, you CANNOT cut to that character's face
+  - If showing a hand on a doorknob (no face), you CANNOT [cut] to the character's face - it would be a random stranger
+  - To show a character's face in a cut, their face MUST be visible in the base description
+
+  SAFE cuts when character face is NOT in base description:
+  - Insert shots of objects/items being interacted with
+  - Close-ups of hands performing actions
+  - Environment/scenery shots
+  - Detail shots of props in the scene
+
+  WRONG: "A hand reaches for the doorknob [cut] close up of John's determined face" (John's face not in start frame!)
+  CORRECT: "John stands at the door, his hand on the doorknob [cut] close up of John's determined face" (face visible)
+  CORRECT: "A hand reaches for the doorknob [cut] insert shot of the brass doorknob turning" (no face needed)
+`;
+
+// Seedance 1.5 Pro specific instructions based on the official prompt guide
+const SEEDANCE_CAMERA_VOCABULARY = `
+  SEEDANCE CAMERA MOVEMENT VOCABULARY (use these exact terms):
+  - dolly-in / dolly-out: Camera physically moves toward/away from subject
+  - pan left / pan right / pan up / pan down: Camera rotates on its axis
+  - track / follow: Camera follows a moving subject
+  - surround / orbit: Camera circles around the subject
+  - rise / fall: Camera moves vertically
+  - zoom-in / zoom-out: Lens focal length changes
+  - Hitchcock zoom: dolly-out + zoom-in (or reverse) for dramatic effect
+  - static shot: Camera remains fixed
+
+  SEEDANCE SHOT SIZES:
+  - wide shot / full shot: Shows full environment
+  - medium shot: Subject from waist up
+  - close-up: Face or detail
+  - extreme close-up / big close-up: Very tight on feature
+  - over-the-shoulder: Camera behind one character looking at another
+
+  SEEDANCE CAMERA ANGLES:
+  - eye-level: Camera at subject's eye height
+  - high angle: Camera looks down at subject
+  - low angle: Camera looks up at subject
+  - bird's eye view: Directly overhead
+  - Dutch angle: Camera tilted for tension
+`;
+
+// Shot structure rules for the model and whether cuts are on
+const buildCutsInstructions = (isSeedance: boolean, enableCuts: boolean): string => {
   let cutsInstructions: string;
   if (isSeedance) {
     // Seedance 1.5 Pro: Follow official prompt guide structure
@@ -208,8 +150,8 @@ export const generateScript = async (
     "Shot 1: Medium shot. A woman in a red dress stands by the window, soft light on her face. The camera performs a slow dolly-in.
     Shot 2: Cut to close-up of her eyes, showing subtle emotion as she turns toward camera."
 
-    ${seedanceCameraVocabulary}
-    ${startFrameConstraint}
+    ${SEEDANCE_CAMERA_VOCABULARY}
+    ${START_FRAME_CONSTRAINT}
     ` : `
     SEEDANCE 1.5 SINGLE-SHOT FORMAT (4-SECOND CLIPS):
     Each scene is ONE continuous shot with smooth camera movement.
@@ -220,7 +162,7 @@ export const generateScript = async (
     Soft morning light filters through cherry blossom trees. The camera performs a slow lateral track, following her movement.
     Dreamy, ethereal atmosphere with bokeh highlights."
 
-    ${seedanceCameraVocabulary}
+    ${SEEDANCE_CAMERA_VOCABULARY}
     `;
   } else {
     // Veo: 8 second clips, can have 2-3 cuts
@@ -228,7 +170,7 @@ export const generateScript = async (
     MULTI-SHOT SCENES WITH CUTS:
     Each scene's visualDescription MUST include 2-3 camera cuts using the [cut] tag to create dynamic, professional videos.
     Start with a base shot description, then add [cut] tags for different angles.
-    ${startFrameConstraint}
+    ${START_FRAME_CONSTRAINT}
 
     Camera cut formulas to use (ONLY use face cuts if face is in base description!):
     - [cut] close up shot of [character] - shows emotion (ONLY if their face is in base description!)
@@ -252,17 +194,198 @@ export const generateScript = async (
     Describe camera movements like "camera slowly pans right", "camera dollies forward", etc.
     `;
   }
+  return cutsInstructions;
+};
+
+// IMPORTANT: The FIRST sentence of visualDescription is used for storyboard panel generation.
+// It must describe ONE clear moment/action without camera instructions.
+// Camera movements, cuts, and shot types come AFTER the first sentence for video generation.
+const buildVisualDescriptionHint = (isSeedance: boolean, enableCuts: boolean): string => isSeedance
+  ? (enableCuts
+      ? '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then use "Shot 1:" and "Shot 2:" format for camera movements. The first sentence becomes the storyboard panel image.'
+      : '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then add camera movement details. The first sentence becomes the storyboard panel image.')
+  : (enableCuts
+      ? '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms, no shot types). Then add [cut] tags for camera angle changes. The first sentence becomes the storyboard panel image.'
+      : '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then add camera movement details. The first sentence becomes the storyboard panel image.');
+
+// Build language instruction - dialogue in selected language, visual descriptions always in English
+const buildLanguageInstruction = (language: string): string => {
+  const languageUpper = language.toUpperCase();
+  return language === 'english'
+    ? 'LANGUAGE REQUIREMENT: All content MUST be in ENGLISH only. Any text, signs, dialogue, or written content described in scenes must be in English - never Chinese or other languages.'
+    : `LANGUAGE REQUIREMENT:
+    - All dialogue, voiceoverText, and spoken content MUST be in ${languageUpper}.
+    - The visualDescription and audioDescription fields must remain in ENGLISH (for the AI video generator to understand).
+    - Any on-screen text, signs, or written content shown in scenes should be in ${languageUpper}.
+    - Character names can stay in their original form.`;
+};
+
+// Strip markdown code fences if present (```json ... ``` or ``` ... ```)
+const stripCodeFences = (rawText: string): string => {
+  let text = rawText.trim();
+  if (text.startsWith('```')) {
+    // Remove opening fence (```json or ```)
+    const firstNewline = text.indexOf('\n');
+    if (firstNewline !== -1) {
+      text = text.substring(firstNewline + 1);
+    }
+    // Remove closing fence
+    if (text.endsWith('```')) {
+      text = text.substring(0, text.length - 3).trim();
+    }
+  }
+  return text;
+};
+
+// Extract the script from the model's JSON, which arrives in a few different shapes
+const parseScriptJson = (text: string): Script => {
+  let parsed = JSON.parse(text);
+
+  // Handle array responses from Gemini
+  if (Array.isArray(parsed) && parsed.length > 0) {
+    // Check if array contains scene objects directly (has id, visualDescription)
+    if (parsed[0].id !== undefined && parsed[0].visualDescription) {
+      console.log("[Script generation] Response is array of scenes, reconstructing script object");
+      // Extract narratorVoice from first scene if present
+      const narratorVoice = parsed[0].narratorVoice || 'Zephyr';
+      // Clean scenes - remove narratorVoice from individual scenes
+      const scenes = parsed.map((scene: Record<string, unknown>) => {
+        const { narratorVoice: _, ...rest } = scene;
+        return rest;
+      });
+      parsed = {
+        title: 'Generated Script',
+        style: 'cinematic',
+        narratorVoice,
+        scenes,
+      };
+    } else {
+      // Array contains a script object, extract first element
+      console.log("[Script generation] Response was wrapped in array, extracting first element");
+      parsed = parsed[0];
+    }
+  }
+
+  // Validate and extract script structure (handle various response formats)
+  let script: Script;
+  if (parsed.scenes && Array.isArray(parsed.scenes)) {
+    // Direct format: {title, scenes, ...}
+    script = parsed as Script;
+  } else if (parsed.script && parsed.script.scenes) {
+    // Wrapped format: {script: {title, scenes, ...}}
+    script = parsed.script as Script;
+  } else if (parsed.response && parsed.response.scenes) {
+    // Another wrapped format: {response: {title, scenes, ...}}
+    script = parsed.response as Script;
+  } else {
+    console.error("[Script generation] Unexpected JSON structure:", JSON.stringify(parsed).substring(0, 500));
+    throw new Error("Script JSON missing 'scenes' array");
+  }
+
+  // Validate scenes array
+  if (!script.scenes || script.scenes.length === 0) {
+    throw new Error("Script has no scenes");
+  }
+
+  console.log(`[Script generation] Successfully parsed ${script.scenes.length} scenes`);
+  return script;
+};
+
+// How many times generateScript asks the model to fix a script that fails validation
+const MAX_SCRIPT_REPAIR_ATTEMPTS = 2;
+
+// Ask the model to fix the listed problems in a script, leaving everything else as it is
+const repairScript = async (
+  ai: GoogleGenAI,
+  script: Script,
+  violations: ScriptViolation[],
+  systemInstruction: string
+): Promise<Script> => {
+  const response = await withTimeout(
+    ai.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: {
+        parts: [{
+          text: `This production script has problems:\n${formatViolations(violations)}\n\n` +
+            `Fix ONLY these problems and return the complete corrected script as JSON. Keep every other field exactly as it is.\n\n` +
+            JSON.stringify(script),
+        }],
+      },
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        safetySettings,
+      },
+    }),
+    60000,
+    "Script repair"
+  );
+
+  const rawText = response.text;
+  if (!rawText) throw new Error("No repaired script generated");
+  return parseScriptJson(stripCodeFences(rawText));
+};
+
+export interface GeneratedScript {
+  script: Script;
+  // Problems the repair attempts couldn't fix; empty when the script is valid
+  violations: ScriptViolation[];
+}
+
+export const generateScript = async (
+  prompt: string,
+  referenceVideoBase64?: string,
+  referenceImagesBase64?: string[],
+  enableCuts: boolean = true,
+  videoModel: VideoModel = 'veo-3.1',
+  seedanceSceneCount: 9 | 15 = 15,
+  multiCharacter: boolean = false,
+  voiceMode: VoiceMode = 'tts',
+  characterNames: string[] = [],
+  language: string = 'english'
+): Promise<GeneratedScript> => {
+  const ai = getClient();
+  const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
+
+  if (referenceVideoBase64) {
+    parts.push({
+      inlineData: {
+        mimeType: "video/mp4",
+        data: referenceVideoBase64,
+      },
+    });
+    parts.push({ text: "Analyze this video to extract its style, pacing, and content structure." });
+  }
+
+  if (referenceImagesBase64 && referenceImagesBase64.length > 0) {
+    for (let i = 0; i < referenceImagesBase64.length; i++) {
+      parts.push({
+        inlineData: {
+          mimeType: "image/jpeg",
+          data: referenceImagesBase64[i],
+        },
+      });
+    }
+    const imageCount = referenceImagesBase64.length;
+    parts.push({
+      text: imageCount === 1
+        ? "Use this image as a key visual reference for the art style and characters."
+        : `Use these ${imageCount} images as visual references for the art style, characters, and scene elements. Maintain consistency with these references throughout all scenes.`
+    });
+  }
+
+  // Seedance mode: configurable scenes (9 or 15) × 4 seconds
+  // Veo mode: 9 scenes × 8 seconds = 72 seconds
+  const isSeedance = videoModel === 'seedance-1.5';
+  const sceneCount = isSeedance ? seedanceSceneCount : 9;
+  const sceneDuration = isSeedance ? 4 : 8;
+  const wordsPerScene = getWordsPerScene(videoModel); // ~10 words for 4s, ~22 words for 8s
+
+  // Build time ranges
+  const timeRanges = Array.from({ length: sceneCount }, (_, i) => `"${expectedTimeRange(i, sceneDuration)}"`);
 
-  // IMPORTANT: The FIRST sentence of visualDescription is used for storyboard panel generation.
-  // It must describe ONE clear moment/action without camera instructions.
-  // Camera movements, cuts, and shot types come AFTER the first sentence for video generation.
-  const visualDescriptionHint = isSeedance
-    ? (enableCuts
-        ? '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then use "Shot 1:" and "Shot 2:" format for camera movements. The first sentence becomes the storyboard panel image.'
-        : '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then add camera movement details. The first sentence becomes the storyboard panel image.')
-    : (enableCuts
-        ? '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms, no shot types). Then add [cut] tags for camera angle changes. The first sentence becomes the storyboard panel image.'
-        : '- visualDescription: FIRST SENTENCE must describe ONE clear moment/action (no camera terms). Then add camera movement details. The first sentence becomes the storyboard panel image.');
+  const cutsInstructions = buildCutsInstructions(isSeedance, enableCuts);
+  const visualDescriptionHint = buildVisualDescriptionHint(isSeedance, enableCuts);
 
   // Voice mode instructions
   const allVoices = [...GEMINI_VOICES.female, ...GEMINI_VOICES.male];
@@ -349,15 +472,7 @@ export const generateScript = async (
     - Scene ${sceneCount} is the ONLY scene that should wrap up the story.
   `;
 
-  // Build language instruction - dialogue in selected language, visual descriptions always in English
-  const languageUpper = language.toUpperCase();
-  const languageInstruction = language === 'english'
-    ? 'LANGUAGE REQUIREMENT: All content MUST be in ENGLISH only. Any text, signs, dialogue, or written content described in scenes must be in English - never Chinese or other languages.'
-    : `LANGUAGE REQUIREMENT:
-    - All dialogue, voiceoverText, and spoken content MUST be in ${languageUpper}.
-    - The visualDescription and audioDescription fields must remain in ENGLISH (for the AI video generator to understand).
-    - Any on-screen text, signs, or written content shown in scenes should be in ${languageUpper}.
-    - Character names can stay in their original form.`;
+  const languageInstruction = buildLanguageInstruction(language);
 
   const systemInstruction = `
     You are an expert film director and scriptwriter.
@@ -492,85 +607,165 @@ export const generateScript = async (
     const rawText = response.text;
     if (!rawText) throw new Error("No script generated");
 
-    // Strip markdown code fences if present (```json ... ``` or ``` ... ```)
-    let text = rawText.trim();
-    if (text.startsWith('```')) {
-      // Remove opening fence (```json or ```)
-      const firstNewline = text.indexOf('\n');
-      if (firstNewline !== -1) {
-        text = text.substring(firstNewline + 1);
-      }
-      // Remove closing fence
-      if (text.endsWith('```')) {
-        text = text.substring(0, text.length - 3).trim();
-      }
-    }
+    const text = stripCodeFences(rawText);
 
     console.log(`[Script generation] Response length: ${rawText.length}, cleaned: ${text.length}`);
 
+    let script: Script;
     try {
-      let parsed = JSON.parse(text);
-
-      // Handle array responses from Gemini
-      if (Array.isArray(parsed) && parsed.length > 0) {
-        // Check if array contains scene objects directly (has id, visualDescription)
-        if (parsed[0].id !== undefined && parsed[0].visualDescription) {
-          console.log("[Script generation] Response is array of scenes, reconstructing script object");
-          // Extract narratorVoice from first scene if present
-          const narratorVoice = parsed[0].narratorVoice || 'Zephyr';
-          // Clean scenes - remove narratorVoice from individual scenes
-          const scenes = parsed.map((scene: Record<string, unknown>) => {
-            const { narratorVoice: _, ...rest } = scene;
-            return rest;
-          });
-          parsed = {
-            title: 'Generated Script',
-            style: 'cinematic',
-            narratorVoice,
-            scenes,
-          };
-        } else {
-          // Array contains a script object, extract first element
-          console.log("[Script generation] Response was wrapped in array, extracting first element");
-          parsed = parsed[0];
-        }
-      }
-
-      // Validate and extract script structure (handle various response formats)
-      let script: Script;
-      if (parsed.scenes && Array.isArray(parsed.scenes)) {
-        // Direct format: {title, scenes, ...}
-        script = parsed as Script;
-      } else if (parsed.script && parsed.script.scenes) {
-        // Wrapped format: {script: {title, scenes, ...}}
-        script = parsed.script as Script;
-      } else if (parsed.response && parsed.response.scenes) {
-        // Another wrapped format: {response: {title, scenes, ...}}
-        script = parsed.response as Script;
-      } else {
-        console.error("[Script generation] Unexpected JSON structure:", JSON.stringify(parsed).substring(0, 500));
-        throw new Error("Script JSON missing 'scenes' array");
-      }
-
-      // Validate scenes array
-      if (!script.scenes || script.scenes.length === 0) {
-        throw new Error("Script has no scenes");
-      }
-
-      console.log(`[Script generation] Successfully parsed ${script.scenes.length} scenes`);
-      return script;
+      script = parseScriptJson(text);
     } catch (parseError) {
       console.error("[Script generation] JSON parse failed. Response length:", text.length);
       console.error("[Script generation] First 500 chars:", text.substring(0, 500));
       console.error("[Script generation] Last 500 chars:", text.substring(text.length - 500));
       throw new Error(`Script generation returned invalid JSON (length: ${text.length}). The response may have been truncated. Please try again with a simpler prompt.`);
     }
+
+    // Check the script against what the app relies on, and have the model fix what's wrong
+    const expected = { sceneCount, sceneDuration, multiCharacter };
+    script = normalizeScript(script, expected);
+    let violations = validateScript(script, expected);
+    for (let attempt = 1; violations.length > 0 && attempt <= MAX_SCRIPT_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`[Script generation] Repair attempt ${attempt} for ${violations.length} problem(s):\n${formatViolations(violations)}`);
+      script = normalizeScript(await repairScript(ai, script, violations, systemInstruction), expected);
+      violations = validateScript(script, expected);
+    }
+    // The script is still usable; hand back what's left for the user to fix in the editor
+    if (violations.length > 0) {
+      console.warn(`[Script generation] Still invalid after ${MAX_SCRIPT_REPAIR_ATTEMPTS} repair attempts:\n${formatViolations(violations)}`);
+    }
+
+    return { script, violations };
   } catch (error) {
     handleApiError(error, "Script generation");
     throw error; // Unreachable - handleApiError always throws
   }
 };
 
+/**
+ * Rewrite one scene of a script following the user's instruction. The new scene follows the
+ * same rules as generateScript and stays consistent with the scenes around it, the characters
+ * and the style. It keeps the original scene's id, time range, transition and clip edit.
+ */
+export const regenerateScene = async (
+  script: Script,
+  sceneIndex: number,
+  instruction: string,
+  enableCuts: boolean = true,
+  videoModel: VideoModel = 'veo-3.1',
+  voiceMode: VoiceMode = 'tts',
+  language: string = 'english'
+): Promise<Scene> => {
+  const scene = script.scenes[sceneIndex];
+  if (!scene) throw new Error(`Scene ${sceneIndex + 1} not found`);
+
+  const ai = getClient();
+
+  // Same clip lengths and word budgets as generateScript
+  const isSeedance = videoModel === 'seedance-1.5';
+  const sceneDuration = isSeedance ? 4 : 8;
+  const wordsPerScene = getWordsPerScene(videoModel);
+  const multiCharacter = !!script.characters && script.characters.length > 0;
+  const sceneCount = script.scenes.length;
+  const isFinalScene = sceneIndex === sceneCount - 1;
+
+  const outline = script.scenes.map((s, i) => {
+    const dialogue = s.dialogue?.map(line => `${line.speaker}: "${line.text}"`).join(' ');
+    return `Scene ${i + 1}${i === sceneIndex ? ' (THE SCENE TO REWRITE)' : ''}:
+      Visual: ${s.visualDescription}
+      Camera: ${s.cameraShot ?? ''}
+      Voiceover: "${s.voiceoverText}"${dialogue ? `\n      Dialogue: ${dialogue}` : ''}`;
+  }).join('\n\n    ');
+
+  const charactersDescription = multiCharacter
+    ? `CHARACTERS (use only these speakers, plus "narrator" for narration):
+    ${script.characters!.map(c => `- ${c.name} (${c.gender}${c.voiceProfile ? `, ${c.voiceProfile}` : ''})`).join('\n    ')}`
+    : '';
+
+  const systemInstruction = `
+    You are an expert film director and scriptwriter revising ONE scene of an existing production script.
+    Rewrite Scene ${sceneIndex + 1} of ${sceneCount} following the user's instruction. Leave the story around it unchanged:
+    the rewritten scene must still follow on from the scene before it and lead into the scene after it.
+
+    STYLE: ${script.style}. Keep the visual style, characters and tone consistent with the rest of the script.
+    ${charactersDescription}
+
+    ${buildLanguageInstruction(language)}
+
+    NARRATIVE STRUCTURE:
+    ${isFinalScene
+      ? '- This is the FINAL scene. It is the only scene that wraps up the story (conclusion, logo reveal, call-to-action).'
+      : `- This is NOT the final scene. Do NOT put logos, brand reveals, "The End", or concluding visuals in it - only Scene ${sceneCount} ends the story.`}
+
+    TIMING: The scene is EXACTLY ${sceneDuration} seconds long. The voiceoverText must be spoken naturally within it (about ${wordsPerScene} words max).
+    ${buildCutsInstructions(isSeedance, enableCuts)}
+
+    Output strictly in JSON format: a single scene object with
+    ${buildVisualDescriptionHint(isSeedance, enableCuts)}
+    - audioDescription: SFX and atmosphere notes.
+    - cameraShot: The PRIMARY shot type (e.g. Wide Shot, Medium Shot, Close Up).
+    - voiceoverText: The exact spoken dialogue/narration for this ${sceneDuration}-second scene (${wordsPerScene} words max).
+    ${multiCharacter
+      ? (isSeedance && voiceMode === 'speech_in_video'
+          ? '- dialogue: Array of {speaker, text, emotionalState?, tone?, pace?} for who says what with vocal characteristics.'
+          : '- dialogue: Array of {speaker, text} pairs for who says what in this scene.')
+      : ''}
+  `;
+
+  const userPrompt = `
+    The script "${script.title}":
+
+    ${outline}
+
+    Rewrite Scene ${sceneIndex + 1} with this instruction: "${instruction}"
+  `;
+
+  try {
+    const response = await withTimeout(
+      ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: { parts: [{ text: userPrompt }] },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          safetySettings,
+        },
+      }),
+      60000,
+      "Scene regeneration"
+    );
+
+    const rawText = response.text;
+    if (!rawText) throw new Error("No scene generated");
+
+    let parsed = JSON.parse(stripCodeFences(rawText));
+    // Unwrap [{...}] and {scene: {...}} responses
+    if (Array.isArray(parsed)) parsed = parsed[0];
+    if (parsed?.scene && typeof parsed.scene === 'object') parsed = parsed.scene;
+
+    if (typeof parsed?.visualDescription !== 'string' || typeof parsed?.voiceoverText !== 'string') {
+      throw new Error("Response is missing the scene's visualDescription or voiceoverText");
+    }
+
+    return {
+      id: scene.id,
+      timeRange: scene.timeRange,
+      visualDescription: parsed.visualDescription,
+      audioDescription: typeof parsed.audioDescription === 'string' ? parsed.audioDescription : scene.audioDescription,
+      cameraShot: typeof parsed.cameraShot === 'string' ? parsed.cameraShot : scene.cameraShot,
+      voiceoverText: parsed.voiceoverText,
+      dialogue: multiCharacter
+        ? (Array.isArray(parsed.dialogue) ? parsed.dialogue as DialogueLine[] : scene.dialogue)
+        : undefined,
+      transition: scene.transition,
+      clipEdit: scene.clipEdit,
+    };
+  } catch (error) {
+    handleApiError(error, "Scene regeneration");
+    throw error; // Unreachable - handleApiError always throws
+  }
+};
+
 /**
  * Extract the first sentence from visualDescription for storyboard panel generation.
  * The AI is instructed to write the FIRST sentence as a clean, single-action description
@@ -1254,29 +1449,39 @@ const generateSingleVoiceAudio = async (
 };
 
 /**
- * Concatenate audio blobs using Web Audio API
+ * Concatenate audio blobs using Web Audio API.
+ * Also returns the duration of each input blob (0 for blobs that failed to decode)
+ * so callers can work out where each one lands in the combined track.
  */
-const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
-  if (blobs.length === 0) return new Blob([], { type: 'audio/wav' });
-  if (blobs.length === 1) return blobs[0];
+const concatenateAudioBlobs = async (blobs: Blob[]): Promise<{ blob: Blob; durations: number[] }> => {
+  if (blobs.length === 0) return { blob: new Blob([], { type: 'audio/wav' }), durations: [] };
 
   const audioContext = new AudioContext({ sampleRate: 24000 });
   const audioBuffers: AudioBuffer[] = [];
+  const durations: number[] = [];
 
   // Decode all audio blobs to AudioBuffers
   for (const blob of blobs) {
-    const arrayBuffer = await blob.arrayBuffer();
     try {
+      const arrayBuffer = await blob.arrayBuffer();
       const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
       audioBuffers.push(audioBuffer);
+      durations.push(audioBuffer.duration);
     } catch (e) {
       console.warn('Failed to decode audio blob, skipping:', e);
+      durations.push(0);
     }
   }
 
+  // A single blob needs no re-encoding, only its duration
+  if (blobs.length === 1) {
+    audioContext.close();
+    return { blob: blobs[0], durations };
+  }
+
   if (audioBuffers.length === 0) {
     audioContext.close();
-    return new Blob([], { type: 'audio/wav' });
+    return { blob: new Blob([], { type: 'audio/wav' }), durations };
   }
 
   // Calculate total length
@@ -1301,7 +1506,7 @@ const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
   audioContext.close();
 
   // Convert AudioBuffer to WAV blob
-  return audioBufferToWav(combinedBuffer);
+  return { blob: audioBufferToWav(combinedBuffer), durations };
 };
 
 /**
@@ -1354,71 +1559,92 @@ const audioBufferToWav = (buffer: AudioBuffer): Blob => {
   return new Blob([arrayBuffer], { type: 'audio/wav' });
 };
 
-export const generateMasterAudio = async (
+export interface MasterAudioResult {
+  audioUrl: string;
+  // Where each spoken line sits in the master track, for line-by-line captions
+  lines: VoiceoverLine[];
+  // Where each scene's narration sits in the master track, so export can place it at the scene's start
+  segments: VoiceoverSegment[];
+}
+
+export const generateMasterAudioWithTimings = async (
   script: Script,
   multiCharacter: boolean = false
-): Promise<string> => {
+): Promise<MasterAudioResult> => {
   const ai = getClient();
 
   try {
-    if (multiCharacter && script.characters && script.characters.length > 0) {
-      // Multi-character mode: generate audio for each dialogue line with appropriate voice
-      const characterVoiceMap = new Map<string, GeminiVoice>();
-
-      // Build character name -> voice mapping
-      for (const char of script.characters) {
+    // Find narrator voice (AI-selected or default to Fenrir)
+    const narratorVoice: GeminiVoice = script.narratorVoice || 'Fenrir';
+    const useCharacterVoices = multiCharacter && !!script.characters && script.characters.length > 0;
+
+    // Build character name -> voice mapping
+    const characterVoiceMap = new Map<string, GeminiVoice>();
+    if (useCharacterVoices) {
+      for (const char of script.characters!) {
         characterVoiceMap.set(char.name.toLowerCase(), char.voiceName);
       }
-
-      // Find narrator voice (use first character's voice or default to Fenrir)
-      const narratorVoice: GeminiVoice = script.narratorVoice || 'Fenrir';
       characterVoiceMap.set('narrator', narratorVoice);
+    }
 
-      // Collect all dialogue lines in order across all scenes
-      const audioBlobs: Blob[] = [];
+    // Synthesize scene by scene so every scene's narration can be placed at that scene's start.
+    // Multi-character mode voices each dialogue line separately; otherwise the narrator reads voiceoverText.
+    const audioBlobs: Blob[] = [];
+    const spokenLines: Omit<VoiceoverLine, 'start' | 'duration'>[] = [];
 
-      for (const scene of script.scenes) {
-        if (scene.dialogue && scene.dialogue.length > 0) {
-          // Generate audio for each dialogue line
-          for (const line of scene.dialogue) {
-            if (!line.text.trim()) continue;
+    for (const scene of script.scenes) {
+      if (useCharacterVoices && scene.dialogue && scene.dialogue.length > 0) {
+        for (const line of scene.dialogue) {
+          if (!line.text.trim()) continue;
 
-            const speakerLower = line.speaker.toLowerCase();
-            const voice = characterVoiceMap.get(speakerLower) || narratorVoice;
+          const voice = characterVoiceMap.get(line.speaker.toLowerCase()) || narratorVoice;
 
-            console.log(`[TTS] Generating audio for ${line.speaker} with voice ${voice}`);
-            const blob = await generateSingleVoiceAudio(ai, line.text, voice);
-            audioBlobs.push(blob);
-          }
-        } else if (scene.voiceoverText?.trim()) {
-          // Fallback to voiceoverText if no dialogue
-          const blob = await generateSingleVoiceAudio(ai, scene.voiceoverText, narratorVoice);
-          audioBlobs.push(blob);
+          console.log(`[TTS] Generating audio for ${line.speaker} with voice ${voice}`);
+          audioBlobs.push(await generateSingleVoiceAudio(ai, line.text, voice));
+          spokenLines.push({ sceneId: scene.id, speaker: line.speaker, text: line.text.trim() });
         }
+      } else if (scene.voiceoverText?.trim()) {
+        console.log(`[TTS] Generating scene ${scene.id} narration with voice: ${narratorVoice}`);
+        audioBlobs.push(await generateSingleVoiceAudio(ai, scene.voiceoverText, narratorVoice));
+        spokenLines.push({ sceneId: scene.id, speaker: 'narrator', text: scene.voiceoverText.trim() });
       }
+    }
 
-      if (audioBlobs.length === 0) return "";
+    if (audioBlobs.length === 0) return { audioUrl: "", lines: [], segments: [] };
 
-      // Concatenate all audio blobs
-      const combinedBlob = await concatenateAudioBlobs(audioBlobs);
-      return URL.createObjectURL(combinedBlob);
-    } else {
-      // Single narrator mode: use AI-selected voice or default
-      const voiceName: GeminiVoice = script.narratorVoice || 'Fenrir';
-      const fullText = script.scenes.map(s => s.voiceoverText).join(" ... ");
+    // Concatenate all audio blobs, recording where each line and scene starts as we go
+    const { blob: combinedBlob, durations } = await concatenateAudioBlobs(audioBlobs);
+    const lines: VoiceoverLine[] = [];
+    const segments: VoiceoverSegment[] = [];
+    let cursor = 0;
+    spokenLines.forEach((line, i) => {
+      if (durations[i] <= 0) return;
 
-      if (!fullText.trim()) return "";
+      lines.push({ ...line, start: cursor, duration: durations[i] });
+      const segment = segments[segments.length - 1];
+      if (segment && segment.sceneId === line.sceneId) {
+        segment.duration += durations[i];
+      } else {
+        segments.push({ sceneId: line.sceneId, offset: cursor, duration: durations[i] });
+      }
+      cursor += durations[i];
+    });
 
-      console.log(`[TTS] Generating audio with narrator voice: ${voiceName}`);
-      const blob = await generateSingleVoiceAudio(ai, fullText, voiceName);
-      return URL.createObjectURL(blob);
-    }
+    return { audioUrl: URL.createObjectURL(combinedBlob), lines, segments };
   } catch (error) {
     handleApiError(error, "Voiceover generation");
     throw error; // Unreachable - handleApiError always throws
   }
 };
 
+export const generateMasterAudio = async (
+  script: Script,
+  multiCharacter: boolean = false
+): Promise<string> => {
+  const { audioUrl } = await generateMasterAudioWithTimings(script, multiCharacter);
+  return audioUrl;
+};
+
 // Convert raw PCM data to WAV format
 function pcmToWav(pcmData: Uint8Array, sampleRate: number, numChannels: number): Blob {
   const bytesPerSample = 2; // 16-bit audio
@@ -8,6 +8,23 @@ export interface Scene {
   voiceoverText: string;
   // For multi-character mode: structured dialogue with speaker tags
   dialogue?: DialogueLine[];
+  // Transition from this scene into the next one (ignored on the last scene)
+  transition?: SceneTransition;
+  // Trim and speed applied to the generated clip
+  clipEdit?: ClipEdit;
+}
+
+export interface ClipEdit {
+  trimIn: number;   // seconds cut from the start of the clip
+  trimOut?: number; // where the clip ends, in seconds from its start (the clip's end when unset)
+  speed: number;    // playback rate, 0.5-2
+}
+
+export type TransitionType = 'none' | 'crossfade' | 'dip_to_black' | 'wipe' | 'slide';
+
+export interface SceneTransition {
+  type: TransitionType;
+  duration: number; // seconds of overlap between the two clips
 }
 
 export interface Script {
@@ -20,6 +37,32 @@ export interface Script {
   narratorVoice?: GeminiVoice;
 }
 
+// Project settings a script version was generated with
+export interface ScriptSettings {
+  aspectRatio: AspectRatio;
+  videoModel: VideoModel;
+  enableCuts: boolean;
+  seedanceSceneCount?: SeedanceSceneCount;
+  seedanceDuration?: SeedanceDuration;
+  voiceMode?: VoiceMode;
+  multiCharacter?: boolean;
+  language?: string;
+}
+
+// One saved version of a project's script
+export interface ScriptVersion {
+  id: string;
+  number: number; // 1 = the first script generated for the project
+  editedFrom?: number; // Number of the version this one was copied from to be edited
+  title: string;
+  style: string;
+  prompt?: string;
+  settings?: ScriptSettings;
+  sceneCount: number;
+  createdAt: number;
+  isActive: boolean;
+}
+
 export interface GeneratedVideo {
   sceneId: number;
   videoUrl: string;
@@ -96,6 +139,63 @@ export interface DialogueLine {
   pace?: string; // slow, normal, fast, very slow, measured, rapid
 }
 
+// Timing of one synthesized voiceover line within the master audio track
+export interface VoiceoverLine {
+  sceneId: number;
+  speaker: string; // Character name or "narrator"
+  text: string;
+  start: number; // seconds from the start of the master audio
+  duration: number; // seconds
+}
+
+// One scene's narration within the master audio track, placed at that scene's start on export
+export interface VoiceoverSegment {
+  sceneId: number;
+  offset: number; // seconds from the start of the master audio
+  duration: number; // natural (unstretched) length in seconds
+}
+
+// Opening card showing the script title, drawn over the first shot
+export interface TitleCardOverlay {
+  enabled: boolean;
+  duration: number; // seconds
+  subtitle?: string;
+}
+
+// Closing card appended after the last clip
+export interface EndCardOverlay {
+  enabled: boolean;
+  duration: number; // seconds
+  logoUrl?: string;
+  callToAction?: string;
+  url?: string;
+}
+
+// Branded overlays for the final movie, configured per project
+export interface ProjectOverlays {
+  titleCard?: TitleCardOverlay;
+  lowerThirds?: boolean; // Name tag when each character first speaks
+  endCard?: EndCardOverlay;
+}
+
+export type LogoPosition = 'top_left' | 'top_right' | 'bottom_left' | 'bottom_right';
+
+export type CaptionStyle = 'plain' | 'outline' | 'box';
+
+// A user's branding, applied to every export
+export interface BrandKit {
+  logoUrl?: string; // Watermark image
+  logoPosition: LogoPosition;
+  logoOpacity: number; // 0-1
+  fontUrl?: string; // TTF/OTF for captions and overlays (Roboto when unset)
+  fontName?: string;
+  textColor: string; // #RRGGBB
+  accentColor: string; // #RRGGBB, speaker names
+  boxColor: string; // #RRGGBB, caption box/outline, name tags and end card background
+  captionStyle: CaptionStyle;
+  safeAreaMargin: number; // Fraction of the frame height kept clear at the edges
+}
+
 // Character reference for storyboard/video generation
 export interface CharacterReference {
   name: string;
@@ -0,0 +1,31 @@
+// Font files often come through as application/octet-stream, which the upload route can't name
+const FONT_MIME_TYPES: Record<string, string> = { ttf: 'font/ttf', otf: 'font/otf' };
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Upload a logo or font to R2 and return its public URL
+ */
+export const uploadBrandAsset = async (file: File): Promise<string> => {
+  let dataUrl = await readAsDataUrl(file);
+  const fontMime = FONT_MIME_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''];
+  if (fontMime) {
+    dataUrl = dataUrl.replace(/^data:[^;]*;/, `data:${fontMime};`);
+  }
+
+  const response = await fetch('/api/upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ images: [dataUrl], folder: 'brand' }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to upload file');
+  }
+  const { urls } = await response.json();
+  return urls[0];
+};
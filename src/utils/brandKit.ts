@@ -0,0 +1,54 @@
+import { BrandKit, LogoPosition } from '@/types';
+
+// Matches the compositor's look before brand kits existed: plain white captions, no watermark
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  logoPosition: 'bottom_right',
+  logoOpacity: 0.8,
+  textColor: '#FFFFFF',
+  accentColor: '#FFFFFF',
+  boxColor: '#000000',
+  captionStyle: 'plain',
+  safeAreaMargin: 0.04,
+};
+
+export const LOGO_POSITIONS: { value: LogoPosition; label: string }[] = [
+  { value: 'top_left', label: 'Top left' },
+  { value: 'top_right', label: 'Top right' },
+  { value: 'bottom_left', label: 'Bottom left' },
+  { value: 'bottom_right', label: 'Bottom right' },
+];
+
+/**
+ * Fill in unset fields from the defaults. Only brand kit fields are copied, so a stored
+ * record (with its id and owner) can be passed straight in.
+ */
+export const resolveBrandKit = (brandKit?: Partial<BrandKit> | null): BrandKit => ({
+  logoUrl: brandKit?.logoUrl || undefined,
+  logoPosition: brandKit?.logoPosition ?? DEFAULT_BRAND_KIT.logoPosition,
+  logoOpacity: brandKit?.logoOpacity ?? DEFAULT_BRAND_KIT.logoOpacity,
+  fontUrl: brandKit?.fontUrl || undefined,
+  fontName: brandKit?.fontName || undefined,
+  textColor: brandKit?.textColor ?? DEFAULT_BRAND_KIT.textColor,
+  accentColor: brandKit?.accentColor ?? DEFAULT_BRAND_KIT.accentColor,
+  boxColor: brandKit?.boxColor ?? DEFAULT_BRAND_KIT.boxColor,
+  captionStyle: brandKit?.captionStyle ?? DEFAULT_BRAND_KIT.captionStyle,
+  safeAreaMargin: brandKit?.safeAreaMargin ?? DEFAULT_BRAND_KIT.safeAreaMargin,
+});
+
+/**
+ * Convert a #RRGGBB colour to FFmpeg's 0xRRGGBB[@alpha] syntax, falling back when it isn't a valid hex colour
+ */
+export const toFFmpegColor = (hex: string, alpha: number = 1, fallback: string = 'white'): string => {
+  const match = hex.match(/^#?([0-9a-f]{6})$/i);
+  const color = match ? `0x${match[1].toUpperCase()}` : fallback;
+  return alpha < 1 ? `${color}@${alpha}` : color;
+};
+
+/**
+ * FFmpeg overlay x/y expressions for a watermark inset from the frame edge by `margin` pixels
+ */
+export const getLogoOverlayPosition = (position: LogoPosition, margin: number): string => {
+  const x = position.endsWith('left') ? `${margin}` : `W-w-${margin}`;
+  const y = position.startsWith('top') ? `${margin}` : `H-h-${margin}`;
+  return `x=${x}:y=${y}`;
+};
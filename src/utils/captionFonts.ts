@@ -0,0 +1,91 @@
+import { ContentLanguage } from '@/types';
+
+// Writing systems that need their own caption font
+export type CaptionScript = 'latin' | 'japanese' | 'chinese' | 'korean' | 'thai' | 'arabic' | 'devanagari';
+
+// Google Fonts' Noto TTFs as published in versioned npm packages, so a font can't change under an export
+const NOTO_FONTS_NPM = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+// Roboto covers Latin; Noto fonts cover the rest. Fetched server-side by /api/proxy-font?script=...
+export const CAPTION_FONT_URLS: Record<CaptionScript, string> = {
+  latin: 'https://fonts.gstatic.com/s/roboto/v30/KFOmCnqEu92Fr1Mu4mxP.ttf',
+  japanese: `${NOTO_FONTS_NPM}/noto-sans-jp@0.4.3/400Regular/NotoSansJP_400Regular.ttf`,
+  chinese: `${NOTO_FONTS_NPM}/noto-sans-sc@0.4.3/400Regular/NotoSansSC_400Regular.ttf`,
+  korean: `${NOTO_FONTS_NPM}/noto-sans-kr@0.4.3/400Regular/NotoSansKR_400Regular.ttf`,
+  thai: `${NOTO_FONTS_NPM}/noto-sans-thai@0.4.2/400Regular/NotoSansThai_400Regular.ttf`,
+  arabic: `${NOTO_FONTS_NPM}/noto-sans-arabic@0.4.3/400Regular/NotoSansArabic_400Regular.ttf`,
+  devanagari: `${NOTO_FONTS_NPM}/noto-sans-devanagari@0.4.1/400Regular/NotoSansDevanagari_400Regular.ttf`,
+};
+
+const SCRIPT_BY_LANGUAGE: Partial<Record<ContentLanguage, CaptionScript>> = {
+  japanese: 'japanese',
+  chinese: 'chinese',
+  korean: 'korean',
+  thai: 'thai',
+  arabic: 'arabic',
+  hindi: 'devanagari',
+};
+
+export const getCaptionScript = (language?: ContentLanguage): CaptionScript => {
+  return (language && SCRIPT_BY_LANGUAGE[language]) || 'latin';
+};
+
+export const isCaptionScript = (value: string): value is CaptionScript => value in CAPTION_FONT_URLS;
+
+export const isRtlLanguage = (language?: ContentLanguage): boolean => language === 'arabic';
+
+/**
+ * Whether captions in a language can be burned in. drawtext only reorders text (fribidi) and
+ * can't form Devanagari conjuncts and vowel signs, so Hindi goes in a subtitle track instead,
+ * which the player shapes.
+ */
+export const canBurnInCaptions = (language?: ContentLanguage): boolean => getCaptionScript(language) !== 'devanagari';
+
+// Ideographs, kana, Hangul and full-width forms: roughly one em wide and breakable between any two
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\u303F\u3040-\u30FF\u3100-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7AF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+// Closing punctuation that must not start a line (kinsoku shori), so it stays on the line before
+const NO_LINE_START = /^[\u3001\u3002\uFF0C\uFF0E,.!?\uFF01\uFF1F\uFF1A\uFF1B)\uFF09\u300D\u300F\u3011\u3015\u3009\u300B\u2019\u201D\u30FC\u30FB\u2026]$/;
+
+// Average advance of a proportional (Latin, Thai, Arabic...) character, in em
+const NARROW_CHAR_WIDTH = 0.55;
+
+/**
+ * Approximate rendered width of text in em
+ */
+export const measureTextWidth = (text: string): number => {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR.test(char) ? 1 : NARROW_CHAR_WIDTH;
+  }
+  return width;
+};
+
+/**
+ * Wrap caption text into lines no wider than maxWidth em.
+ * Spaced scripts break between words; CJK breaks between characters, keeping closing punctuation
+ * on the line it closes. A single word wider than the line is left whole.
+ */
+export const wrapCaptionText = (text: string, maxWidth: number): string[] => {
+  const tokens = text.trim().match(new RegExp(`${WIDE_CHAR.source}|[^\\s${WIDE_CHAR.source.slice(1, -1)}]+|\\s+`, 'g')) ?? [];
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    if (/^\s+$/.test(token)) {
+      if (line) line += ' ';
+      continue;
+    }
+
+    const candidate = line + token;
+    if (!line || measureTextWidth(candidate.trimEnd()) <= maxWidth || NO_LINE_START.test(token)) {
+      line = candidate;
+    } else {
+      lines.push(line.trimEnd());
+      line = token;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+
+  return lines;
+};
@@ -0,0 +1,50 @@
+import { ClipEdit } from '@/types';
+
+export const CLIP_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const MIN_CLIP_SPEED = 0.5;
+export const MAX_CLIP_SPEED = 2;
+
+// Shortest stretch of a clip a trim may leave
+export const MIN_TRIMMED_LENGTH = 0.5;
+
+export const DEFAULT_CLIP_EDIT: ClipEdit = { trimIn: 0, speed: 1 };
+
+const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+export const clampSpeed = (speed: number): number => Math.min(Math.max(speed, MIN_CLIP_SPEED), MAX_CLIP_SPEED);
+
+/**
+ * Whether the edit changes the clip at all, i.e. whether it has to be re-encoded
+ */
+export const isClipEdited = (edit?: ClipEdit): edit is ClipEdit => {
+  return !!edit && (edit.trimIn > 0 || edit.trimOut !== undefined || edit.speed !== 1);
+};
+
+/**
+ * The part of the source clip kept by the edit, clamped to the clip's real length
+ */
+export const getTrimRange = (edit: ClipEdit | undefined, sourceDuration: number): { start: number; end: number } => {
+  const end = Math.min(edit?.trimOut ?? sourceDuration, sourceDuration);
+  const start = Math.min(Math.max(edit?.trimIn ?? 0, 0), Math.max(end - MIN_TRIMMED_LENGTH, 0));
+  return { start: roundTime(start), end: roundTime(end) };
+};
+
+/**
+ * Length of the clip on the timeline after trimming and retiming
+ */
+export const getEditedDuration = (sourceDuration: number, edit?: ClipEdit): number => {
+  const { start, end } = getTrimRange(edit, sourceDuration);
+  return roundTime((end - start) / clampSpeed(edit?.speed ?? 1));
+};
+
+/**
+ * FFmpeg video and audio filter chains that cut the clip to its trim range and play it at its speed
+ */
+export const buildClipEditFilters = (edit: ClipEdit, sourceDuration: number): { video: string; audio: string } => {
+  const { start, end } = getTrimRange(edit, sourceDuration);
+  const speed = clampSpeed(edit.speed);
+  return {
+    video: `trim=start=${start}:end=${end},setpts=(PTS-STARTPTS)/${speed}`,
+    audio: `atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS${speed !== 1 ? `,atempo=${speed}` : ''}`,
+  };
+};
@@ -0,0 +1,100 @@
+import { AspectRatio } from '@/types';
+
+export type ExportPresetId = 'standard' | 'hd_1080p' | 'draft_480p' | 'square' | 'portrait_4_5' | 'webm_vp9' | 'mezzanine';
+
+export type ExportContainer = 'mp4' | 'webm' | 'mov';
+
+export interface ExportPreset {
+  label: string;
+  container: ExportContainer;
+  // Output frame: scaled to this short side at the project aspect ratio, cropped to a fixed size,
+  // or null to keep the clips' own resolution
+  frame: { shortSide: number } | { width: number; height: number } | null;
+  videoArgs: string[];
+  audioArgs: string[];
+}
+
+export const EXPORT_PRESETS: Record<ExportPresetId, ExportPreset> = {
+  standard: {
+    label: '720p MP4',
+    container: 'mp4',
+    frame: null,
+    videoArgs: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23'],
+    audioArgs: ['-c:a', 'aac', '-b:a', '192k'],
+  },
+  hd_1080p: {
+    label: '1080p MP4 (upscaled)',
+    container: 'mp4',
+    frame: { shortSide: 1080 },
+    videoArgs: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '20'],
+    audioArgs: ['-c:a', 'aac', '-b:a', '192k'],
+  },
+  draft_480p: {
+    label: '480p Draft',
+    container: 'mp4',
+    frame: { shortSide: 480 },
+    videoArgs: ['-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '28'],
+    audioArgs: ['-c:a', 'aac', '-b:a', '128k'],
+  },
+  square: {
+    label: 'Square 1:1 (crop)',
+    container: 'mp4',
+    frame: { width: 1080, height: 1080 },
+    videoArgs: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23'],
+    audioArgs: ['-c:a', 'aac', '-b:a', '192k'],
+  },
+  portrait_4_5: {
+    label: 'Portrait 4:5 (crop)',
+    container: 'mp4',
+    frame: { width: 1080, height: 1350 },
+    videoArgs: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23'],
+    audioArgs: ['-c:a', 'aac', '-b:a', '192k'],
+  },
+  webm_vp9: {
+    label: 'WebM VP9',
+    container: 'webm',
+    frame: { shortSide: 720 },
+    // Constant quality mode needs the bitrate set to 0
+    videoArgs: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1'],
+    audioArgs: ['-c:a', 'libopus', '-b:a', '160k'],
+  },
+  mezzanine: {
+    label: 'Mezzanine (ProRes 422 HQ)',
+    container: 'mov',
+    frame: { shortSide: 1080 },
+    videoArgs: ['-c:v', 'prores_ks', '-profile:v', '3', '-pix_fmt', 'yuv422p10le'],
+    audioArgs: ['-c:a', 'pcm_s16le'],
+  },
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+// Soft subtitle codec each container can carry
+export const SUBTITLE_CODECS: Record<ExportContainer, string> = {
+  mp4: 'mov_text',
+  webm: 'webvtt',
+  mov: 'mov_text',
+};
+
+/**
+ * Resolve the output frame size for a preset. Returns null when the preset keeps the clips' resolution.
+ * Encoders need even dimensions, so scaled sizes are rounded to the nearest even number.
+ */
+export const getExportFrame = (
+  preset: ExportPreset,
+  aspectRatio: AspectRatio
+): { width: number; height: number; crop: boolean } | null => {
+  if (!preset.frame) return null;
+  if ('width' in preset.frame) {
+    return { width: preset.frame.width, height: preset.frame.height, crop: true };
+  }
+
+  const longSide = Math.round((preset.frame.shortSide * 16) / 9 / 2) * 2;
+  return aspectRatio === '16:9'
+    ? { width: longSide, height: preset.frame.shortSide, crop: false }
+    : { width: preset.frame.shortSide, height: longSide, crop: false };
+};
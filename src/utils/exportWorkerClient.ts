@@ -0,0 +1,100 @@
+import { Scene } from '@/types';
+import { composeAndExportVideo, ExportOptions, ExportProgress, LoudnessPreset, LoudnessResult } from '@/utils/videoCompositor';
+
+// Export options as they are posted to the worker: no signal, and loudness without its callback
+export type WorkerExportOptions = Omit<ExportOptions, 'signal' | 'loudness'> & {
+  loudness?: { preset: LoudnessPreset };
+};
+
+/**
+ * Strip what can't be posted to a worker or server: the signal, and the loudness callback
+ */
+export const toWorkerExportOptions = (options: ExportOptions): WorkerExportOptions => {
+  const { loudness, ...rest } = options;
+  delete rest.signal;
+  return { ...rest, loudness: loudness && { preset: loudness.preset } };
+};
+
+export interface ExportWorkerRequest {
+  scenes: Scene[];
+  videoUrls: Record<number, string>;
+  masterAudioUrl: string | null;
+  backgroundMusicUrl: string | null;
+  options: WorkerExportOptions;
+}
+
+export type ExportWorkerResponse =
+  | { type: 'progress'; progress: ExportProgress }
+  | { type: 'loudness'; result: LoudnessResult }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+/**
+ * Export the movie in a dedicated Web Worker so a long encode doesn't block the UI.
+ * Takes the same arguments as composeAndExportVideo; aborting the signal terminates the worker
+ * and rejects with an AbortError. Falls back to the main thread where workers aren't available.
+ */
+export const exportVideoInWorker = (
+  scenes: Scene[],
+  videoUrls: Record<number, string>,
+  masterAudioUrl: string | null,
+  backgroundMusicUrl: string | null,
+  onProgress: (progress: ExportProgress) => void,
+  options: ExportOptions = {}
+): Promise<Blob> => {
+  if (typeof Worker === 'undefined') {
+    return composeAndExportVideo(scenes, videoUrls, masterAudioUrl, backgroundMusicUrl, onProgress, options);
+  }
+
+  const { signal, loudness } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Export cancelled', 'AbortError'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/exportWorker.ts', import.meta.url));
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Export cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress);
+          break;
+        case 'loudness':
+          loudness?.onMeasured?.(message.result);
+          break;
+        case 'done':
+          finish();
+          resolve(message.blob);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Export worker failed'));
+    };
+
+    const request: ExportWorkerRequest = {
+      scenes,
+      videoUrls,
+      masterAudioUrl,
+      backgroundMusicUrl,
+      options: toWorkerExportOptions(options),
+    };
+    worker.postMessage(request);
+  });
+};
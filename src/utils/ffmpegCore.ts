@@ -0,0 +1,99 @@
+// Pinned FFmpeg core build. Every file is checked against these SRI hashes before FFmpeg loads it,
+// so a mirror set through NEXT_PUBLIC_FFMPEG_CORE_BASE_URL has to serve exactly this version.
+export const FFMPEG_CORE_VERSION = '0.12.6';
+
+// Single-threaded core, and the pthreads build that needs SharedArrayBuffer
+export type FFmpegCoreVariant = 'core' | 'core-mt';
+
+export const FFMPEG_CORE_FILES: Record<FFmpegCoreVariant, Record<string, string>> = {
+  'core': {
+    'ffmpeg-core.js': 'sha384-c9jtXGMa7FHb4zjdEQbYHSk+IhD2qPKTKyyD05+FsJ4hTo1G67o9cgo7APw3U9Lv',
+    'ffmpeg-core.wasm': 'sha384-SnAthyn82idS4YdVo46XOl86g1sUylqtN6BEYmPDFqzVO3Z3O/Xj1tVlyFqgyW4K',
+  },
+  'core-mt': {
+    'ffmpeg-core.js': 'sha384-rq7flgHVWaVfB458CIGLKgbt2TRqlzr4C9BqlLCEzZEsEgmrVcjEESuJ6Xn1KvYd',
+    'ffmpeg-core.wasm': 'sha384-FycsKH8SDTkBt19cTwetE082xjCaWrSu1JpBG7O1+kZRu1xnfgD4rAiCnpRPQQSX',
+    'ffmpeg-core.worker.js': 'sha384-IGj8Y6pLWgXZtqj+ZjMWpgRKD1EkLkAVuzqyuvXDUeXz0B2IdrUxG25oWKdHHcVr',
+  },
+};
+
+// Static files on the app's own origin, copied from the npm packages by scripts/copy-ffmpeg-core.ts
+export const DEFAULT_FFMPEG_CORE_BASE_URL = '/ffmpeg-core';
+
+export const getFFmpegCoreBaseURL = (): string =>
+  process.env.NEXT_PUBLIC_FFMPEG_CORE_BASE_URL?.replace(/\/+$/, '') || DEFAULT_FFMPEG_CORE_BASE_URL;
+
+/**
+ * The multithreaded core needs SharedArrayBuffer, which browsers only expose to
+ * cross-origin isolated pages (COOP: same-origin + COEP: require-corp)
+ */
+export const canUseMultithreadedCore = (): boolean =>
+  globalThis.crossOriginIsolated === true && typeof SharedArrayBuffer !== 'undefined';
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Check data against an SRI string such as "sha384-<base64 digest>"
+ */
+export const verifyIntegrity = async (data: ArrayBuffer, integrity: string): Promise<boolean> => {
+  const [algorithm, expected] = integrity.split('-', 2);
+  const digestName = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' }[algorithm];
+  if (!digestName || !expected) return false;
+
+  const digest = await crypto.subtle.digest(digestName, data);
+  return toBase64(digest) === expected;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  js: 'text/javascript',
+  wasm: 'application/wasm',
+};
+
+const fetchVerified = async (url: string, integrity: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download FFmpeg core from ${url} (${response.status})`);
+  }
+
+  const data = await response.arrayBuffer();
+  if (!(await verifyIntegrity(data, integrity))) {
+    throw new Error(`FFmpeg core integrity check failed for ${url}`);
+  }
+
+  const extension = url.split('.').pop() ?? '';
+  return URL.createObjectURL(new Blob([data], { type: CONTENT_TYPES[extension] }));
+};
+
+export interface FFmpegCoreURLs {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string; // Only for the multithreaded core
+}
+
+/**
+ * Download and verify the FFmpeg core, returning blob URLs for FFmpeg.load().
+ * Picks the multithreaded build when the page is cross-origin isolated.
+ */
+export const loadFFmpegCore = async (
+  baseURL: string = getFFmpegCoreBaseURL(),
+  multithreaded: boolean = canUseMultithreadedCore()
+): Promise<FFmpegCoreURLs> => {
+  const variant: FFmpegCoreVariant = multithreaded ? 'core-mt' : 'core';
+  const files = FFMPEG_CORE_FILES[variant];
+  const load = (file: string) => fetchVerified(`${baseURL}/${variant}/${file}`, files[file]);
+
+  const [coreURL, wasmURL, workerURL] = await Promise.all([
+    load('ffmpeg-core.js'),
+    load('ffmpeg-core.wasm'),
+    multithreaded ? load('ffmpeg-core.worker.js') : Promise.resolve(undefined),
+  ]);
+
+  return { coreURL, wasmURL, workerURL };
+};
@@ -0,0 +1,22 @@
+// Hosts the app fetches media from on the server: our R2 bucket and the video providers
+export const ALLOWED_MEDIA_DOMAINS = [
+  'video-studio.jarwater.com',
+  'kieai.erweima.ai',
+  'api.klingai.com',
+  'cdn.klingai.com',
+  'volces.com', // BytePlus/Seedance video storage
+];
+
+/**
+ * Whether a URL points at an allowed media host (or a subdomain of one). Media URLs are
+ * user-writable in Convex, so anything fetching them server-side checks them first.
+ */
+export const isAllowedMediaUrl = (url: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (protocol === 'https:' || protocol === 'http:')
+      && ALLOWED_MEDIA_DOMAINS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,74 @@
+import { ProjectOverlays, Scene, VoiceoverLine } from '@/types';
+import type { SceneTiming } from '@/utils/videoCompositor';
+import { isAllowedMediaUrl } from '@/utils/mediaHosts';
+
+export const DEFAULT_TITLE_CARD_DURATION = 3;
+export const DEFAULT_END_CARD_DURATION = 4;
+
+// How long a character's name tag stays up after they first speak
+export const LOWER_THIRD_DURATION = 3;
+
+export interface LowerThird {
+  name: string;
+  start: number; // seconds on the export timeline
+  end: number;
+}
+
+const isNarrator = (speaker: string) => !speaker || speaker.toLowerCase() === 'narrator';
+
+/**
+ * One name tag per character, shown when they first speak.
+ * Measured TTS lines (already placed on the export timeline) give the exact moment;
+ * without them the tag appears at the start of the character's first scene.
+ */
+export const buildLowerThirds = (
+  scenes: Scene[],
+  timings: SceneTiming[],
+  lines?: VoiceoverLine[]
+): LowerThird[] => {
+  const firstSpoken = new Map<string, number>();
+
+  if (lines && lines.length > 0) {
+    for (const line of lines) {
+      if (isNarrator(line.speaker) || firstSpoken.has(line.speaker)) continue;
+      firstSpoken.set(line.speaker, line.start);
+    }
+  } else {
+    scenes.forEach((scene, index) => {
+      const timing = timings[index];
+      if (!timing) return;
+      for (const { speaker } of scene.dialogue || []) {
+        if (isNarrator(speaker) || firstSpoken.has(speaker)) continue;
+        firstSpoken.set(speaker, timing.start);
+      }
+    });
+  }
+
+  return Array.from(firstSpoken, ([name, start]) => ({ name, start, end: start + LOWER_THIRD_DURATION }))
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Seconds the end card adds after the last clip (0 when disabled)
+ */
+export const getEndCardDuration = (overlays?: ProjectOverlays): number => {
+  return overlays?.endCard?.enabled ? Math.max(0, overlays.endCard.duration) : 0;
+};
+
+/**
+ * Whether the export can fetch an image: it goes through the media proxy, which only reaches
+ * R2 and the video providers, so images from anywhere else have to be uploaded first
+ */
+export const isExportableImageUrl = (url: string): boolean => !/^https?:/i.test(url) || isAllowedMediaUrl(url);
+
+/**
+ * Parse overlays stored as JSON on the project, ignoring malformed values
+ */
+export const parseOverlays = (json?: string): ProjectOverlays | undefined => {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json) as ProjectOverlays;
+  } catch {
+    return undefined;
+  }
+};
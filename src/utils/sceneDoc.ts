@@ -0,0 +1,24 @@
+import { Doc } from '../../convex/_generated/dataModel';
+import { DialogueLine, Scene } from '@/types';
+
+/**
+ * Convert a stored scene to the app's Scene, numbered by its place in the script.
+ * Shared by the browser and the render service, so both export the same cut.
+ */
+export function toScene(s: Doc<'scenes'>): Scene {
+  return {
+    id: s.sceneNumber,
+    timeRange: s.timeRange,
+    visualDescription: s.visualDescription,
+    audioDescription: s.audioDescription,
+    cameraShot: s.cameraShot,
+    voiceoverText: s.voiceoverText,
+    dialogue: s.dialogue ? JSON.parse(s.dialogue) as DialogueLine[] : undefined,
+    transition: s.transitionType
+      ? { type: s.transitionType, duration: s.transitionDuration ?? 0.5 }
+      : undefined,
+    clipEdit: s.trimIn !== undefined || s.trimOut !== undefined || s.speed !== undefined
+      ? { trimIn: s.trimIn ?? 0, trimOut: s.trimOut, speed: s.speed ?? 1 }
+      : undefined,
+  };
+}
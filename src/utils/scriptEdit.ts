@@ -0,0 +1,61 @@
+import { Scene } from '@/types';
+
+/**
+ * Where to split a scene's voiceover in two: the sentence break closest to the middle,
+ * or failing that the closest space. Returns a character offset into `text`.
+ */
+export function findSplitPoint(text: string): number {
+  const middle = text.length / 2;
+  const closest = (offsets: number[]) => offsets.reduce<number | null>(
+    (best, offset) => best === null || Math.abs(offset - middle) < Math.abs(best - middle) ? offset : best,
+    null
+  );
+
+  const sentenceBreaks = [...text.matchAll(/[.!?。！？]+\s*/g)]
+    .map(match => match.index! + match[0].length)
+    .filter(offset => offset > 0 && offset < text.length);
+  const sentenceBreak = closest(sentenceBreaks);
+  if (sentenceBreak !== null) return sentenceBreak;
+
+  const spaces = [...text.matchAll(/\s+/g)].map(match => match.index!).filter(offset => offset > 0);
+  return closest(spaces) ?? Math.floor(middle);
+}
+
+export type SceneField = 'visualDescription' | 'audioDescription' | 'cameraShot' | 'voiceoverText' | 'dialogue';
+
+export interface SceneFieldChange {
+  field: SceneField;
+  before: string;
+  after: string;
+}
+
+export interface SceneDiff {
+  sceneNumber: number; // 1-based position in the script
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  changes: SceneFieldChange[];
+}
+
+const DIFF_FIELDS: SceneField[] = ['visualDescription', 'audioDescription', 'cameraShot', 'voiceoverText', 'dialogue'];
+
+const fieldText = (scene: Scene, field: SceneField): string => field === 'dialogue'
+  ? (scene.dialogue ?? []).map(line => `${line.speaker}: ${line.text}`).join('\n')
+  : scene[field] ?? '';
+
+/**
+ * Compare two versions of a script scene by scene, matching scenes by position
+ */
+export function diffScenes(before: Scene[], after: Scene[]): SceneDiff[] {
+  return Array.from({ length: Math.max(before.length, after.length) }, (_, index) => {
+    const oldScene = before[index];
+    const newScene = after[index];
+    const sceneNumber = index + 1;
+
+    if (!oldScene) return { sceneNumber, status: 'added', changes: [] };
+    if (!newScene) return { sceneNumber, status: 'removed', changes: [] };
+
+    const changes = DIFF_FIELDS
+      .map(field => ({ field, before: fieldText(oldScene, field), after: fieldText(newScene, field) }))
+      .filter(change => change.before !== change.after);
+    return { sceneNumber, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+  });
+}
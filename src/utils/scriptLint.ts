@@ -0,0 +1,101 @@
+import { Script, Scene, Character, VideoModel } from '@/types';
+
+export type ScriptLintKind = 'cut_character' | 'speaker_off_screen' | 'voiceover_too_long';
+
+// A likely problem in one scene, found before the storyboard and clips are generated
+export interface ScriptLintWarning {
+  sceneId: number;
+  kind: ScriptLintKind;
+  message: string;
+}
+
+// The parts of a visualDescription: the base (the storyboard start frame) and each cut after it
+export interface ShotBreakdown {
+  base: string;
+  cuts: string[];
+}
+
+/**
+ * Most words of narration that fit in one scene: ~10 for Seedance's 4s scenes, ~22 for Veo's 8s
+ */
+export const getWordsPerScene = (videoModel: VideoModel): number => videoModel === 'seedance-1.5' ? 10 : 22;
+
+// Veo scripts mark cuts with [cut]; Seedance scripts number their shots ("Shot 2: ...")
+const CUT_SEPARATOR = /\[cut\]|\bShot\s+(?:[2-9]|\d{2,})\s*:/gi;
+
+/**
+ * Split a visualDescription into its base description and cuts
+ */
+export function splitShots(visualDescription: string): ShotBreakdown {
+  const [base, ...cuts] = visualDescription.split(CUT_SEPARATOR);
+  return {
+    base: base.replace(/^\s*Shot\s+1\s*:/i, '').trim(),
+    cuts: cuts.map(cut => cut.trim()).filter(Boolean),
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether a description mentions someone, by full name or by first name
+ */
+const mentions = (text: string, name: string): boolean => {
+  const names = [name, name.split(/\s+/)[0]].filter(n => n.length > 1);
+  return names.some(n => new RegExp(`(^|[^\\p{L}])${escapeRegExp(n)}($|[^\\p{L}])`, 'iu').test(text));
+};
+
+// Chinese and Japanese are written without spaces between words, so they're measured per character
+const UNSPACED_CHAR = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g;
+// Characters of Chinese or Japanese narration spoken in about the time of one English word
+const CHARS_PER_WORD = 2;
+
+/**
+ * Words in space-separated text and characters in Chinese or Japanese text
+ */
+const measureVoiceover = (text: string): { words: number; chars: number } => ({
+  words: text.replace(UNSPACED_CHAR, ' ').split(/\s+/).filter(token => /[\p{L}\p{N}]/u.test(token)).length,
+  chars: text.match(UNSPACED_CHAR)?.length ?? 0,
+});
+
+function lintScene(scene: Scene, characters: Character[], wordsPerScene: number): ScriptLintWarning[] {
+  const warnings: ScriptLintWarning[] = [];
+  const warn = (kind: ScriptLintKind, message: string) => warnings.push({ sceneId: scene.id, kind, message });
+  const { base, cuts } = splitShots(scene.visualDescription);
+
+  // A cut can only show people who are in the start frame - anyone else comes out as a stranger
+  cuts.forEach((cut, cutIndex) => {
+    for (const character of characters) {
+      if (mentions(cut, character.name) && !mentions(base, character.name)) {
+        warn('cut_character', `Cut ${cutIndex + 1} shows ${character.name}, who isn't in the start frame`);
+      }
+    }
+  });
+
+  // Speakers need to be in the start frame for the video to show them talking
+  const speakers = new Set((scene.dialogue ?? []).map(line => line.speaker).filter(speaker => speaker.toLowerCase() !== 'narrator'));
+  for (const speaker of speakers) {
+    if (!mentions(base, speaker)) {
+      warn('speaker_off_screen', `${speaker} speaks but isn't in the start frame`);
+    }
+  }
+
+  const { words, chars } = measureVoiceover(scene.voiceoverText);
+  if (words + Math.ceil(chars / CHARS_PER_WORD) > wordsPerScene) {
+    warn('voiceover_too_long', chars > 0
+      ? `Voiceover is ${chars} characters, more than the ~${wordsPerScene * CHARS_PER_WORD} that fit in the scene`
+      : `Voiceover is ${words} words, more than the ~${wordsPerScene} that fit in the scene`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Check a script for what the prompt asks of the model but nothing enforces: cuts that
+ * introduce characters missing from the start frame, dialogue from speakers who aren't in
+ * the frame, and voiceover too long for the scene
+ */
+export function lintScript(script: Script, videoModel: VideoModel): ScriptLintWarning[] {
+  const characters = script.characters ?? [];
+  const wordsPerScene = getWordsPerScene(videoModel);
+  return script.scenes.flatMap(scene => lintScene(scene, characters, wordsPerScene));
+}
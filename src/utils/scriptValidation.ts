@@ -0,0 +1,161 @@
+import { Script, GEMINI_VOICES, GeminiVoice } from '@/types';
+
+// What a generated script must look like for the project it was generated for
+export interface ScriptExpectations {
+  sceneCount: number;
+  sceneDuration: number; // seconds per scene
+  multiCharacter: boolean;
+}
+
+// One problem with a generated script, e.g. { path: 'scenes[2].cameraShot', message: '...' }
+export interface ScriptViolation {
+  path: string;
+  message: string;
+}
+
+const VOICES: readonly GeminiVoice[] = [...GEMINI_VOICES.female, ...GEMINI_VOICES.male];
+const GENDERS = ['male', 'female', 'neutral'];
+const NARRATOR = 'narrator';
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * The timeRange scene `index` (0-based) must have, e.g. "00:08 - 00:16"
+ */
+export const expectedTimeRange = (index: number, sceneDuration: number): string =>
+  `${formatTime(index * sceneDuration)} - ${formatTime((index + 1) * sceneDuration)}`;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const matchVoice = (name: unknown): GeminiVoice | undefined =>
+  typeof name === 'string' ? VOICES.find(voice => voice.toLowerCase() === name.trim().toLowerCase()) : undefined;
+
+/**
+ * Fix what the model gets nearly right: scene ids and time ranges (which follow from each scene's
+ * position), voice names in the wrong case, and dialogue speakers that differ from a character's
+ * name only in case or spacing, or use its id
+ */
+export function normalizeScript(script: Script, expected: Pick<ScriptExpectations, 'sceneDuration'>): Script {
+  const characters = Array.isArray(script.characters)
+    ? script.characters.map(character => ({
+      ...character,
+      name: typeof character.name === 'string' ? character.name.trim() : character.name,
+      voiceName: matchVoice(character.voiceName) ?? character.voiceName,
+    }))
+    : script.characters;
+
+  const matchSpeaker = (speaker: unknown): unknown => {
+    if (typeof speaker !== 'string') return speaker;
+    const key = speaker.trim().toLowerCase();
+    if (key === NARRATOR) return NARRATOR;
+    const character = characters?.find(c =>
+      (typeof c.name === 'string' && c.name.toLowerCase() === key) || (typeof c.id === 'string' && c.id.toLowerCase() === key)
+    );
+    return character ? character.name : speaker.trim();
+  };
+
+  return {
+    ...script,
+    narratorVoice: script.narratorVoice !== undefined ? matchVoice(script.narratorVoice) ?? script.narratorVoice : undefined,
+    characters,
+    scenes: Array.isArray(script.scenes)
+      ? script.scenes.map((scene, i) => scene && typeof scene === 'object'
+        ? {
+          ...scene,
+          id: i + 1,
+          timeRange: expectedTimeRange(i, expected.sceneDuration),
+          dialogue: Array.isArray(scene.dialogue)
+            ? scene.dialogue.map(line => ({ ...line, speaker: matchSpeaker(line?.speaker) as string }))
+            : scene.dialogue,
+        }
+        : scene)
+      : script.scenes,
+  };
+}
+
+/**
+ * Check a normalized script against what the app relies on. Returns every problem found,
+ * so the model can be asked to fix them all at once; an empty list means the script is valid.
+ * Scene ids and time ranges aren't checked: normalizeScript sets them.
+ */
+export function validateScript(script: Script, expected: ScriptExpectations): ScriptViolation[] {
+  const violations: ScriptViolation[] = [];
+  const report = (path: string, message: string) => violations.push({ path, message });
+
+  if (!isText(script.title)) report('title', 'must be a non-empty string');
+  if (!isText(script.style)) report('style', 'must be a non-empty string');
+
+  const speakers = new Set<string>([NARRATOR]);
+  if (expected.multiCharacter) {
+    if (!Array.isArray(script.characters) || script.characters.length === 0) {
+      report('characters', 'must list at least one character');
+    } else {
+      script.characters.forEach((character, i) => {
+        const path = `characters[${i}]`;
+        if (!isText(character?.name)) {
+          report(`${path}.name`, 'must be a non-empty string');
+        } else if (speakers.has(character.name)) {
+          report(`${path}.name`, `"${character.name}" is used by more than one character`);
+        } else {
+          speakers.add(character.name);
+        }
+        if (!VOICES.includes(character?.voiceName)) {
+          report(`${path}.voiceName`, `"${character?.voiceName}" is not an available voice (${VOICES.join(', ')})`);
+        }
+        if (!GENDERS.includes(character?.gender)) {
+          report(`${path}.gender`, `must be one of ${GENDERS.join(', ')}`);
+        }
+      });
+    }
+  } else if (!VOICES.includes(script.narratorVoice as GeminiVoice)) {
+    report('narratorVoice', `"${script.narratorVoice}" is not an available voice (${VOICES.join(', ')})`);
+  }
+
+  if (!Array.isArray(script.scenes)) {
+    report('scenes', 'must be an array');
+    return violations;
+  }
+  if (script.scenes.length !== expected.sceneCount) {
+    report('scenes', `must have exactly ${expected.sceneCount} scenes, got ${script.scenes.length}`);
+  }
+
+  script.scenes.forEach((scene, i) => {
+    const path = `scenes[${i}]`;
+    if (!scene || typeof scene !== 'object') {
+      report(path, 'must be a scene object');
+      return;
+    }
+    if (!isText(scene.visualDescription)) report(`${path}.visualDescription`, 'must be a non-empty string');
+    if (!isText(scene.cameraShot)) report(`${path}.cameraShot`, 'must be a non-empty string');
+    if (typeof scene.voiceoverText !== 'string') report(`${path}.voiceoverText`, 'must be a string');
+    if (scene.audioDescription !== undefined && typeof scene.audioDescription !== 'string') {
+      report(`${path}.audioDescription`, 'must be a string');
+    }
+
+    if (!expected.multiCharacter) return;
+    if (!Array.isArray(scene.dialogue)) {
+      report(`${path}.dialogue`, 'must be an array of {speaker, text} lines');
+      return;
+    }
+    scene.dialogue.forEach((line, j) => {
+      if (!isText(line?.speaker)) {
+        report(`${path}.dialogue[${j}].speaker`, 'must be a non-empty string');
+      } else if (!speakers.has(line.speaker)) {
+        report(`${path}.dialogue[${j}].speaker`, `"${line.speaker}" is not a character (use one of ${[...speakers].join(', ')})`);
+      }
+      if (!isText(line?.text)) report(`${path}.dialogue[${j}].text`, 'must be a non-empty string');
+    });
+  });
+
+  return violations;
+}
+
+/**
+ * One violation per line, for error messages and repair prompts
+ */
+export const formatViolations = (violations: ScriptViolation[]): string =>
+  violations.map(v => `- ${v.path}: ${v.message}`).join('\n');
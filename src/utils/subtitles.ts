@@ -0,0 +1,205 @@
+import { Scene, VoiceoverLine } from '@/types';
+import type { SceneTiming } from '@/utils/videoCompositor';
+import { wrapCaptionText } from '@/utils/captionFonts';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;   // seconds
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Get caption text for a scene
+ */
+export const getCaptionText = (scene: Scene): { speaker: string; text: string } | null => {
+  const dialogueLines = scene.dialogue || [];
+  const text = dialogueLines.length > 0
+    ? dialogueLines.map(d => d.text).join(' ')
+    : scene.voiceoverText;
+
+  if (!text || text.trim().length === 0) return null;
+
+  // Only show speaker name if SINGLE speaker and not narrator
+  let speaker = '';
+  if (dialogueLines.length === 1 && dialogueLines[0].speaker && dialogueLines[0].speaker !== 'narrator') {
+    speaker = dialogueLines[0].speaker;
+  }
+
+  return { speaker, text: text.trim() };
+};
+
+/**
+ * Build one cue per scene from the export timeline.
+ * Each caption is held until the next scene starts (mid-transition when clips overlap).
+ */
+export const buildSubtitleCues = (scenes: Scene[], timings: SceneTiming[]): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  scenes.forEach((scene, index) => {
+    const caption = getCaptionText(scene);
+    const timing = timings[index];
+    if (!caption || !timing) return;
+
+    const end = index < timings.length - 1
+      ? timings[index + 1].start
+      : timing.start + timing.duration;
+
+    cues.push({ start: timing.start, end, speaker: caption.speaker, text: caption.text });
+  });
+
+  return cues;
+};
+
+export interface CaptionTiming {
+  lines: VoiceoverLine[];
+  // Split each line into phrases of at most this many words (whole line when unset)
+  maxWordsPerCue?: number;
+}
+
+/**
+ * Build cues from the measured TTS line timings, one per spoken line.
+ * With maxWordsPerCue, a line's time is shared across its phrases by character count.
+ */
+export const buildLineCues = (lines: VoiceoverLine[], maxWordsPerCue?: number): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  for (const line of lines) {
+    const words = line.text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0 || line.duration <= 0) continue;
+
+    const speaker = line.speaker && line.speaker.toLowerCase() !== 'narrator' ? line.speaker : '';
+    const chunkSize = maxWordsPerCue && maxWordsPerCue > 0 ? maxWordsPerCue : words.length;
+
+    const phrases: string[] = [];
+    for (let i = 0; i < words.length; i += chunkSize) {
+      phrases.push(words.slice(i, i + chunkSize).join(' '));
+    }
+
+    const totalChars = phrases.reduce((sum, phrase) => sum + phrase.length, 0);
+    let cursor = line.start;
+    phrases.forEach((phrase, index) => {
+      const end = index === phrases.length - 1
+        ? line.start + line.duration
+        : cursor + line.duration * (phrase.length / totalChars);
+      cues.push({ start: cursor, end, speaker, text: phrase });
+      cursor = end;
+    });
+  }
+
+  return cues;
+};
+
+/**
+ * Pick line-level cues when TTS timings are available, falling back to one cue per scene
+ */
+export const buildCaptionCues = (
+  scenes: Scene[],
+  timings: SceneTiming[],
+  captionTiming?: CaptionTiming
+): SubtitleCue[] => {
+  if (captionTiming && captionTiming.lines.length > 0) {
+    return buildLineCues(captionTiming.lines, captionTiming.maxWordsPerCue);
+  }
+  return buildSubtitleCues(scenes, timings);
+};
+
+export interface CaptionLayout {
+  maxLines: number;         // Lines on screen at once; longer captions are split over time
+  maxWidth: number;         // Widest line as a fraction of the frame width
+  socialSafeArea?: boolean; // Keep clear of the TikTok/Reels caption and side buttons
+}
+
+export const DEFAULT_CAPTION_LAYOUT: CaptionLayout = { maxLines: 2, maxWidth: 0.8 };
+
+/**
+ * Split cues that wrap past maxLines (at maxWidth em per line) into consecutive cues,
+ * sharing each cue's time by character count
+ */
+export const fitCaptionCues = (cues: SubtitleCue[], maxWidth: number, maxLines: number): SubtitleCue[] => {
+  const fitted: SubtitleCue[] = [];
+
+  for (const cue of cues) {
+    const text = cue.text.replace(/\s+/g, ' ').trim();
+    const lines = wrapCaptionText(text, maxWidth);
+    if (lines.length <= maxLines) {
+      fitted.push(cue);
+      continue;
+    }
+
+    // Wrapped lines are substrings of the text, so chunks are cut from it to keep CJK unspaced
+    let cursor = 0;
+    const offsets = lines.map(line => {
+      const start = text.indexOf(line, cursor);
+      cursor = start + line.length;
+      return start;
+    });
+    const chunks: string[] = [];
+    for (let i = 0; i < lines.length; i += maxLines) {
+      const last = Math.min(i + maxLines, lines.length) - 1;
+      chunks.push(text.slice(offsets[i], offsets[last] + lines[last].length));
+    }
+
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    let start = cue.start;
+    chunks.forEach((chunk, index) => {
+      const end = index === chunks.length - 1
+        ? cue.end
+        : start + (cue.end - cue.start) * (chunk.length / totalChars);
+      fitted.push({ ...cue, start, end, text: chunk });
+      start = end;
+    });
+  }
+
+  return fitted;
+};
+
+/**
+ * Format seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+// Right-to-left mark: starts a cue in RTL order so players don't flip leading names and trailing punctuation
+const RLM = '\u200F';
+
+export interface SubtitleFormatOptions {
+  rtl?: boolean;
+}
+
+export const formatSrt = (cues: SubtitleCue[], { rtl = false }: SubtitleFormatOptions = {}): string => {
+  return cues.map((cue, index) => {
+    const line = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+    const text = rtl ? `${RLM}${line}` : line;
+    return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${text}\n`;
+  }).join('\n');
+};
+
+export const formatWebVtt = (cues: SubtitleCue[], { rtl = false }: SubtitleFormatOptions = {}): string => {
+  const body = cues.map((cue) => {
+    const line = rtl ? `${RLM}${cue.text}` : cue.text;
+    // WebVTT voice spans keep the speaker name as metadata rather than baked into the text
+    const text = cue.speaker ? `<v ${cue.speaker}>${line}` : line;
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}\n`;
+  }).join('\n');
+
+  return `WEBVTT\n\n${body}`;
+};
+
+export const formatSubtitles = (
+  cues: SubtitleCue[],
+  format: SubtitleFormat,
+  options: SubtitleFormatOptions = {}
+): string => {
+  return format === 'srt' ? formatSrt(cues, options) : formatWebVtt(cues, options);
+};
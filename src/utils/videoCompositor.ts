@@ -1,4 +1,12 @@
-import { Scene, AspectRatio, VideoModel } from "@/types";
+import { Scene, AspectRatio, VideoModel, TransitionType, VoiceoverSegment, ProjectOverlays, TitleCardOverlay, EndCardOverlay, BrandKit, ContentLanguage } from "@/types";
+import { CaptionLayout, CaptionTiming, DEFAULT_CAPTION_LAYOUT, SubtitleCue, buildCaptionCues, fitCaptionCues, formatSrt } from "@/utils/subtitles";
+import { VoiceoverPlacement, alignVoiceoverLines, placeVoiceoverSegments } from "@/utils/voiceoverTimeline";
+import { loadFFmpegCore } from "@/utils/ffmpegCore";
+import { LowerThird, buildLowerThirds, getEndCardDuration, isExportableImageUrl } from "@/utils/overlays";
+import { getLogoOverlayPosition, resolveBrandKit, toFFmpegColor } from "@/utils/brandKit";
+import { canBurnInCaptions, getCaptionScript, isRtlLanguage, wrapCaptionText } from "@/utils/captionFonts";
+import { buildClipEditFilters, getEditedDuration, isClipEdited } from "@/utils/clipEdit";
+import { EXPORT_MIME_TYPES, EXPORT_PRESETS, ExportPresetId, SUBTITLE_CODECS, getExportFrame } from "@/utils/exportPresets";
 
 // Video duration per clip based on model
 const VIDEO_DURATION_BY_MODEL: Record<VideoModel, number> = {
@@ -6,17 +14,112 @@ const VIDEO_DURATION_BY_MODEL: Record<VideoModel, number> = {
   'seedance-1.5': 4,
 };
 
+/**
+ * Length of one generated clip: Seedance's is configurable, Veo's is fixed
+ */
+export const getClipDuration = (videoModel: VideoModel, seedanceDuration?: number): number =>
+  videoModel === 'seedance-1.5' && seedanceDuration ? seedanceDuration : VIDEO_DURATION_BY_MODEL[videoModel];
+
+// FFmpeg xfade transition names for each scene transition type
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'none'>, string> = {
+  'crossfade': 'fade',
+  'dip_to_black': 'fadeblack',
+  'wipe': 'wipeleft',
+  'slide': 'slideleft',
+};
+
+// xfade needs identical frame rate and size on both inputs, so clips are normalised first
+const TRANSITION_FPS = 24;
+const MIN_TRANSITION_DURATION = 0.1;
+
+export interface MusicDucking {
+  baseVolume: number; // Music gain while nobody is speaking (linear, 1 = unchanged)
+  duckDb: number;     // Further gain change under narration in dB (0 disables ducking)
+}
+
+export const DEFAULT_MUSIC_DUCKING: MusicDucking = { baseVolume: 0.2, duckDb: -12 };
+
+// Time the music takes to dip before narration starts and to recover after it ends
+const DUCK_RAMP = 0.3;
+
+// Gain for the clips' own audio (Seedance/Veo SFX and in-video speech) in the final mix
+export const DEFAULT_CLIP_AUDIO_GAIN = 0.4;
+
+export type ExportPhase = 'loading' | 'downloading' | 'analyzing' | 'concatenating' | 'encoding' | 'normalizing' | 'finalizing';
+
+export interface ExportProgress {
+  phase: ExportPhase;
+  message: string;
+  sceneIndex?: number; // Index into the exported clips, for per-clip steps
+  percent?: number;    // 0-100 within the current phase, when FFmpeg reports it
+}
+
+export type LoudnessPreset = 'social' | 'broadcast';
+
+// EBU R128 loudnorm targets: integrated loudness (LUFS), true peak (dBTP) and loudness range (LU)
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, { label: string; integrated: number; truePeak: number; lra: number }> = {
+  social: { label: 'Social (-14 LUFS)', integrated: -14, truePeak: -1, lra: 11 },
+  broadcast: { label: 'Broadcast (-23 LUFS)', integrated: -23, truePeak: -1, lra: 15 },
+};
+
+export interface LoudnessStats {
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP
+  lra: number;        // LU
+}
+
+export interface LoudnessResult {
+  preset: LoudnessPreset;
+  input: LoudnessStats;  // Measured on the mixed export before normalization
+  output: LoudnessStats; // Measured on the normalized export
+}
+
+export interface LoudnessOptions {
+  preset: LoudnessPreset;
+  onMeasured?: (result: LoudnessResult) => void;
+}
+
+/**
+ * The part of ffmpeg.wasm's FFmpeg class the compositor drives. A native FFmpeg can
+ * implement it to run the same export graph on a server.
+ */
+export interface FFmpegEngine {
+  exec(args: string[]): Promise<number>;
+  writeFile(name: string, data: Uint8Array | string): Promise<unknown>;
+  readFile(name: string): Promise<Uint8Array | string>;
+  deleteFile(name: string): Promise<unknown>;
+  on(event: 'log', callback: (event: { message: string }) => void): void;
+  terminate(): void;
+}
+
+// Where the compositor runs: ffmpeg.wasm in the browser by default, or an injected engine
+export interface FFmpegRuntime {
+  ffmpeg: FFmpegEngine;
+  fetchFile: (url: string) => Promise<Uint8Array>;
+}
+
 // Singleton FFmpeg instance (typed as any to avoid importing at module level)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let ffmpeg: any = null;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let ffmpegLoading: Promise<any> | null = null;
 
+// Log lines captured during an exec whose output we need to read (null when not capturing)
+let capturedLog: string[] | null = null;
+
+// Receives FFmpeg's encode progress (0-1) for the export that is currently running
+let encodeProgressListener: ((progress: number) => void) | null = null;
+
+const handleLog = ({ message }: { message: string }) => {
+  if (capturedLog) capturedLog.push(message);
+  console.log('[FFmpeg]', message);
+};
+
 /**
  * Load FFmpeg with dynamic imports to avoid SSR/edge runtime issues
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const loadFFmpeg = async (onProgress: (msg: string) => void): Promise<any> => {
+const loadFFmpeg = async (onProgress: (progress: ExportProgress) => void): Promise<any> => {
   if (ffmpeg && ffmpeg.loaded) {
     return ffmpeg;
   }
@@ -31,52 +134,348 @@ const loadFFmpeg = async (onProgress: (msg: string) => void): Promise<any> => {
 
   ffmpeg = new FFmpeg();
 
-  ffmpeg.on('log', ({ message }: { message: string }) => {
-    console.log('[FFmpeg]', message);
-  });
+  ffmpeg.on('log', handleLog);
 
   ffmpeg.on('progress', ({ progress }: { progress: number }) => {
     if (progress > 0 && progress <= 1) {
-      onProgress(`Encoding: ${Math.round(progress * 100)}%`);
+      encodeProgressListener?.(progress);
     }
   });
 
   ffmpegLoading = (async () => {
-    onProgress("Loading FFmpeg (first time may take a moment)...");
+    onProgress({ phase: 'loading', message: "Loading FFmpeg (first time may take a moment)..." });
 
-    // Use CDN for FFmpeg core files - UMD version for better compatibility
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
+    // Self-hosted, integrity-checked core (UMD build for better compatibility)
+    const { coreURL, wasmURL, workerURL } = await loadFFmpegCore();
 
-    await ffmpeg!.load({
-      coreURL: `${baseURL}/ffmpeg-core.js`,
-      wasmURL: `${baseURL}/ffmpeg-core.wasm`,
-    });
+    await ffmpeg!.load({ coreURL, wasmURL, workerURL });
   })();
 
-  await ffmpegLoading;
-  ffmpegLoading = null;
+  try {
+    await ffmpegLoading;
+  } finally {
+    // A failed load (e.g. an integrity mismatch) shouldn't poison later attempts
+    ffmpegLoading = null;
+  }
 
   return ffmpeg;
 };
 
 /**
- * Get caption text for a scene
+ * Stop whatever FFmpeg is running. The worker can't be interrupted mid-exec, so it is
+ * terminated and the next export loads a fresh instance.
+ */
+const terminateFFmpeg = () => {
+  if (ffmpeg) {
+    ffmpeg.terminate();
+  }
+  ffmpeg = null;
+  ffmpegLoading = null;
+};
+
+/**
+ * Run an FFmpeg command and return the log lines it printed
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const execWithLog = async (ff: any, args: string[]): Promise<string[]> => {
+  capturedLog = [];
+  try {
+    await ff.exec(args);
+  } catch {
+    // Ignore - callers only need the log output
+  }
+  const lines = capturedLog;
+  capturedLog = null;
+  return lines;
+};
+
+const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Probe a file in the FFmpeg filesystem by running `ffmpeg -i` and reading its stream info from the log
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const probeClip = async (ff: any, fileName: string): Promise<{ hasAudio: boolean; duration: number | null }> => {
+  // No output file is given, so this exits with an error once the input has been described
+  const lines = await execWithLog(ff, ['-hide_banner', '-i', fileName]);
+  const durationMatch = lines.map(line => line.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/)).find(Boolean);
+  const duration = durationMatch
+    ? Number(durationMatch[1]) * 3600 + Number(durationMatch[2]) * 60 + Number(durationMatch[3])
+    : 0;
+
+  return {
+    hasAudio: lines.some(line => /Stream #\d+:\d+.*Audio:/.test(line)),
+    duration: duration > 0 ? roundTime(duration) : null,
+  };
+};
+
+/**
+ * Scenes that make it into the cut: those with a clip, plus those standing in with a storyboard still.
+ * Stills have no source clip, so any trim or speed set on the scene is dropped.
+ */
+export const getCutScenes = (
+  scenes: Scene[],
+  videoUrls: Record<number, string>,
+  stillFrames?: Record<number, string>
+): Scene[] => scenes
+  .filter(s => videoUrls[s.id] || stillFrames?.[s.id])
+  .map(s => videoUrls[s.id] || !s.clipEdit ? s : { ...s, clipEdit: undefined });
+
+export interface SceneTiming {
+  start: number;         // Start time of the clip in the exported video
+  duration: number;      // Full length of the clip
+  transitionOut: number; // Overlap with the next clip (0 for a hard cut)
+}
+
+/**
+ * Lay scenes out on the export timeline. A transition overlaps the end of a clip
+ * with the start of the next one, so every transition shortens the film by its duration.
+ * Clips take their real length from clipDurations (by scene id) when known, clipDuration otherwise,
+ * then each scene's trim and speed.
+ */
+export const buildSceneTimeline = (
+  scenes: Scene[],
+  clipDuration: number,
+  clipDurations?: Record<number, number>
+): { timings: SceneTiming[]; totalDuration: number } => {
+  const timings: SceneTiming[] = [];
+  const durationOf = (scene: Scene) => clipDurations?.[scene.id] ?? clipDuration;
+  let cursor = 0;
+
+  scenes.forEach((scene, index) => {
+    const isLast = index === scenes.length - 1;
+    const transition = scene.transition;
+    const duration = getEditedDuration(durationOf(scene), scene.clipEdit);
+    let transitionOut = 0;
+
+    if (!isLast && transition && transition.type !== 'none') {
+      // Never let a transition eat more than half of either clip
+      const nextScene = scenes[index + 1];
+      const shorterClip = Math.min(duration, getEditedDuration(durationOf(nextScene), nextScene.clipEdit));
+      transitionOut = Math.min(Math.max(transition.duration, MIN_TRANSITION_DURATION), shorterClip / 2);
+    }
+
+    timings.push({ start: roundTime(cursor), duration, transitionOut: roundTime(transitionOut) });
+    cursor += duration - transitionOut;
+  });
+
+  return { timings, totalDuration: roundTime(cursor) };
+};
+
+/**
+ * Give a clip an audio track the concat demuxer can join with the others: its own audio resampled
+ * and padded to the clip length, or silence when the clip has none
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const padClipAudio = async (ff: any, fileName: string, hasAudio: boolean, outputFile: string): Promise<void> => {
+  const audioArgs = hasAudio
+    ? ['-map', '0:a', '-af', 'aresample=44100,aformat=channel_layouts=stereo,apad']
+    : ['-filter_complex', 'anullsrc=r=44100:cl=stereo[silence]', '-map', '[silence]'];
+
+  await ff.exec([
+    '-i', fileName,
+    '-map', '0:v',
+    ...audioArgs,
+    '-c:v', 'copy',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-shortest',
+    outputFile
+  ]);
+};
+
+// Ken Burns moves, cycled by scene so consecutive stills don't all move alike
+const KEN_BURNS_ZOOM = 0.2;
+const KEN_BURNS_MOVES = [
+  (progress: string) => `z='1+${KEN_BURNS_ZOOM}*${progress}':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'`,     // Push in
+  (progress: string) => `z='${1 + KEN_BURNS_ZOOM}-${KEN_BURNS_ZOOM}*${progress}':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'`, // Pull out
+  (progress: string) => `z='${1 + KEN_BURNS_ZOOM}':x='(iw-iw/zoom)*${progress}':y='ih/2-(ih/zoom/2)'`, // Pan across
+];
+
+/**
+ * Turn a still image into `duration` seconds of slow pan/zoom at the project frame size
+ */
+const buildKenBurnsFilter = (index: number, width: number, height: number, duration: number): string => {
+  const frames = Math.max(1, Math.round(duration * TRANSITION_FPS));
+  const move = KEN_BURNS_MOVES[index % KEN_BURNS_MOVES.length](`on/${frames}`);
+  // Filling a frame twice the size first keeps zoompan's whole-pixel steps from jittering
+  return `scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase,crop=${width * 2}:${height * 2},zoompan=${move}:d=${frames}:s=${width}x${height}:fps=${TRANSITION_FPS},setsar=1`;
+};
+
+/**
+ * Build the filter graph that joins clips with xfade/acrossfade transitions.
+ * Clips without an audio stream get silence so the audio chain stays in step with the video.
+ */
+const buildTransitionFilter = (
+  scenes: Scene[],
+  timings: SceneTiming[],
+  clipHasAudio: boolean[],
+  width: number,
+  height: number
+): string => {
+  const filters: string[] = [];
+
+  timings.forEach((timing, i) => {
+    filters.push(
+      `[${i}:v]trim=0:${timing.duration},setpts=PTS-STARTPTS,scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${TRANSITION_FPS},format=yuv420p[v${i}]`
+    );
+    filters.push(clipHasAudio[i]
+      ? `[${i}:a]atrim=0:${timing.duration},asetpts=PTS-STARTPTS,aresample=44100,aformat=channel_layouts=stereo,apad=whole_dur=${timing.duration}[a${i}]`
+      : `anullsrc=r=44100:cl=stereo,atrim=0:${timing.duration}[a${i}]`
+    );
+  });
+
+  let videoLabel = 'v0';
+  let audioLabel = 'a0';
+  let length = timings[0].duration;
+
+  for (let i = 1; i < timings.length; i++) {
+    const overlap = timings[i - 1].transitionOut;
+    const type = scenes[i - 1].transition?.type;
+    const nextVideo = `vx${i}`;
+    const nextAudio = `ax${i}`;
+
+    if (overlap > 0 && type && type !== 'none') {
+      const offset = roundTime(length - overlap);
+      filters.push(`[${videoLabel}][v${i}]xfade=transition=${XFADE_TRANSITIONS[type]}:duration=${overlap}:offset=${offset}[${nextVideo}]`);
+      filters.push(`[${audioLabel}][a${i}]acrossfade=d=${overlap}[${nextAudio}]`);
+    } else {
+      filters.push(`[${videoLabel}][v${i}]concat=n=2:v=1:a=0[${nextVideo}]`);
+      filters.push(`[${audioLabel}][a${i}]concat=n=2:v=0:a=1[${nextAudio}]`);
+    }
+
+    videoLabel = nextVideo;
+    audioLabel = nextAudio;
+    length += timings[i].duration - overlap;
+  }
+
+  filters.push(`[${videoLabel}]null[vjoined]`);
+  filters.push(`[${audioLabel}]anull[ajoined]`);
+  return filters.join(';');
+};
+
+/**
+ * Pull the JSON block loudnorm prints with print_format=json out of the FFmpeg log
  */
-const getCaptionText = (scene: Scene): { speaker: string; text: string } | null => {
-  const dialogueLines = scene.dialogue || [];
-  const text = dialogueLines.length > 0
-    ? dialogueLines.map(d => d.text).join(' ')
-    : scene.voiceoverText;
+const parseLoudnormLog = (lines: string[]): Record<string, string> | null => {
+  const text = lines.join('\n');
+  const start = text.lastIndexOf('{');
+  const end = text.indexOf('}', start);
+  if (start < 0 || end < 0) return null;
+
+  try {
+    const stats = JSON.parse(text.slice(start, end + 1)) as Record<string, string>;
+    return 'input_i' in stats ? stats : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Normalize the export to an EBU R128 loudness target with loudnorm's two-pass mode:
+ * the first pass measures the mix, the second applies a linear gain computed from those measurements.
+ * Returns null (leaving the input untouched) when there is no audio to measure.
+ */
+const normalizeLoudness = async (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ff: any,
+  inputFile: string,
+  outputFile: string,
+  preset: LoudnessPreset,
+  encodeArgs: string[],
+  onProgress: (progress: ExportProgress) => void
+): Promise<LoudnessResult | null> => {
+  const target = LOUDNESS_PRESETS[preset];
+  const targetArgs = `I=${target.integrated}:TP=${target.truePeak}:LRA=${target.lra}`;
+
+  onProgress({ phase: 'normalizing', message: "Measuring loudness..." });
+  const measured = parseLoudnormLog(await execWithLog(ff, [
+    '-hide_banner', '-i', inputFile, '-vn',
+    '-af', `loudnorm=${targetArgs}:print_format=json`,
+    '-f', 'null', '-',
+  ]));
+
+  // Silent or missing audio measures as -inf, which the second pass can't use
+  const measuredKeys = ['input_i', 'input_tp', 'input_lra', 'input_thresh', 'target_offset'];
+  if (!measured || !measuredKeys.every(k => Number.isFinite(Number(measured[k])))) return null;
+
+  onProgress({ phase: 'normalizing', message: "Normalizing loudness..." });
+  const applied = parseLoudnormLog(await execWithLog(ff, [
+    '-hide_banner', '-i', inputFile,
+    '-map', '0',
+    '-c', 'copy',
+    '-af', `loudnorm=${targetArgs}:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}:measured_LRA=${measured.input_lra}:measured_thresh=${measured.input_thresh}:offset=${measured.target_offset}:linear=true:print_format=json`,
+    ...encodeArgs,
+    '-ar', '48000',
+    '-y',
+    outputFile,
+  ]));
+  if (!applied) throw new Error("Loudness normalization failed");
+
+  return {
+    preset,
+    input: { integrated: Number(measured.input_i), truePeak: Number(measured.input_tp), lra: Number(measured.input_lra) },
+    output: { integrated: Number(applied.output_i), truePeak: Number(applied.output_tp), lra: Number(applied.output_lra) },
+  };
+};
+
+/**
+ * Cut each scene's narration out of the master voiceover and delay it to that scene's start,
+ * speeding it up where it would otherwise run into the next scene
+ */
+const buildVoiceoverFilter = (inputIndex: number, placements: VoiceoverPlacement[]): string => {
+  const filters: string[] = [];
+  const labels = placements.map((_, i) => `vo${i}`);
+
+  if (placements.length > 1) {
+    filters.push(`[${inputIndex}:a]asplit=${placements.length}${labels.map(l => `[${l}in]`).join('')}`);
+  }
+
+  placements.forEach((placement, i) => {
+    const source = placements.length > 1 ? `[${labels[i]}in]` : `[${inputIndex}:a]`;
+    const end = roundTime(placement.offset + placement.duration);
+    const tempo = placement.tempo !== 1 ? `,atempo=${placement.tempo}` : '';
+    const delayMs = Math.round(placement.start * 1000);
+    filters.push(
+      `${source}atrim=${placement.offset}:${end},asetpts=PTS-STARTPTS${tempo},adelay=delays=${delayMs}:all=1[${labels[i]}]`
+    );
+  });
+
+  if (placements.length > 1) {
+    filters.push(`${labels.map(l => `[${l}]`).join('')}amix=inputs=${placements.length}:duration=longest:normalize=0[voice]`);
+  } else {
+    filters.push(`[${labels[0]}]anull[voice]`);
+  }
 
-  if (!text || text.trim().length === 0) return null;
+  return filters.join(';');
+};
 
-  // Only show speaker name if SINGLE speaker and not narrator
-  let speaker = '';
-  if (dialogueLines.length === 1 && dialogueLines[0].speaker && dialogueLines[0].speaker !== 'narrator') {
-    speaker = dialogueLines[0].speaker;
+/**
+ * Build the music volume filter: a flat level, or an envelope that dips under each narration window.
+ * Windows closer together than a full dip and recovery are merged so the music doesn't pump between lines.
+ */
+const buildMusicVolume = (windows: [number, number][], ducking: MusicDucking): string => {
+  if (windows.length === 0 || ducking.duckDb === 0) {
+    return `volume=${ducking.baseVolume}`;
   }
 
-  return { speaker, text: text.trim() };
+  const merged: [number, number][] = [];
+  for (const [start, end] of [...windows].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start - last[1] < DUCK_RAMP * 2) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  // 0 outside a window, 1 inside it, with linear ramps of DUCK_RAMP on either side
+  const since = (t: number) => t < 0 ? `(t+${roundTime(-t)})` : `(t-${roundTime(t)})`;
+  const amount = merged
+    .map(([start, end]) => `clip(min(${since(start - DUCK_RAMP)}/${DUCK_RAMP},(${roundTime(end + DUCK_RAMP)}-t)/${DUCK_RAMP}),0,1)`)
+    .reduce((acc, term) => `max(${acc},${term})`);
+
+  return `volume='${ducking.baseVolume}*pow(10,${ducking.duckDb}*${amount}/20)':eval=frame`;
 };
 
 /**
@@ -92,86 +491,342 @@ const escapeDrawText = (text: string): string => {
     .replace(/%/g, '\\%');
 };
 
+// Subtitle file muxed as a soft mov_text track
+const SUBTITLE_FILE = 'subtitles.srt';
+
 // Font file name for captions (loaded into FFmpeg filesystem)
 const FONT_FILE = 'font.ttf';
-// Roboto font proxied through our API to avoid CORS issues
+// Roboto (or the script's Noto font via ?script=) proxied through our API to avoid CORS issues
 const FONT_URL = '/api/proxy-font';
 
+// TikTok/Reels draw their own caption and buttons over the bottom fifth and the right edge
+const SOCIAL_SAFE_AREA = { bottom: 0.2, side: 0.12 };
+
+/**
+ * drawtext options for the brand kit's caption style: a background box, an outline, or plain text
+ */
+const captionStyleOptions = (brandKit: BrandKit, boxPadding: number): string => {
+  if (brandKit.captionStyle === 'box') {
+    return `:box=1:boxcolor=${toFFmpegColor(brandKit.boxColor, 0.6, 'black')}:boxborderw=${boxPadding}`;
+  }
+  if (brandKit.captionStyle === 'outline') {
+    return `:borderw=2:bordercolor=${toFFmpegColor(brandKit.boxColor, 1, 'black')}`;
+  }
+  return '';
+};
+
 /**
  * Build drawtext filter for captions
  */
 const buildCaptionFilter = (
-  scenes: Scene[],
-  clipDuration: number,
+  cues: SubtitleCue[],
   width: number,
-  height: number
+  height: number,
+  brandKit: BrandKit,
+  language: ContentLanguage | undefined,
+  layout: CaptionLayout
 ): string => {
   const filters: string[] = [];
   const fontSize = Math.round(height * 0.025);
   const nameSize = Math.round(fontSize * 0.75);
   const boxPadding = 16;
-  const bottomMargin = 30;
-
-  scenes.forEach((scene, index) => {
-    const caption = getCaptionText(scene);
-    if (!caption) return;
+  const hasBox = brandKit.captionStyle === 'box';
+  const safeBottom = layout.socialSafeArea ? Math.max(brandKit.safeAreaMargin, SOCIAL_SAFE_AREA.bottom) : brandKit.safeAreaMargin;
+  const bottomMargin = Math.round(height * safeBottom) + (hasBox ? boxPadding : 0);
+  const style = captionStyleOptions(brandKit, boxPadding);
+  const textColor = toFFmpegColor(brandKit.textColor);
+  // drawtext can't wrap, so lines are broken up front to fit the layout width inside the side margins
+  const sideInset = layout.socialSafeArea ? Math.round(width * SOCIAL_SAFE_AREA.side) : Math.round(height * brandKit.safeAreaMargin);
+  const maxLineWidth = Math.min(width * layout.maxWidth, width - 2 * sideInset) / fontSize;
+  const lineHeight = Math.round(fontSize * 1.3) + (hasBox ? boxPadding * 2 : 0);
+  // Arabic needs bidi reordering and joined letter forms
+  const shaping = isRtlLanguage(language) ? ':text_shaping=1' : '';
 
-    const startTime = index * clipDuration;
-    const endTime = (index + 1) * clipDuration;
-    const yPosition = height - bottomMargin - fontSize * 2;
+  fitCaptionCues(cues, maxLineWidth, layout.maxLines).forEach((caption) => {
+    const startTime = caption.start;
+    const endTime = caption.end;
+    const lines = wrapCaptionText(caption.text, maxLineWidth);
+    // The last line sits on the safe area; earlier lines stack above it
+    const lastLineY = height - bottomMargin - fontSize * 2;
+    const firstLineY = lastLineY - (lines.length - 1) * lineHeight;
 
-    // Draw speaker name if present (with font file)
+    // Draw speaker name if present (with font file), clear of the caption's box
     if (caption.speaker) {
+      const nameY = firstLineY - fontSize - (hasBox ? boxPadding * 2 : 0);
       filters.push(
-        `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(caption.speaker)}':fontsize=${nameSize}:fontcolor=white@0.7:x=(w-tw)/2:y=${yPosition - fontSize}:enable='between(t,${startTime},${endTime})'`
+        `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(caption.speaker)}':fontsize=${nameSize}:fontcolor=${toFFmpegColor(brandKit.accentColor, 0.7)}${style}${shaping}:x=(w-tw)/2:y=${nameY}:enable='between(t,${startTime},${endTime})'`
       );
     }
 
-    // Draw main caption text (with font file)
+    // Draw main caption text (with font file), one centred drawtext per line
+    lines.forEach((line, index) => {
+      filters.push(
+        `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(line)}':fontsize=${fontSize}:fontcolor=${textColor}${style}${shaping}:x=(w-tw)/2:y=${firstLineY + index * lineHeight}:enable='between(t,${startTime},${endTime})'`
+      );
+    });
+  });
+
+  return filters.join(',');
+};
+
+/**
+ * Build the title card: the title over a dimmed opening shot.
+ * It is drawn over the first clip rather than added before it, so narration and music keep their timing.
+ */
+const buildTitleCardFilter = (
+  title: string,
+  card: TitleCardOverlay,
+  height: number,
+  brandKit: BrandKit
+): string => {
+  const enable = `enable='between(t,0,${card.duration})'`;
+  const titleSize = Math.round(height * 0.07);
+  const subtitleSize = Math.round(height * 0.035);
+  const filters = [
+    `drawbox=x=0:y=0:w=iw:h=ih:color=black@0.5:t=fill:${enable}`,
+    `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(title)}':fontsize=${titleSize}:fontcolor=${toFFmpegColor(brandKit.textColor)}:x=(w-tw)/2:y=(h-th)/2:${enable}`,
+  ];
+  if (card.subtitle) {
     filters.push(
-      `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(caption.text)}':fontsize=${fontSize}:fontcolor=white:x=(w-tw)/2:y=${yPosition}:enable='between(t,${startTime},${endTime})'`
+      `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(card.subtitle)}':fontsize=${subtitleSize}:fontcolor=${toFFmpegColor(brandKit.textColor, 0.8)}:x=(w-tw)/2:y=h/2+${titleSize}:${enable}`
     );
+  }
+  return filters.join(',');
+};
+
+/**
+ * Build boxed name tags in the lower-left corner, above the caption area
+ */
+const buildLowerThirdFilter = (lowerThirds: LowerThird[], height: number, brandKit: BrandKit): string => {
+  const fontSize = Math.round(height * 0.035);
+  const padding = Math.round(fontSize / 2);
+  // The box grows outwards by its padding, so the text sits that far inside the safe area
+  const x = Math.round(height * brandKit.safeAreaMargin) + padding;
+  return lowerThirds.map(({ name, start, end }) =>
+    `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(name)}':fontsize=${fontSize}:fontcolor=${toFFmpegColor(brandKit.textColor)}:box=1:boxcolor=${toFFmpegColor(brandKit.boxColor, 0.6, 'black')}:boxborderw=${padding}:x=${x}:y=h*0.72:enable='between(t,${start},${end})'`
+  ).join(',');
+};
+
+// Image files for the end card logo and the brand watermark (extension comes from the source URL)
+const LOGO_FILE_BASE = 'logo';
+const WATERMARK_FILE_BASE = 'watermark';
+
+/**
+ * Download an image into the FFmpeg filesystem, through the proxy when it's hosted elsewhere.
+ * Returns the file name, or null when the download fails (the image is then left out).
+ */
+const downloadImage = async (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ff: any,
+  fetchFile: FFmpegRuntime['fetchFile'],
+  url: string,
+  baseName: string
+): Promise<string | null> => {
+  try {
+    const sourceUrl = url.startsWith('http') ? `/api/proxy-video?url=${encodeURIComponent(url)}` : url;
+    const extension = url.split('?')[0].match(/\.(png|jpe?g|webp)$/i)?.[1].toLowerCase() ?? 'png';
+    const fileName = `${baseName}.${extension}`;
+    await ff.writeFile(fileName, await fetchFile(sourceUrl));
+    return fileName;
+  } catch (err) {
+    console.warn(`Failed to download ${baseName}:`, err);
+    return null;
+  }
+};
+
+// An image input composited over the video (end card logo, watermark)
+interface ImageLayer {
+  inputIndex: number;
+  prepare: string;  // Filters applied to the image before overlaying
+  position: string; // overlay x/y options
+  enable: string;   // When the image is shown
+}
+
+/**
+ * Join the video filter chain and any image overlays into one labelled graph ending in [vout]
+ */
+const buildVideoGraph = (videoFilter: string, layers: ImageLayer[]): string => {
+  if (layers.length === 0) return `[0:v]${videoFilter}[vout]`;
+
+  const parts = [`[0:v]${videoFilter || 'null'}[v0]`];
+  layers.forEach((layer, i) => {
+    const output = i === layers.length - 1 ? '[vout]' : `[v${i + 1}]`;
+    parts.push(`[${layer.inputIndex}:v]${layer.prepare}[img${i}]`);
+    parts.push(`[v${i}][img${i}]overlay=${layer.position}:enable='${layer.enable}'${output}`);
   });
+  return parts.join(';');
+};
 
+/**
+ * Build the end card: black frames appended after the last clip, with the call to action and URL.
+ * The logo is overlaid separately since it needs its own input.
+ */
+const buildEndCardFilter = (
+  card: EndCardOverlay,
+  start: number,
+  height: number,
+  drawText: boolean,
+  brandKit: BrandKit
+): string => {
+  const enable = `enable='gte(t,${start})'`;
+  const ctaSize = Math.round(height * 0.06);
+  const urlSize = Math.round(height * 0.035);
+  const filters = [`tpad=stop_mode=add:stop_duration=${card.duration}:color=${toFFmpegColor(brandKit.boxColor, 1, 'black')}`];
+  if (drawText && card.callToAction) {
+    filters.push(
+      `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(card.callToAction)}':fontsize=${ctaSize}:fontcolor=${toFFmpegColor(brandKit.textColor)}:x=(w-tw)/2:y=h*0.55:${enable}`
+    );
+  }
+  if (drawText && card.url) {
+    filters.push(
+      `drawtext=fontfile=${FONT_FILE}:text='${escapeDrawText(card.url)}':fontsize=${urlSize}:fontcolor=${toFFmpegColor(brandKit.textColor, 0.8)}:x=(w-tw)/2:y=h*0.55+${Math.round(ctaSize * 1.5)}:${enable}`
+    );
+  }
   return filters.join(',');
 };
 
+export interface ExportOptions {
+  preset?: ExportPresetId;              // Resolution, codec and container (default 'standard')
+  aspectRatio?: AspectRatio;            // Default '16:9'
+  videoModel?: VideoModel;              // Default 'veo-3.1'
+  includeMusic?: boolean;               // Default true
+  clipDuration?: number;                // Overrides the model's clip length for clips that can't be probed
+  captions?: 'none' | 'burned' | 'soft'; // Burned-in drawtext or a soft subtitle track (default 'none')
+  captionTiming?: CaptionTiming;        // Line-level caption timing from TTS
+  captionLayout?: CaptionLayout;        // Burned caption lines, width and safe area (default DEFAULT_CAPTION_LAYOUT)
+  voiceoverSegments?: VoiceoverSegment[]; // Scene-aligned narration within the master track
+  musicDucking?: MusicDucking;          // Default DEFAULT_MUSIC_DUCKING
+  loudness?: LoudnessOptions;           // Loudness normalization target (none when omitted)
+  clipAudioGain?: number;               // Default DEFAULT_CLIP_AUDIO_GAIN
+  title?: string;                       // Script title shown on the title card
+  overlays?: ProjectOverlays;           // Title card, lower thirds and end card
+  brandKit?: BrandKit;                  // Fonts, colours, caption style and watermark (defaults when omitted)
+  language?: ContentLanguage;           // Picks the caption font and text direction (default English)
+  stillFrames?: Record<number, string>; // Storyboard frames (by scene id) shown as Ken Burns stills for scenes without a clip
+  signal?: AbortSignal;                 // Cancels the export, rejecting with an AbortError
+}
+
+const createAbortError = () => new DOMException('Export cancelled', 'AbortError');
+
 export const composeAndExportVideo = async (
   scenes: Scene[],
   videoUrls: Record<number, string>,
   masterAudioUrl: string | null,
   backgroundMusicUrl: string | null,
-  onProgress: (msg: string) => void,
-  aspectRatio: AspectRatio = '16:9',
-  videoModel: VideoModel = 'veo-3.1',
-  includeMusic: boolean = true,
-  customClipDuration?: number,
-  enableCaptions: boolean = false
+  onProgress: (progress: ExportProgress) => void,
+  options: ExportOptions = {},
+  runtime?: FFmpegRuntime
+): Promise<Blob> => {
+  const { signal } = options;
+  if (signal?.aborted) throw createAbortError();
+
+  // Encode progress is reported against whichever phase is running
+  let phase: ExportPhase = 'loading';
+  const report = (progress: ExportProgress) => {
+    phase = progress.phase;
+    onProgress(progress);
+  };
+  encodeProgressListener = (progress) => {
+    const percent = Math.round(progress * 100);
+    onProgress({ phase, message: `Encoding: ${percent}%`, percent });
+  };
+  const terminate = runtime ? () => runtime.ffmpeg.terminate() : terminateFFmpeg;
+  signal?.addEventListener('abort', terminate);
+  runtime?.ffmpeg.on('log', handleLog);
+
+  try {
+    return await renderExport(scenes, videoUrls, masterAudioUrl, backgroundMusicUrl, report, options, runtime);
+  } catch (err) {
+    // Terminating FFmpeg fails whatever call was in flight; report that as the cancellation it was
+    if (signal?.aborted) throw createAbortError();
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', terminate);
+    encodeProgressListener = null;
+  }
+};
+
+const renderExport = async (
+  scenes: Scene[],
+  videoUrls: Record<number, string>,
+  masterAudioUrl: string | null,
+  backgroundMusicUrl: string | null,
+  onProgress: (progress: ExportProgress) => void,
+  options: ExportOptions,
+  runtime?: FFmpegRuntime
 ): Promise<Blob> => {
-  const clipDuration = customClipDuration ?? VIDEO_DURATION_BY_MODEL[videoModel];
+  const {
+    preset = 'standard',
+    aspectRatio = '16:9',
+    videoModel = 'veo-3.1',
+    includeMusic = true,
+    captions = 'none',
+    captionTiming,
+    captionLayout = DEFAULT_CAPTION_LAYOUT,
+    voiceoverSegments,
+    musicDucking = DEFAULT_MUSIC_DUCKING,
+    loudness,
+    clipAudioGain = DEFAULT_CLIP_AUDIO_GAIN,
+    title,
+    overlays,
+    language,
+    stillFrames,
+  } = options;
+  const brandKit = resolveBrandKit(options.brandKit);
+  const clipDuration = options.clipDuration ?? VIDEO_DURATION_BY_MODEL[videoModel];
+  // Captions that can't be burned in legibly become a subtitle track
+  const enableCaptions = captions === 'burned' && canBurnInCaptions(language);
+  const softSubtitles = captions === 'soft' || (captions === 'burned' && !enableCaptions);
+  const exportPreset = EXPORT_PRESETS[preset];
+  const titleCard = overlays?.titleCard?.enabled && title ? overlays.titleCard : undefined;
+  const endCard = overlays?.endCard?.enabled ? overlays.endCard : undefined;
+  const endCardDuration = getEndCardDuration(overlays);
+  const needsFont = enableCaptions || !!titleCard || !!overlays?.lowerThirds || !!endCard?.callToAction || !!endCard?.url;
+  if (endCard?.logoUrl && !isExportableImageUrl(endCard.logoUrl)) {
+    throw new Error("The end card logo can't be fetched for the export; upload it instead");
+  }
 
   // Dynamic import fetchFile to avoid SSR issues
-  const { fetchFile } = await import('@ffmpeg/util');
+  const { fetchFile } = runtime ?? await import('@ffmpeg/util');
 
   // Load FFmpeg
-  const ff = await loadFFmpeg(onProgress);
+  const ff = runtime ? runtime.ffmpeg : await loadFFmpeg(onProgress);
 
-  // Filter scenes with videos
-  const scenesWithVideo = scenes.filter(s => videoUrls[s.id]);
+  // Scenes with videos, and storyboard stills filling in for those without
+  const scenesWithVideo = getCutScenes(scenes, videoUrls, stillFrames);
   if (scenesWithVideo.length === 0) {
     throw new Error("No videos to export");
   }
 
-  onProgress(`Downloading ${scenesWithVideo.length} video clips...`);
+  onProgress({ phase: 'downloading', message: `Downloading ${scenesWithVideo.length} video clips...`, percent: 0 });
 
-  // Download all video files
-  const videoFiles: { name: string; scene: Scene }[] = [];
+  // Download all video files (and the frames for stills)
+  const videoFiles: { name: string; scene: Scene; still?: boolean }[] = [];
   for (let i = 0; i < scenesWithVideo.length; i++) {
+    // Downloads happen outside FFmpeg, so terminating it doesn't stop them
+    if (options.signal?.aborted) throw createAbortError();
+
     const scene = scenesWithVideo[i];
     const url = videoUrls[scene.id];
+
+    if (!url) {
+      onProgress({ phase: 'downloading', message: `Downloading storyboard frame ${i + 1}/${scenesWithVideo.length}...`, sceneIndex: i });
+      const frameFile = await downloadImage(ff, fetchFile, stillFrames![scene.id], `frame_${i}`);
+      if (!frameFile) {
+        throw new Error(`Failed to download storyboard frame for scene ${scene.id}`);
+      }
+      videoFiles.push({ name: frameFile, scene, still: true });
+      continue;
+    }
+
     const proxyUrl = `/api/proxy-video?url=${encodeURIComponent(url)}`;
 
-    onProgress(`Downloading video ${i + 1}/${scenesWithVideo.length}...`);
+    onProgress({
+      phase: 'downloading',
+      message: `Downloading video ${i + 1}/${scenesWithVideo.length}...`,
+      sceneIndex: i,
+      percent: Math.round((i / scenesWithVideo.length) * 100),
+    });
 
     try {
       const data = await fetchFile(proxyUrl);
@@ -189,7 +844,7 @@ export const composeAndExportVideo = async (
   let hasMusic = false;
 
   if (masterAudioUrl) {
-    onProgress("Downloading voiceover...");
+    onProgress({ phase: 'downloading', message: "Downloading voiceover..." });
     try {
       const voiceData = await fetchFile(masterAudioUrl);
       await ff.writeFile('voiceover.mp3', voiceData);
@@ -200,7 +855,7 @@ export const composeAndExportVideo = async (
   }
 
   if (includeMusic && backgroundMusicUrl) {
-    onProgress("Downloading background music...");
+    onProgress({ phase: 'downloading', message: "Downloading background music..." });
     try {
       const musicData = await fetchFile(backgroundMusicUrl);
       await ff.writeFile('music.mp3', musicData);
@@ -210,44 +865,174 @@ export const composeAndExportVideo = async (
     }
   }
 
-  // Download font for captions if enabled
+  // Download font for captions and overlay text if enabled
   let hasFont = false;
-  if (enableCaptions) {
-    onProgress("Downloading font for captions...");
-    try {
-      console.log('[FFmpeg] Fetching font from:', FONT_URL);
-      const fontData = await fetchFile(FONT_URL);
-      console.log('[FFmpeg] Font downloaded, size:', fontData.byteLength, 'bytes');
-      await ff.writeFile(FONT_FILE, fontData);
-      hasFont = true;
-      console.log('[FFmpeg] Font written to filesystem successfully');
-    } catch (err) {
-      console.error("Failed to download font:", err);
-      onProgress("Warning: Could not load font, captions will be skipped");
+  if (needsFont) {
+    onProgress({ phase: 'downloading', message: enableCaptions ? "Downloading font for captions..." : "Downloading font for overlays..." });
+    // Non-Latin scripts get their Noto font, since brand fonts rarely cover them.
+    // Otherwise the brand font is tried first, with Roboto as the fallback.
+    const script = getCaptionScript(language);
+    const fontUrls = script !== 'latin'
+      ? [`${FONT_URL}?script=${script}`, FONT_URL]
+      : brandKit.fontUrl
+        ? [`${FONT_URL}?url=${encodeURIComponent(brandKit.fontUrl)}`, FONT_URL]
+        : [FONT_URL];
+    for (const fontUrl of fontUrls) {
+      try {
+        console.log('[FFmpeg] Fetching font from:', fontUrl);
+        const fontData = await fetchFile(fontUrl);
+        console.log('[FFmpeg] Font downloaded, size:', fontData.byteLength, 'bytes');
+        await ff.writeFile(FONT_FILE, fontData);
+        hasFont = true;
+        console.log('[FFmpeg] Font written to filesystem successfully');
+        break;
+      } catch (err) {
+        console.error("Failed to download font:", err);
+      }
+    }
+    if (!hasFont) {
+      onProgress({ phase: 'downloading', message: "Warning: Could not load font, text will be skipped" });
     }
   }
 
-  // Create concat file for video concatenation
-  onProgress("Preparing video concatenation...");
-  const concatContent = videoFiles.map(v => `file '${v.name}'`).join('\n');
-  await ff.writeFile('concat.txt', concatContent);
+  // Download the end card logo and brand watermark
+  let logoFile: string | null = null;
+  if (endCard?.logoUrl) {
+    onProgress({ phase: 'downloading', message: "Downloading logo..." });
+    logoFile = await downloadImage(ff, fetchFile, endCard.logoUrl, LOGO_FILE_BASE);
+  }
+  let watermarkFile: string | null = null;
+  if (brandKit.logoUrl) {
+    onProgress({ phase: 'downloading', message: "Downloading watermark..." });
+    watermarkFile = await downloadImage(ff, fetchFile, brandKit.logoUrl, WATERMARK_FILE_BASE);
+  }
+
+  // Calculate dimensions. Crop presets cut the final frame out of the project-shaped picture,
+  // so transitions still work at the project aspect ratio.
+  const exportFrame = getExportFrame(exportPreset, aspectRatio);
+  const projectFrame = exportFrame && !exportFrame.crop
+    ? exportFrame
+    : { width: aspectRatio === '16:9' ? 1280 : 720, height: aspectRatio === '16:9' ? 720 : 1280 };
+  const width = exportFrame?.width ?? projectFrame.width;
+  const height = exportFrame?.height ?? projectFrame.height;
+
+  // Find out which clips carry their own audio (SFX or in-video speech) and how long each really is
+  const clipHasAudio: boolean[] = [];
+  const probedDurations: Record<number, number> = {};
+  const stillSources: string[] = [];
+  for (const [i, v] of videoFiles.entries()) {
+    if (v.still) {
+      // Silent clip the length of a generated one, moving slowly over the storyboard frame
+      onProgress({ phase: 'analyzing', message: `Animating storyboard frame ${i + 1}/${videoFiles.length}...`, sceneIndex: i });
+      const stillFile = `still_${i}.mp4`;
+      await ff.exec([
+        '-i', v.name,
+        '-vf', buildKenBurnsFilter(i, projectFrame.width, projectFrame.height, clipDuration),
+        '-t', `${clipDuration}`,
+        '-c:v', 'libx264',
+        '-preset', 'fast',
+        '-crf', '18',
+        '-pix_fmt', 'yuv420p',
+        stillFile
+      ]);
+      stillSources.push(v.name);
+      videoFiles[i] = { ...v, name: stillFile };
+      clipHasAudio.push(false);
+      continue;
+    }
+
+    onProgress({ phase: 'analyzing', message: `Analyzing clip ${i + 1}/${videoFiles.length}...`, sceneIndex: i });
+    const { hasAudio, duration } = await probeClip(ff, v.name);
+    clipHasAudio.push(hasAudio);
+    if (duration) probedDurations[v.scene.id] = duration;
+  }
+  const hasClipAudio = clipHasAudio.some(Boolean);
+
+  // Trim and retime edited clips up front; untouched clips keep their original encode for stream copy
+  const editedSources: string[] = [];
+  for (const [i, v] of videoFiles.entries()) {
+    const edit = v.scene.clipEdit;
+    if (!isClipEdited(edit)) continue;
+
+    onProgress({ phase: 'analyzing', message: `Trimming clip ${i + 1}/${videoFiles.length}...`, sceneIndex: i });
+    const filters = buildClipEditFilters(edit, probedDurations[v.scene.id] ?? clipDuration);
+    const editedFile = `edited_${i}.mp4`;
+    await ff.exec([
+      '-i', v.name,
+      '-vf', filters.video,
+      ...(clipHasAudio[i] ? ['-af', filters.audio] : ['-an']),
+      '-c:v', 'libx264',
+      '-preset', 'fast',
+      '-crf', '18',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      editedFile
+    ]);
+    editedSources.push(v.name);
+    videoFiles[i] = { ...v, name: editedFile };
+  }
 
-  // Calculate dimensions
-  const width = aspectRatio === '16:9' ? 1280 : 720;
-  const height = aspectRatio === '16:9' ? 720 : 1280;
-  const totalDuration = scenesWithVideo.length * clipDuration;
+  // Captions, narration placement and music length all follow the probed clip lengths
+  const { timings, totalDuration } = buildSceneTimeline(scenesWithVideo, clipDuration, probedDurations);
+  // Stills and edited clips are encoded differently from the generated clips, so they can't be stream-copied alongside them either
+  const reencodeJoin = timings.some(t => t.transitionOut > 0)
+    || stillSources.length > 0
+    || videoFiles.some(v => isClipEdited(v.scene.clipEdit));
 
-  // Build FFmpeg command
-  onProgress("Encoding video...");
+  // Scene-aligned narration: place each scene's segment at that scene's start, and move caption lines with it
+  const voiceoverPlacements = voiceoverSegments && voiceoverSegments.length > 0
+    ? placeVoiceoverSegments(voiceoverSegments, scenesWithVideo, timings)
+    : null;
+  const timelineCaptionTiming = voiceoverPlacements && captionTiming
+    ? { ...captionTiming, lines: alignVoiceoverLines(captionTiming.lines, voiceoverPlacements) }
+    : captionTiming;
+  const paddedFiles: string[] = [];
 
   // Step 1: Concatenate videos
-  await ff.exec([
-    '-f', 'concat',
-    '-safe', '0',
-    '-i', 'concat.txt',
-    '-c', 'copy',
-    'concatenated.mp4'
-  ]);
+  if (reencodeJoin) {
+    // Transitions overlap clips, so they have to be re-encoded through xfade/acrossfade (cuts join with concat)
+    onProgress({ phase: 'concatenating', message: "Applying scene transitions..." });
+    const transitionFilter = buildTransitionFilter(scenesWithVideo, timings, clipHasAudio, projectFrame.width, projectFrame.height);
+    await ff.exec([
+      ...videoFiles.flatMap(v => ['-i', v.name]),
+      '-filter_complex', transitionFilter,
+      '-map', '[vjoined]',
+      '-map', '[ajoined]',
+      '-c:v', 'libx264',
+      '-preset', 'fast',
+      '-crf', '18',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      'concatenated.mp4'
+    ]);
+  } else {
+    // Hard cuts only - stream copy through the concat demuxer
+    onProgress({ phase: 'concatenating', message: "Preparing video concatenation..." });
+    let concatFiles = videoFiles.map(v => v.name);
+
+    // The demuxer needs every clip to have matching audio, so pad when only some clips have sound
+    if (hasClipAudio && clipHasAudio.some(has => !has)) {
+      concatFiles = [];
+      for (let i = 0; i < videoFiles.length; i++) {
+        onProgress({ phase: 'concatenating', message: `Padding clips without audio (${i + 1}/${videoFiles.length})...`, sceneIndex: i });
+        const paddedFile = `padded_${i}.mp4`;
+        await padClipAudio(ff, videoFiles[i].name, clipHasAudio[i], paddedFile);
+        concatFiles.push(paddedFile);
+        paddedFiles.push(paddedFile);
+      }
+    }
+
+    const concatContent = concatFiles.map(name => `file '${name}'`).join('\n');
+    await ff.writeFile('concat.txt', concatContent);
+
+    await ff.exec([
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', 'concat.txt',
+      '-c', 'copy',
+      'concatenated.mp4'
+    ]);
+  }
 
   // Build filter complex for audio mixing and captions
   let filterComplex = '';
@@ -258,41 +1043,105 @@ export const composeAndExportVideo = async (
   const ffmpegArgs: string[] = ['-i', 'concatenated.mp4'];
   inputIndex++;
 
-  // Input 1: voiceover (if exists)
-  if (hasVoiceover) {
+  // Input 1: voiceover (if exists and any exported scene has narration)
+  const mixVoiceover = hasVoiceover && voiceoverPlacements?.length !== 0;
+  if (mixVoiceover) {
     ffmpegArgs.push('-i', 'voiceover.mp3');
-    audioInputs.push(`[${inputIndex}:a]volume=1.0[voice]`);
+    audioInputs.push(voiceoverPlacements
+      ? buildVoiceoverFilter(inputIndex, voiceoverPlacements)
+      : `[${inputIndex}:a]volume=1.0[voice]`);
     inputIndex++;
   }
 
   // Input 2: music (if exists)
   if (hasMusic) {
     ffmpegArgs.push('-i', 'music.mp3');
-    // Loop music to match video duration
-    audioInputs.push(`[${inputIndex}:a]aloop=loop=-1:size=2e+09,atrim=0:${totalDuration},volume=0.2[music]`);
+    // Loop music to match video duration, ducking it wherever narration is known to play.
+    // Older voiceover tracks have no timings, so they keep a flat music level.
+    const voiceWindows: [number, number][] = !mixVoiceover
+      ? []
+      : timelineCaptionTiming && timelineCaptionTiming.lines.length > 0
+        ? timelineCaptionTiming.lines.map(l => [l.start, l.start + l.duration])
+        : (voiceoverPlacements ?? []).map(p => [p.start, p.start + p.duration / p.tempo]);
+    audioInputs.push(`[${inputIndex}:a]aloop=loop=-1:size=2e+09,atrim=0:${totalDuration + endCardDuration},${buildMusicVolume(voiceWindows, musicDucking)}[music]`);
     inputIndex++;
   }
 
+  // Soft subtitle track (muxed as mov_text so players can toggle it and it can be re-translated later)
+  let subtitleInputIndex = -1;
+  if (softSubtitles) {
+    const cues = buildCaptionCues(scenesWithVideo, timings, timelineCaptionTiming);
+    if (cues.length > 0) {
+      await ff.writeFile(SUBTITLE_FILE, formatSrt(cues, { rtl: isRtlLanguage(language) }));
+      ffmpegArgs.push('-i', SUBTITLE_FILE);
+      subtitleInputIndex = inputIndex;
+      inputIndex++;
+    }
+  }
+
+  // Watermark over the movie and logo over the appended end card
+  const imageLayers: ImageLayer[] = [];
+  const safeMargin = Math.round(height * brandKit.safeAreaMargin);
+  if (watermarkFile) {
+    ffmpegArgs.push('-i', watermarkFile);
+    imageLayers.push({
+      inputIndex,
+      prepare: `scale=-1:${Math.round(height * 0.08)},format=rgba,colorchannelmixer=aa=${brandKit.logoOpacity}`,
+      position: getLogoOverlayPosition(brandKit.logoPosition, safeMargin),
+      enable: endCard ? `lt(t,${totalDuration})` : '1',
+    });
+    inputIndex++;
+  }
+  if (logoFile) {
+    ffmpegArgs.push('-i', logoFile);
+    imageLayers.push({
+      inputIndex,
+      prepare: `scale=-1:${Math.round(height * 0.2)}`,
+      position: 'x=(W-w)/2:y=H*0.3-h/2',
+      enable: `gte(t,${totalDuration})`,
+    });
+    inputIndex++;
+  }
+
+  // Clip audio from the concatenated video, as its own layer in the mix
+  const mixClipAudio = hasClipAudio && clipAudioGain > 0;
+  if (mixClipAudio) {
+    audioInputs.push(`[0:a]volume=${clipAudioGain}[clip]`);
+  }
+
   // Build audio mix filter
   let audioMix = '';
-  if (hasVoiceover && hasMusic) {
-    filterComplex = `${audioInputs.join(';')};[voice][music]amix=inputs=2:duration=longest[aout]`;
+  const mixLabels = [
+    ...(mixVoiceover ? ['[voice]'] : []),
+    ...(hasMusic ? ['[music]'] : []),
+    ...(mixClipAudio ? ['[clip]'] : []),
+  ];
+  if (mixLabels.length > 1) {
+    filterComplex = `${audioInputs.join(';')};${mixLabels.join('')}amix=inputs=${mixLabels.length}:duration=longest[aout]`;
     audioMix = '[aout]';
-  } else if (hasVoiceover) {
-    filterComplex = audioInputs[0];
-    audioMix = '[voice]';
-  } else if (hasMusic) {
-    filterComplex = audioInputs[0];
-    audioMix = '[music]';
+  } else if (mixLabels.length === 1) {
+    filterComplex = audioInputs.join(';');
+    audioMix = mixLabels[0];
+  }
+
+  // Clip audio turned all the way down must not sneak back in through a plain stream map
+  const clipAudioMap = hasClipAudio && !mixClipAudio ? [] : ['-map', '0:a?'];
+
+  // Scale (and crop) to the preset frame before anything is drawn on top
+  const videoFilters: string[] = [];
+  if (exportFrame) {
+    const { width: w, height: h } = exportFrame;
+    videoFilters.push(exportFrame.crop
+      ? `scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},setsar=1`
+      : `scale=${w}:${h}:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2,setsar=1`);
   }
 
   // Add caption filter if enabled and font is available
-  let videoFilter = '';
   if (enableCaptions && hasFont) {
     console.log('[FFmpeg] Building caption filter for', scenesWithVideo.length, 'scenes');
-    const captionFilter = buildCaptionFilter(scenesWithVideo, clipDuration, width, height);
+    const captionFilter = buildCaptionFilter(buildCaptionCues(scenesWithVideo, timings, timelineCaptionTiming), width, height, brandKit, language, captionLayout);
     if (captionFilter) {
-      videoFilter = captionFilter;
+      videoFilters.push(captionFilter);
       console.log('[FFmpeg] Caption filter built successfully');
     } else {
       console.log('[FFmpeg] No captions to render (all scenes empty)');
@@ -301,23 +1150,45 @@ export const composeAndExportVideo = async (
     console.log('[FFmpeg] Captions enabled but font not available, skipping');
   }
 
+  // Branded overlays: title card over the opening shot, name tags, then the appended end card
+  if (titleCard && hasFont) {
+    videoFilters.push(buildTitleCardFilter(title!, titleCard, height, brandKit));
+  }
+  if (overlays?.lowerThirds && hasFont) {
+    const lowerThirds = buildLowerThirds(scenesWithVideo, timings, timelineCaptionTiming?.lines);
+    if (lowerThirds.length > 0) videoFilters.push(buildLowerThirdFilter(lowerThirds, height, brandKit));
+  }
+  if (endCard) {
+    videoFilters.push(buildEndCardFilter(endCard, totalDuration, height, hasFont, brandKit));
+  }
+  const videoFilter = videoFilters.join(',');
+
+  // Images are extra video inputs, so with any of them the video chain becomes a labelled graph
+  const videoGraph = buildVideoGraph(videoFilter, imageLayers);
+  const hasVideoFilter = !!videoFilter || imageLayers.length > 0;
+
   // Build final FFmpeg command
   const outputArgs: string[] = [];
 
-  if (filterComplex || videoFilter) {
+  if (filterComplex || hasVideoFilter) {
     let fullFilter = '';
 
-    if (videoFilter && filterComplex) {
+    if (hasVideoFilter && filterComplex) {
       // Both video and audio filters
-      fullFilter = `[0:v]${videoFilter}[vout];${filterComplex}`;
+      fullFilter = `${videoGraph};${filterComplex}`;
       outputArgs.push('-filter_complex', fullFilter);
       outputArgs.push('-map', '[vout]');
       outputArgs.push('-map', audioMix);
+    } else if (imageLayers.length > 0) {
+      // Only video filters, but the images need a filter graph
+      outputArgs.push('-filter_complex', videoGraph);
+      outputArgs.push('-map', '[vout]');
+      outputArgs.push(...clipAudioMap);
     } else if (videoFilter) {
-      // Only video filter (captions)
+      // Only video filter (captions, overlays)
       outputArgs.push('-vf', videoFilter);
       outputArgs.push('-map', '0:v');
-      outputArgs.push('-map', '0:a?'); // Copy audio from video if exists
+      outputArgs.push(...clipAudioMap); // Copy audio from video if exists
     } else if (filterComplex) {
       // Only audio filter
       outputArgs.push('-filter_complex', filterComplex);
@@ -327,37 +1198,65 @@ export const composeAndExportVideo = async (
   } else {
     // No filters, just copy
     outputArgs.push('-c', 'copy');
+    if (subtitleInputIndex >= 0 || clipAudioMap.length === 0) {
+      // Explicit maps are needed once a subtitle input is added or clip audio is dropped
+      outputArgs.push('-map', '0:v');
+      outputArgs.push(...clipAudioMap);
+    }
+  }
+
+  if (subtitleInputIndex >= 0) {
+    outputArgs.push('-map', `${subtitleInputIndex}:s`);
+    outputArgs.push('-c:s', SUBTITLE_CODECS[exportPreset.container]);
   }
 
-  // Output settings
+  // Output settings from the export preset
+  const outputFile = `output.${exportPreset.container}`;
+  const containerArgs = exportPreset.container === 'webm' ? [] : ['-movflags', '+faststart'];
   outputArgs.push(
-    '-c:v', 'libx264',
-    '-preset', 'fast',
-    '-crf', '23',
-    '-c:a', 'aac',
-    '-b:a', '192k',
-    '-movflags', '+faststart',
+    ...exportPreset.videoArgs,
+    ...exportPreset.audioArgs,
+    ...containerArgs,
     '-y',
-    'output.mp4'
+    outputFile
   );
 
   // Execute final encoding
+  onProgress({ phase: 'encoding', message: "Encoding video..." });
   await ff.exec([...ffmpegArgs, ...outputArgs]);
 
+  // Normalize loudness to the requested target
+  let finalFile = outputFile;
+  if (loudness) {
+    const normalizedFile = `normalized.${exportPreset.container}`;
+    const result = await normalizeLoudness(ff, outputFile, normalizedFile, loudness.preset, [...exportPreset.audioArgs, ...containerArgs], onProgress);
+    if (result) {
+      finalFile = normalizedFile;
+      loudness.onMeasured?.(result);
+    }
+  }
+
   // Read output file
-  onProgress("Finalizing...");
-  const outputData = await ff.readFile('output.mp4');
+  onProgress({ phase: 'finalizing', message: "Finalizing..." });
+  const outputData = await ff.readFile(finalFile);
 
   // Clean up files
   const filesToDelete = [
-    'concat.txt',
     'concatenated.mp4',
-    'output.mp4',
-    ...videoFiles.map(v => v.name)
+    outputFile,
+    ...videoFiles.map(v => v.name),
+    ...editedSources,
+    ...stillSources,
+    ...paddedFiles
   ];
+  if (!reencodeJoin) filesToDelete.push('concat.txt');
   if (hasVoiceover) filesToDelete.push('voiceover.mp3');
   if (hasMusic) filesToDelete.push('music.mp3');
   if (hasFont) filesToDelete.push(FONT_FILE);
+  if (logoFile) filesToDelete.push(logoFile);
+  if (watermarkFile) filesToDelete.push(watermarkFile);
+  if (subtitleInputIndex >= 0) filesToDelete.push(SUBTITLE_FILE);
+  if (finalFile !== outputFile) filesToDelete.push(finalFile);
 
   for (const file of filesToDelete) {
     try {
@@ -368,5 +1267,5 @@ export const composeAndExportVideo = async (
   }
 
   // Return as Blob
-  return new Blob([outputData], { type: 'video/mp4' });
+  return new Blob([outputData], { type: EXPORT_MIME_TYPES[exportPreset.container] });
 };
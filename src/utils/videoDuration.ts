@@ -0,0 +1,33 @@
+// Give up on a clip whose metadata hasn't loaded by then
+const PROBE_TIMEOUT_MS = 15000;
+
+/**
+ * Read a video's real length from its metadata, without downloading the whole file.
+ * Resolves with null when the metadata can't be read (network error, timeout, no duration).
+ */
+export const probeVideoDuration = (url: string): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      video.removeAttribute('src');
+      resolve(duration);
+    };
+
+    const timer = setTimeout(() => finish(null), PROBE_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      const { duration } = video;
+      finish(Number.isFinite(duration) && duration > 0 ? Math.round(duration * 1000) / 1000 : null);
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+};
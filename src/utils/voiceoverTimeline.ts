@@ -0,0 +1,73 @@
+import { Scene, VoiceoverLine, VoiceoverSegment } from '@/types';
+import type { SceneTiming } from '@/utils/videoCompositor';
+
+// Narration is sped up by at most this factor to fit its scene; beyond that it is flagged instead
+export const MAX_VOICEOVER_TEMPO = 1.25;
+
+export interface VoiceoverPlacement extends VoiceoverSegment {
+  start: number; // timeline position in seconds
+  tempo: number; // atempo factor applied so the narration ends before the next scene (1 = unchanged)
+  overflow: number; // seconds the narration still runs past its scene after stretching
+}
+
+const roundTime = (t: number): number => Math.round(t * 1000) / 1000;
+
+/**
+ * Place each scene's narration segment at that scene's start on the export timeline.
+ * A scene's slot ends where the next scene starts, so transition overlaps shorten it.
+ * Segments for scenes not on the timeline (e.g. no video yet) are dropped.
+ */
+export const placeVoiceoverSegments = (
+  segments: VoiceoverSegment[],
+  scenes: Scene[],
+  timings: SceneTiming[]
+): VoiceoverPlacement[] => {
+  const placements: VoiceoverPlacement[] = [];
+
+  scenes.forEach((scene, index) => {
+    const segment = segments.find(s => s.sceneId === scene.id);
+    const timing = timings[index];
+    if (!segment || !timing || segment.duration <= 0) return;
+
+    const slot = index < timings.length - 1
+      ? timings[index + 1].start - timing.start
+      : timing.duration;
+    const tempo = segment.duration > slot
+      ? Math.min(segment.duration / slot, MAX_VOICEOVER_TEMPO)
+      : 1;
+    const overflow = Math.max(0, segment.duration / tempo - slot);
+
+    placements.push({
+      ...segment,
+      start: timing.start,
+      tempo: roundTime(tempo),
+      overflow: roundTime(overflow),
+    });
+  });
+
+  return placements;
+};
+
+/**
+ * Map line timings from the master audio onto the export timeline,
+ * following the placement (and any speed-up) of the scene each line belongs to
+ */
+export const alignVoiceoverLines = (
+  lines: VoiceoverLine[],
+  placements: VoiceoverPlacement[]
+): VoiceoverLine[] => {
+  const aligned: VoiceoverLine[] = [];
+
+  for (const line of lines) {
+    const placement = placements.find(p => p.sceneId === line.sceneId);
+    if (!placement) continue;
+
+    aligned.push({
+      ...line,
+      start: roundTime(placement.start + (line.start - placement.offset) / placement.tempo),
+      duration: roundTime(line.duration / placement.tempo),
+    });
+  }
+
+  return aligned;
+};
@@ -0,0 +1,32 @@
+import { composeAndExportVideo } from '@/utils/videoCompositor';
+import type { ExportWorkerRequest, ExportWorkerResponse } from '@/utils/exportWorkerClient';
+
+// Runs composeAndExportVideo off the UI thread. Cancelling terminates this worker (and FFmpeg's own worker with it).
+const ctx = self as unknown as Worker;
+
+const post = (message: ExportWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  const { scenes, videoUrls, masterAudioUrl, backgroundMusicUrl, options } = event.data;
+
+  try {
+    const blob = await composeAndExportVideo(
+      scenes,
+      videoUrls,
+      masterAudioUrl,
+      backgroundMusicUrl,
+      (progress) => post({ type: 'progress', progress }),
+      {
+        ...options,
+        // Callbacks can't cross the worker boundary, so measurements are posted back instead
+        loudness: options.loudness && {
+          preset: options.loudness.preset,
+          onMeasured: (result) => post({ type: 'loudness', result }),
+        },
+      }
+    );
+    post({ type: 'done', blob });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -3,25 +3,9 @@
  * Ensures only allowed domains can be proxied
  */
 
-describe('proxy-video allowlist', () => {
-  // Mirror the allowlist from src/app/api/proxy-video/route.ts
-  const allowedDomains = [
-    'video-studio.jarwater.com',
-    'kieai.erweima.ai',
-    'api.klingai.com',
-    'cdn.klingai.com',
-    'volces.com', // BytePlus/Seedance video storage
-  ];
-
-  function isAllowedDomain(url: string): boolean {
-    try {
-      const parsedUrl = new URL(url);
-      return allowedDomains.some(domain => parsedUrl.hostname.includes(domain));
-    } catch {
-      return false;
-    }
-  }
+import { isAllowedMediaUrl as isAllowedDomain } from '@/utils/mediaHosts';
 
+describe('proxy-video allowlist', () => {
   describe('R2 storage domain', () => {
     it('should allow video-studio.jarwater.com', () => {
       const url = 'https://video-studio.jarwater.com/byteplus/cgt-batch-123.mp4';
@@ -81,6 +65,15 @@ describe('proxy-video allowlist', () => {
       expect(isAllowedDomain(url)).toBe(false);
     });
 
+    it('should block hosts that only contain an allowed domain', () => {
+      expect(isAllowedDomain('https://volces.com.attacker.example/video.mp4')).toBe(false);
+      expect(isAllowedDomain('https://evilvolces.com/video.mp4')).toBe(false);
+    });
+
+    it('should block non-http protocols', () => {
+      expect(isAllowedDomain('file://video-studio.jarwater.com/etc/passwd')).toBe(false);
+    });
+
     it('should block malformed URLs', () => {
       const url = 'not-a-valid-url';
       expect(isAllowedDomain(url)).toBe(false);
@@ -0,0 +1,58 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { base64ToUint8Array, uploadToR2 } from '@/utils/r2';
+
+describe('r2', () => {
+  const originalEnv = process.env;
+
+  beforeAll(() => {
+    // jsdom has neither; the routes run on the edge runtime where both are global
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.defineProperty(global, 'TextEncoder', { value: TextEncoder, configurable: true });
+  });
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      CLOUDFLARE_ACCOUNT_ID: 'account',
+      CLOUDFLARE_R2_ACCESS_KEY_ID: 'key-id',
+      CLOUDFLARE_R2_SECRET_ACCESS_KEY: 'secret',
+    };
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, text: async () => '' });
+  });
+
+  // Bytes from Node's realm, which its Web Crypto accepts (jsdom's typed arrays are a different realm)
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should decode base64', () => {
+    expect(Array.from(base64ToUint8Array('AQID'))).toEqual([1, 2, 3]);
+  });
+
+  it('should PUT a signed request and return the public URL', async () => {
+    const url = await uploadToR2('renders/a.mp4', bytes('abc'), 'video/mp4');
+
+    expect(url).toBe('https://video-studio.jarwater.com/renders/a.mp4');
+    const [requestUrl, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(requestUrl).toBe('https://account.r2.cloudflarestorage.com/video-studio/renders/a.mp4');
+    expect(init.method).toBe('PUT');
+    expect(init.headers['content-type']).toBe('video/mp4');
+    expect(init.headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=key-id\/\d{8}\/auto\/s3\/aws4_request, SignedHeaders=content-length;content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/);
+  });
+
+  it('should fail without credentials', async () => {
+    delete process.env.CLOUDFLARE_ACCOUNT_ID;
+
+    await expect(uploadToR2('a.mp4', bytes(''), 'video/mp4')).rejects.toThrow('Cloudflare R2 credentials not configured');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should surface upload errors', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 403, text: async () => 'Denied' });
+
+    await expect(uploadToR2('a.mp4', bytes(''), 'video/mp4')).rejects.toThrow('R2 upload failed: 403 - Denied');
+  });
+});
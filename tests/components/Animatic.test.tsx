@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import Animatic from '@/components/Animatic';
+import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { Script } from '@/types';
+
+// Mock the videoCompositor
+jest.mock('@/utils/videoCompositor', () => ({
+  ...jest.requireActual('@/utils/videoCompositor'),
+  composeAndExportVideo: jest.fn().mockResolvedValue(new Blob(['video'], { type: 'video/mp4' })),
+}));
+
+describe('Animatic', () => {
+  const mockScript: Script = {
+    title: 'Test Video',
+    style: 'Cinematic',
+    scenes: [
+      {
+        id: 1,
+        timeRange: '00:00 - 00:04',
+        visualDescription: 'Scene 1 description',
+        audioDescription: 'Audio 1',
+        cameraShot: 'Wide',
+        voiceoverText: 'Hello',
+      },
+      {
+        id: 2,
+        timeRange: '00:04 - 00:08',
+        visualDescription: 'Scene 2 description',
+        audioDescription: 'Audio 2',
+        cameraShot: 'Medium',
+        voiceoverText: 'World',
+      },
+    ],
+  };
+
+  const mockFrames = [
+    'https://example.com/frame-1.png',
+    'https://example.com/frame-2.png',
+  ];
+
+  const defaultProps = {
+    script: mockScript,
+    frames: mockFrames,
+    masterAudioUrl: 'https://example.com/voiceover.mp3',
+    backgroundMusicUrl: null,
+    isGeneratingAudio: false,
+    isGeneratingMusic: false,
+    onGenerateAudio: jest.fn(),
+    onContinue: jest.fn(),
+    aspectRatio: '16:9' as const,
+    videoModel: 'seedance-1.5' as const,
+    voiceMode: 'tts' as const,
+    seedanceDuration: 8 as const,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should time each frame to the clip length', () => {
+    render(<Animatic {...defaultProps} />);
+
+    expect(screen.getByText(/Scene 2 • 8s–16s/)).toBeTruthy();
+  });
+
+  it('should ask for the voiceover before it can be played', () => {
+    const onGenerateAudio = jest.fn();
+    render(<Animatic {...defaultProps} masterAudioUrl={null} onGenerateAudio={onGenerateAudio} />);
+
+    expect(screen.queryByRole('button', { name: /play animatic/i })).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: /generate voiceover/i }));
+    expect(onGenerateAudio).toHaveBeenCalled();
+  });
+
+  it('should only offer music when the project has it turned on', () => {
+    const { rerender } = render(<Animatic {...defaultProps} />);
+    expect(screen.queryByRole('button', { name: /generate music/i })).toBeNull();
+
+    rerender(<Animatic {...defaultProps} onGenerateMusic={jest.fn()} />);
+    expect(screen.getByRole('button', { name: /generate music/i })).toBeTruthy();
+  });
+
+  it('should export every scene as a storyboard still under the voiceover', async () => {
+    render(<Animatic {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /download mp4/i }));
+
+    await waitFor(() => {
+      const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+      expect(args[1]).toEqual({});
+      expect(args[2]).toBe(defaultProps.masterAudioUrl);
+      expect(args[5].stillFrames).toEqual({ 1: mockFrames[0], 2: mockFrames[1] });
+      expect(args[5].clipDuration).toBe(8);
+    });
+  });
+});
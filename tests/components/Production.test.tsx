@@ -1,6 +1,8 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import Production from '@/components/Production';
+import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { uploadBrandAsset } from '@/utils/brandAssets';
 import { Script, Scene } from '@/types';
 
 // Mock @google/genai to prevent ESM import issues
@@ -26,6 +28,16 @@ jest.mock('@/services/geminiService', () => ({
 // Mock the videoCompositor
 jest.mock('@/utils/videoCompositor', () => ({
   composeAndExportVideo: jest.fn().mockResolvedValue(new Blob(['video'], { type: 'video/mp4' })),
+  buildSceneTimeline: jest.requireActual('@/utils/videoCompositor').buildSceneTimeline,
+  getCutScenes: jest.requireActual('@/utils/videoCompositor').getCutScenes,
+  getClipDuration: jest.requireActual('@/utils/videoCompositor').getClipDuration,
+  DEFAULT_MUSIC_DUCKING: jest.requireActual('@/utils/videoCompositor').DEFAULT_MUSIC_DUCKING,
+  DEFAULT_CLIP_AUDIO_GAIN: jest.requireActual('@/utils/videoCompositor').DEFAULT_CLIP_AUDIO_GAIN,
+  LOUDNESS_PRESETS: jest.requireActual('@/utils/videoCompositor').LOUDNESS_PRESETS,
+}));
+
+jest.mock('@/utils/brandAssets', () => ({
+  uploadBrandAsset: jest.fn().mockResolvedValue('https://video-studio.jarwater.com/brand/logo.png'),
 }));
 
 describe('Production', () => {
@@ -183,6 +195,142 @@ describe('Production', () => {
     expect(screen.getByText(/Scene 2 • Medium • 4s/)).toBeInTheDocument();
   });
 
+  it('should display the real clip length when it is known', () => {
+    render(<Production {...defaultProps} clipDurations={{ 1: 4.04 }} />);
+
+    expect(screen.getByText(/Scene 1 • Wide • 4.04s/)).toBeTruthy();
+    expect(screen.getByText(/Scene 2 • Medium • 4s/)).toBeTruthy();
+  });
+
+  it('should flag scenes whose narration does not fit the clip', () => {
+    // Seedance clips are 4s: scene 1 is sped up, scene 2 overflows even at the maximum tempo
+    const voiceoverSegments = [
+      { sceneId: 1, offset: 0, duration: 4.4 },
+      { sceneId: 2, offset: 4.4, duration: 6 },
+    ];
+
+    render(<Production {...defaultProps} voiceoverSegments={voiceoverSegments} />);
+
+    expect(screen.getByText('Narration sped up 10% to fit')).toBeTruthy();
+    expect(screen.getByText('Narration runs 0.8s past this scene')).toBeTruthy();
+  });
+
+  describe('Scene transitions', () => {
+    it('should not show transition controls without an update handler', () => {
+      render(<Production {...defaultProps} />);
+
+      expect(screen.queryByLabelText(/transition to next/i)).toBeNull();
+    });
+
+    it('should show a transition picker on every scene except the last', () => {
+      render(<Production {...defaultProps} onUpdateTransition={jest.fn()} />);
+
+      expect(screen.getAllByLabelText(/transition to next/i)).toHaveLength(1);
+    });
+
+    it('should call onUpdateTransition with the selected type and default duration', () => {
+      const onUpdateTransition = jest.fn();
+      render(<Production {...defaultProps} onUpdateTransition={onUpdateTransition} />);
+
+      fireEvent.change(screen.getByLabelText(/transition to next/i), { target: { value: 'crossfade' } });
+
+      expect(onUpdateTransition).toHaveBeenCalledWith(1, { type: 'crossfade', duration: 0.5 });
+    });
+
+    it('should let the duration be changed once a transition is set', () => {
+      const onUpdateTransition = jest.fn();
+      const scriptWithTransition: Script = {
+        ...mockScript,
+        scenes: [
+          { ...mockScript.scenes[0], transition: { type: 'wipe', duration: 0.5 } },
+          mockScript.scenes[1],
+        ],
+      };
+      render(<Production {...defaultProps} script={scriptWithTransition} onUpdateTransition={onUpdateTransition} />);
+
+      fireEvent.change(screen.getByLabelText(/transition duration for scene 1/i), { target: { value: '1' } });
+
+      expect(onUpdateTransition).toHaveBeenCalledWith(1, { type: 'wipe', duration: 1 });
+    });
+  });
+
+  describe('Clip trim and speed', () => {
+    const withVideos = { ...defaultProps, generatedVideos: { 1: 'blob:video1' } };
+
+    it('should only offer trim controls for generated clips', () => {
+      render(<Production {...withVideos} onUpdateClipEdit={jest.fn()} />);
+
+      expect(screen.getByLabelText('Trim in for scene 1')).toBeTruthy();
+      expect(screen.queryByLabelText('Trim in for scene 2')).toBeNull();
+    });
+
+    it('should save trim points on blur and speed on change', () => {
+      const onUpdateClipEdit = jest.fn();
+      render(<Production {...withVideos} onUpdateClipEdit={onUpdateClipEdit} />);
+
+      const trimOut = screen.getByLabelText('Trim out for scene 1');
+      fireEvent.change(trimOut, { target: { value: '3.5' } });
+      fireEvent.blur(trimOut);
+      fireEvent.change(screen.getByLabelText('Speed for scene 1'), { target: { value: '1.5' } });
+
+      expect(onUpdateClipEdit).toHaveBeenNthCalledWith(1, 1, { trimIn: 0, trimOut: 3.5, speed: 1 });
+      expect(onUpdateClipEdit).toHaveBeenNthCalledWith(2, 1, { trimIn: 0, speed: 1.5 });
+    });
+
+    it('should ignore a trim out before the trim in', () => {
+      const onUpdateClipEdit = jest.fn();
+      const script: Script = {
+        ...mockScript,
+        scenes: [{ ...mockScript.scenes[0], clipEdit: { trimIn: 2, speed: 1 } }, mockScript.scenes[1]],
+      };
+      render(<Production {...withVideos} script={script} onUpdateClipEdit={onUpdateClipEdit} />);
+
+      const trimOut = screen.getByLabelText('Trim out for scene 1');
+      fireEvent.change(trimOut, { target: { value: '1' } });
+      fireEvent.blur(trimOut);
+
+      expect(onUpdateClipEdit).not.toHaveBeenCalled();
+    });
+
+    it('should show the edited clip length', () => {
+      const script: Script = {
+        ...mockScript,
+        scenes: [{ ...mockScript.scenes[0], clipEdit: { trimIn: 1, speed: 2 } }, mockScript.scenes[1]],
+      };
+      render(<Production {...withVideos} script={script} />);
+
+      expect(screen.getByText(/Scene 1 • Wide • 1.5s/)).toBeTruthy();
+    });
+  });
+
+  describe('Storyboard stills', () => {
+    const partlyReady = {
+      ...defaultProps,
+      generatedVideos: { 1: 'blob:video1' },
+      masterAudioUrl: 'data:audio/mp3;base64,audio',
+    };
+
+    it('should only offer stills while a clip is missing', () => {
+      const { rerender } = render(<Production {...partlyReady} />);
+      expect(screen.getByRole('checkbox', { name: /storyboard frames/i })).toBeTruthy();
+
+      rerender(<Production {...partlyReady} generatedVideos={{ 1: 'blob:video1', 2: 'blob:video2' }} />);
+      expect(screen.queryByRole('checkbox', { name: /storyboard frames/i })).toBeNull();
+    });
+
+    it('should pass the missing scenes\' frames to the compositor', async () => {
+      render(<Production {...partlyReady} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /storyboard frames/i }));
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+        expect(args[5].stillFrames).toEqual({ 2: mockFrames[1] });
+      });
+    });
+  });
+
   describe('Export functionality', () => {
     it('should trigger export when download button is clicked', async () => {
       const { composeAndExportVideo } = require('@/utils/videoCompositor');
@@ -201,5 +349,340 @@ describe('Production', () => {
         expect(composeAndExportVideo).toHaveBeenCalled();
       });
     });
+
+    it('should download an SRT sidecar file', () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('button', { name: '.srt' }));
+
+      const blob = (URL.createObjectURL as jest.Mock).mock.calls[0][0] as Blob;
+      expect(blob.type).toBe('application/x-subrip');
+    });
+
+    it('should pass the subtitle track option to the compositor', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /captions/i }));
+      fireEvent.change(screen.getByLabelText(/caption style/i), { target: { value: 'soft' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+        expect(args[5].captions).toBe('soft');
+      });
+    });
+
+    it('should export Hindi captions as a subtitle track', async () => {
+      render(<Production
+        {...defaultProps}
+        generatedVideos={{ 1: 'blob:video1', 2: 'blob:video2' }}
+        masterAudioUrl="data:audio/mp3;base64,audio"
+        language="hindi"
+      />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /captions/i }));
+      expect(screen.getByRole('option', { name: /burned in/i })).toHaveProperty('disabled', true);
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].captions).toBe('soft');
+      });
+    });
+
+    it('should pass the music level and duck depth to the compositor', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+        backgroundMusicUrl: 'https://example.com/music.mp3',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.change(screen.getByLabelText(/music level/i), { target: { value: '0.3' } });
+      fireEvent.change(screen.getByLabelText(/duck music under voice/i), { target: { value: '-18' } });
+      fireEvent.click(screen.getByRole('button', { name: /with music/i }));
+
+      await waitFor(() => {
+        const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+        expect(args[5].musicDucking).toEqual({ baseVolume: 0.3, duckDb: -18 });
+      });
+    });
+
+    it('should export the mix as it is unless a loudness target is chosen', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      expect((screen.getByLabelText(/loudness/i) as HTMLSelectElement).value).toBe('off');
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect(composeAndExportVideo).toHaveBeenCalled();
+      });
+      expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].loudness).toBeUndefined();
+    });
+
+    it('should normalize to the chosen loudness target and show the measured values', async () => {
+      (composeAndExportVideo as jest.Mock).mockImplementationOnce(async (...args: unknown[]) => {
+        const loudness = (args[5] as { loudness: unknown }).loudness as { preset: string; onMeasured: (result: unknown) => void };
+        loudness.onMeasured({
+          preset: loudness.preset,
+          input: { integrated: -30.04, truePeak: -9.5, lra: 4.2 },
+          output: { integrated: -23, truePeak: -2.1, lra: 4 },
+        });
+        return new Blob(['video'], { type: 'video/mp4' });
+      });
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.change(screen.getByLabelText(/loudness/i), { target: { value: 'broadcast' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/measured -30\.0 LUFS/)).toBeTruthy();
+      });
+      expect(screen.getByText(/exported -23\.0 LUFS/)).toBeTruthy();
+    });
+
+    it('should pass the clip audio gain to the compositor', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      expect((screen.getByLabelText(/clip audio level/i) as HTMLSelectElement).value).toBe('0.4');
+      fireEvent.change(screen.getByLabelText(/clip audio level/i), { target: { value: '0.7' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].clipAudioGain).toBe(0.7);
+      });
+    });
+
+    it('should keep clip audio at full level in speech-in-video mode', () => {
+      render(<Production {...defaultProps} voiceMode="speech_in_video" generatedVideos={{ 1: 'blob:video1' }} />);
+
+      expect((screen.getByLabelText(/clip audio level/i) as HTMLSelectElement).value).toBe('1');
+    });
+
+    it('should pass phrase-chunked line timings to the compositor', async () => {
+      const voiceoverLines = [{ sceneId: 1, speaker: 'narrator', text: 'Hello there', start: 0, duration: 1.5 }];
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+        voiceoverLines,
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /captions/i }));
+      fireEvent.change(screen.getByLabelText(/caption timing/i), { target: { value: 'phrases' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+        expect(args[5].captionTiming).toEqual({ lines: voiceoverLines, maxWordsPerCue: 5 });
+      });
+    });
+
+    it('should pass the burned caption layout to the export', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        aspectRatio: '9:16' as const,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /captions/i }));
+      // Vertical exports start inside the social safe area
+      expect((screen.getByRole('checkbox', { name: /social safe area/i }) as HTMLInputElement).checked).toBe(true);
+      fireEvent.change(screen.getByLabelText(/caption lines/i), { target: { value: '3' } });
+      fireEvent.change(screen.getByLabelText(/caption width/i), { target: { value: '0.6' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].captionLayout).toEqual({
+          maxLines: 3,
+          maxWidth: 0.6,
+          socialSafeArea: true,
+        });
+      });
+    });
+
+    it('should cancel a running export without reporting a failure', async () => {
+      (composeAndExportVideo as jest.Mock).mockImplementationOnce((...args: unknown[]) => {
+        const { signal } = args[5] as { signal: AbortSignal };
+        return new Promise((_, reject) => {
+          signal.addEventListener('abort', () => reject(new DOMException('Export cancelled', 'AbortError')));
+        });
+      });
+      const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+      fireEvent.click(await screen.findByRole('button', { name: /cancel export/i }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /download/i })).toBeTruthy();
+      });
+      expect(alertSpy).not.toHaveBeenCalled();
+      alertSpy.mockRestore();
+    });
+
+    it('should export with the chosen preset and name the file after its container', async () => {
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+      };
+      const clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toMatch(/\.webm$/);
+      });
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.change(screen.getByLabelText(/export preset/i), { target: { value: 'webm_vp9' } });
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].preset).toBe('webm_vp9');
+        expect(clickSpy).toHaveBeenCalled();
+      });
+      clickSpy.mockRestore();
+    });
+
+    it('should apply the saved brand kit to every export', async () => {
+      const brandKit = {
+        logoPosition: 'top_left' as const,
+        logoOpacity: 0.6,
+        textColor: '#FFEE00',
+        accentColor: '#FFFFFF',
+        boxColor: '#000000',
+        captionStyle: 'box' as const,
+        safeAreaMargin: 0.06,
+      };
+      const onSaveBrandKit = jest.fn();
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+        brandKit,
+        onSaveBrandKit,
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /brand kit/i }));
+      fireEvent.change(screen.getByLabelText(/text colour/i), { target: { value: '#00ff00' } });
+      fireEvent.click(screen.getByRole('button', { name: /save brand kit/i }));
+      await waitFor(() => {
+        expect(onSaveBrandKit).toHaveBeenCalledWith(expect.objectContaining({ textColor: '#00ff00', captionStyle: 'box' }));
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        expect((composeAndExportVideo as jest.Mock).mock.calls[0][5].brandKit).toEqual(brandKit);
+      });
+    });
+
+    it('should save the end card and pass the overlays to the compositor', async () => {
+      const onUpdateOverlays = jest.fn();
+      const propsWithAllReady = {
+        ...defaultProps,
+        generatedVideos: { 1: 'blob:video1', 2: 'blob:video2' },
+        masterAudioUrl: 'data:audio/mp3;base64,audio',
+        overlays: { lowerThirds: true },
+        onUpdateOverlays,
+      };
+
+      render(<Production {...propsWithAllReady} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /end card/i }));
+      expect(onUpdateOverlays).toHaveBeenLastCalledWith({ lowerThirds: true, endCard: { enabled: true, duration: 4 } });
+
+      const cta = screen.getByLabelText(/end card call to action/i);
+      fireEvent.change(cta, { target: { value: 'Try it free' } });
+      expect(onUpdateOverlays).toHaveBeenCalledTimes(1);
+      fireEvent.blur(cta);
+      expect(onUpdateOverlays).toHaveBeenLastCalledWith({
+        lowerThirds: true,
+        endCard: { enabled: true, duration: 4, callToAction: 'Try it free' },
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+      await waitFor(() => {
+        const args = (composeAndExportVideo as jest.Mock).mock.calls[0];
+        expect(args[5].title).toBe(defaultProps.script.title);
+        expect(args[5].overlays.endCard.callToAction).toBe('Try it free');
+      });
+    });
+
+    it('should upload the end card logo to R2', async () => {
+      const onUpdateOverlays = jest.fn();
+      render(<Production
+        {...defaultProps}
+        generatedVideos={{ 1: 'blob:video1', 2: 'blob:video2' }}
+        masterAudioUrl="data:audio/mp3;base64,audio"
+        overlays={{ endCard: { enabled: true, duration: 4 } }}
+        onUpdateOverlays={onUpdateOverlays}
+      />);
+
+      const file = new File(['logo'], 'logo.png', { type: 'image/png' });
+      fireEvent.change(screen.getByLabelText(/end card logo file/i), { target: { files: [file] } });
+
+      await waitFor(() => {
+        expect(uploadBrandAsset).toHaveBeenCalledWith(file);
+        expect(onUpdateOverlays).toHaveBeenLastCalledWith({
+          endCard: { enabled: true, duration: 4, logoUrl: 'https://video-studio.jarwater.com/brand/logo.png' },
+        });
+      });
+    });
+
+    it('should flag an end card logo the export cannot fetch', () => {
+      render(<Production
+        {...defaultProps}
+        generatedVideos={{ 1: 'blob:video1', 2: 'blob:video2' }}
+        masterAudioUrl="data:audio/mp3;base64,audio"
+        overlays={{ endCard: { enabled: true, duration: 4, logoUrl: 'https://example.com/logo.png' } }}
+      />);
+
+      expect(screen.queryByText(/can't be exported from its host/i)).not.toBeNull();
+    });
   });
 });
@@ -0,0 +1,147 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ScriptEditor from '@/components/ScriptEditor';
+import { Script } from '@/types';
+
+describe('ScriptEditor', () => {
+  const mockScript: Script = {
+    title: 'Test Video',
+    style: 'Cinematic',
+    scenes: [
+      {
+        id: 1,
+        timeRange: '00:00 - 00:04',
+        visualDescription: 'A quiet harbour',
+        audioDescription: 'Gulls',
+        cameraShot: 'Wide',
+        voiceoverText: 'It began at dawn. Nobody noticed.',
+      },
+      {
+        id: 2,
+        timeRange: '00:04 - 00:08',
+        visualDescription: 'A boat leaves',
+        audioDescription: 'Engine',
+        cameraShot: 'Medium',
+        voiceoverText: 'Then the boat left.',
+        dialogue: [
+          { speaker: 'Ana', text: 'Wait!' },
+          { speaker: 'Ben', text: 'Too late.' },
+        ],
+      },
+    ],
+  };
+
+  const renderEditor = (overrides = {}) => {
+    const props = {
+      script: mockScript,
+      onUpdateScene: jest.fn(),
+      onInsertScene: jest.fn(),
+      onDeleteScene: jest.fn(),
+      onSplitScene: jest.fn(),
+      onMergeScene: jest.fn(),
+      ...overrides,
+    };
+    render(<ScriptEditor {...props} />);
+    return props;
+  };
+
+  it('should save an edited field on blur', () => {
+    const { onUpdateScene } = renderEditor();
+    const scene = within(screen.getByTestId('script-scene-1'));
+
+    const field = scene.getByLabelText('Visual');
+    fireEvent.blur(field, { target: { value: 'A stormy harbour ' } });
+
+    expect(onUpdateScene).toHaveBeenCalledWith(1, { visualDescription: 'A stormy harbour' });
+  });
+
+  it('should not save a field that did not change', () => {
+    const { onUpdateScene } = renderEditor();
+
+    fireEvent.blur(within(screen.getByTestId('script-scene-1')).getByLabelText('Camera'));
+
+    expect(onUpdateScene).not.toHaveBeenCalled();
+  });
+
+  it('should save a dialogue line as the whole dialogue', () => {
+    const { onUpdateScene } = renderEditor();
+
+    fireEvent.blur(screen.getByLabelText('Dialogue 2 • Ben'), { target: { value: 'Just in time.' } });
+
+    expect(onUpdateScene).toHaveBeenCalledWith(2, {
+      dialogue: [
+        { speaker: 'Ana', text: 'Wait!' },
+        { speaker: 'Ben', text: 'Just in time.' },
+      ],
+    });
+  });
+
+  it('should split a scene at a sentence break', () => {
+    const { onSplitScene } = renderEditor();
+
+    fireEvent.click(within(screen.getByTestId('script-scene-1')).getByRole('button', { name: 'Split' }));
+
+    expect(onSplitScene).toHaveBeenCalledWith(1, 'It began at dawn. '.length);
+  });
+
+  it('should only merge scenes that have a scene after them', () => {
+    const { onMergeScene } = renderEditor();
+
+    fireEvent.click(within(screen.getByTestId('script-scene-1')).getByRole('button', { name: 'Merge with next' }));
+    expect(onMergeScene).toHaveBeenCalledWith(1);
+
+    const lastMerge = within(screen.getByTestId('script-scene-2')).getByRole('button', { name: 'Merge with next' });
+    expect((lastMerge as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should insert scenes between existing ones', () => {
+    const { onInsertScene } = renderEditor();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add scene at position 2' }));
+
+    expect(onInsertScene).toHaveBeenCalledWith(1);
+  });
+
+  it('should ask for confirmation before deleting a scene', () => {
+    const { onDeleteScene } = renderEditor();
+    const scene = within(screen.getByTestId('script-scene-2'));
+
+    fireEvent.click(scene.getByRole('button', { name: 'Delete' }));
+    expect(onDeleteScene).not.toHaveBeenCalled();
+
+    fireEvent.click(scene.getByRole('button', { name: 'Confirm delete' }));
+    expect(onDeleteScene).toHaveBeenCalledWith(2);
+  });
+
+  it('should rewrite a scene with an instruction', () => {
+    const onRegenerateScene = jest.fn();
+    renderEditor({ onRegenerateScene });
+    const scene = within(screen.getByTestId('script-scene-2'));
+
+    fireEvent.click(scene.getByRole('button', { name: 'Rewrite' }));
+    fireEvent.change(scene.getByLabelText('Rewrite instruction'), { target: { value: ' Make it night ' } });
+    fireEvent.click(scene.getByRole('button', { name: 'Rewrite scene' }));
+
+    expect(onRegenerateScene).toHaveBeenCalledWith(2, 'Make it night');
+  });
+
+  it('should lock a scene while it is being rewritten', () => {
+    renderEditor({ onRegenerateScene: jest.fn(), regeneratingSceneId: 1 });
+    const scene = within(screen.getByTestId('script-scene-1'));
+
+    expect((scene.getByRole('button', { name: 'Rewriting...' }) as HTMLButtonElement).disabled).toBe(true);
+    expect((scene.getByLabelText('Voiceover') as HTMLTextAreaElement).disabled).toBe(true);
+  });
+
+  it('should show lint warnings on their scenes', () => {
+    renderEditor({
+      warnings: [
+        { sceneId: 2, kind: 'speaker_off_screen', message: 'Ben speaks but isn\'t in the start frame' },
+      ],
+    });
+
+    expect(screen.getByText('• 1 warning')).toBeTruthy();
+    expect(within(screen.getByTestId('script-scene-2')).getByText('Ben speaks but isn\'t in the start frame')).toBeTruthy();
+    expect(within(screen.getByTestId('script-scene-1')).queryByRole('list')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ScriptVersions from '@/components/ScriptVersions';
+import { Scene, ScriptVersion } from '@/types';
+
+describe('ScriptVersions', () => {
+  const scene = (id: number, voiceoverText: string): Scene => ({
+    id,
+    timeRange: '00:00 - 00:04',
+    visualDescription: `Visual ${id}`,
+    audioDescription: 'Wind',
+    cameraShot: 'Wide',
+    voiceoverText,
+  });
+
+  const versions: ScriptVersion[] = [
+    {
+      id: 'script-1',
+      number: 1,
+      title: 'First Draft',
+      style: 'Cinematic',
+      prompt: 'A lighthouse keeper',
+      settings: { aspectRatio: '16:9', videoModel: 'veo-3.1', enableCuts: true },
+      sceneCount: 2,
+      createdAt: 1,
+      isActive: false,
+    },
+    {
+      id: 'script-2',
+      number: 2,
+      title: 'Second Draft',
+      style: 'Cinematic',
+      sceneCount: 1,
+      createdAt: 2,
+      isActive: true,
+    },
+  ];
+
+  const defaultProps = {
+    versions,
+    activeScenes: [scene(1, 'The storm came.')],
+    comparedVersionId: null,
+    onCompare: jest.fn(),
+    onRestore: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list versions newest first with what produced them', () => {
+    render(<ScriptVersions {...defaultProps} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0].textContent).toContain('v2 • Second Draft');
+    expect(items[0].textContent).toContain('Active');
+    expect(items[1].textContent).toContain('A lighthouse keeper');
+    expect(items[1].textContent).toContain('veo-3.1 • 16:9');
+  });
+
+  it('should mark versions copied from another to be edited', () => {
+    render(<ScriptVersions {...defaultProps} versions={[versions[0], { ...versions[1], editedFrom: 1 }]} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0].textContent).toContain('edited from v1');
+    expect(items[1].textContent).not.toContain('edited from');
+  });
+
+  it('should only offer to restore inactive versions', () => {
+    const onRestore = jest.fn();
+    render(<ScriptVersions {...defaultProps} onRestore={onRestore} />);
+
+    expect(within(screen.getByTestId('script-version-2')).queryByRole('button', { name: 'Restore' })).toBeNull();
+    fireEvent.click(within(screen.getByTestId('script-version-1')).getByRole('button', { name: 'Restore' }));
+
+    expect(onRestore).toHaveBeenCalledWith('script-1');
+  });
+
+  it('should show scene changes against the active version', () => {
+    const onCompare = jest.fn();
+    render(
+      <ScriptVersions
+        {...defaultProps}
+        onCompare={onCompare}
+        comparedVersionId="script-1"
+        comparedScenes={[scene(1, 'It was calm.'), scene(2, 'Then the boat left.')]}
+      />
+    );
+
+    expect(screen.getByText('Changes from v1 to the active version')).toBeTruthy();
+    expect(screen.getByText('It was calm.')).toBeTruthy();
+    expect(screen.getByText('The storm came.')).toBeTruthy();
+    expect(screen.getByText('removed')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hide changes' }));
+    expect(onCompare).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,101 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import Timeline from '@/components/Timeline';
+import { Scene } from '@/types';
+
+describe('Timeline', () => {
+  const mockScenes: Scene[] = [1, 2, 3].map(id => ({
+    id,
+    timeRange: `00:0${(id - 1) * 4} - 00:0${id * 4}`,
+    visualDescription: `Scene ${id} description`,
+    audioDescription: `Audio ${id}`,
+    cameraShot: 'Wide',
+    voiceoverText: `Line ${id}`,
+  }));
+
+  const defaultProps = {
+    scenes: mockScenes,
+    frames: ['frame-1.png', 'frame-2.png', 'frame-3.png'],
+    videoUrls: { 1: 'clip-1.mp4', 2: 'clip-2.mp4', 3: 'clip-3.mp4' },
+    clipDuration: 4,
+    voiceoverSegments: [1, 2, 3].map(sceneId => ({ sceneId, offset: (sceneId - 1) * 3, duration: 3 })),
+    hasVoiceover: true,
+    hasMusic: false,
+  };
+
+  it('should size clips by their real and edited length', () => {
+    const scenes = [mockScenes[0], { ...mockScenes[1], clipEdit: { trimIn: 0, speed: 2 } }, mockScenes[2]];
+    render(<Timeline {...defaultProps} scenes={scenes} clipDurations={{ 1: 6 }} />);
+
+    expect(screen.getByTestId('timeline-scene-1').style.width).toBe('120px');
+    expect(screen.getByTestId('timeline-scene-2').style.width).toBe('40px');
+    expect(screen.getByTestId('timeline-scene-3').style.left).toBe('160px');
+    expect(screen.getByText('12.0s')).toBeTruthy();
+  });
+
+  it('should move a scene with its arrow buttons', () => {
+    const onReorder = jest.fn();
+    render(<Timeline {...defaultProps} onReorder={onReorder} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move scene 1 later' }));
+
+    expect(onReorder).toHaveBeenCalledWith([2, 1, 3]);
+    expect((screen.getByRole('button', { name: 'Move scene 1 earlier' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should reorder scenes by drag and drop', () => {
+    const onReorder = jest.fn();
+    render(<Timeline {...defaultProps} onReorder={onReorder} />);
+
+    fireEvent.dragStart(screen.getByTestId('timeline-scene-3'));
+    fireEvent.drop(screen.getByTestId('timeline-scene-1'));
+
+    expect(onReorder).toHaveBeenCalledWith([3, 1, 2]);
+  });
+
+  it('should leave scenes without a clip out of the cut and keep their place when reordering', () => {
+    const onReorder = jest.fn();
+    render(<Timeline {...defaultProps} videoUrls={{ 1: 'clip-1.mp4', 3: 'clip-3.mp4' }} onReorder={onReorder} />);
+
+    expect(screen.queryByTestId('timeline-scene-2')).toBeNull();
+    expect(screen.getByTestId('timeline-scene-3').style.left).toBe('80px');
+    expect(screen.getByTestId('timeline-scene-3').style.backgroundImage).toContain('frame-3.png');
+    expect(screen.getByText('1 scene has no clip yet and is left out of the cut')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move scene 3 earlier' }));
+
+    expect(onReorder).toHaveBeenCalledWith([3, 1, 2]);
+  });
+
+  it('should lay out storyboard stills standing in for missing clips', () => {
+    render(<Timeline {...defaultProps} videoUrls={{ 1: 'clip-1.mp4' }} stillFrames={{ 2: 'frame-2.png' }} />);
+
+    expect(screen.getByTestId('timeline-scene-2')).toBeTruthy();
+    expect(screen.queryByTestId('timeline-scene-3')).toBeNull();
+  });
+
+  it('should block reordering while the voiceover is one continuous track', () => {
+    const onReorder = jest.fn();
+    render(<Timeline {...defaultProps} voiceoverSegments={undefined} onReorder={onReorder} />);
+
+    expect(screen.queryByRole('button', { name: /move scene/i })).toBeNull();
+    expect(screen.getByTestId('timeline-scene-1').getAttribute('draggable')).toBe('false');
+    expect(screen.getByText(/scenes can't be reordered here/)).toBeTruthy();
+    expect(screen.getByText('Continuous narration')).toBeTruthy();
+  });
+
+  it('should not offer reordering without a handler', () => {
+    render(<Timeline {...defaultProps} />);
+
+    expect(screen.queryByRole('button', { name: /move scene/i })).toBeNull();
+    expect(screen.getByTestId('timeline-scene-1').getAttribute('draggable')).toBe('false');
+  });
+
+  it('should show the audio and caption lanes', () => {
+    render(<Timeline {...defaultProps} hasVoiceover={false} />);
+
+    expect(screen.getByText('No voiceover')).toBeTruthy();
+    expect(screen.getByText('No music')).toBeTruthy();
+    expect(screen.getByText('Line 2')).toBeTruthy();
+  });
+});
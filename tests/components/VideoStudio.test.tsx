@@ -134,7 +134,7 @@ describe('VideoStudio', () => {
         scenes: [{ id: 1, timeRange: '00:00 - 00:05', visualDescription: 'Test', audioDescription: 'Test', cameraShot: 'Wide', voiceoverText: 'Test' }],
       };
 
-      generateScript.mockResolvedValue(mockScript);
+      generateScript.mockResolvedValue({ script: mockScript, violations: [] });
       // generateStoryboard now returns {imageDataUrl, seed}
       generateStoryboard.mockResolvedValue({ imageDataUrl: 'data:image/png;base64,storyboard', seed: 12345 });
 
@@ -158,7 +158,7 @@ describe('VideoStudio', () => {
         scenes: [{ id: 1, timeRange: '00:00 - 00:05', visualDescription: 'Test', audioDescription: 'Test', cameraShot: 'Wide', voiceoverText: 'Test' }],
       };
 
-      generateScript.mockResolvedValue(mockScript);
+      generateScript.mockResolvedValue({ script: mockScript, violations: [] });
       // generateStoryboard now returns {imageDataUrl, seed}
       generateStoryboard.mockResolvedValue({ imageDataUrl: 'data:image/png;base64,storyboard', seed: 12345 });
       sliceGridImage.mockResolvedValue(['frame1', 'frame2', 'frame3', 'frame4', 'frame5', 'frame6', 'frame7', 'frame8', 'frame9']);
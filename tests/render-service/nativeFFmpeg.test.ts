@@ -0,0 +1,63 @@
+/**
+ * Tests for the native FFmpeg engine used by the render service
+ */
+
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createNativeFFmpeg, NativeFFmpeg } from '@/render-service/nativeFFmpeg';
+
+describe('createNativeFFmpeg', () => {
+  let binDir: string;
+  let fakeBinary: string;
+  let engine: NativeFFmpeg;
+
+  beforeAll(async () => {
+    binDir = await mkdtemp(path.join(os.tmpdir(), 'fake-ffmpeg-'));
+    fakeBinary = path.join(binDir, 'ffmpeg');
+    // Stands in for ffmpeg: echoes its arguments to stderr and exits with the last one
+    await writeFile(fakeBinary, '#!/bin/sh\necho "args: $*" >&2\nprintf "no newline" >&2\nfor last; do :; done\nexit "$last"\n');
+    await chmod(fakeBinary, 0o755);
+  });
+
+  afterAll(async () => {
+    await rm(binDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    engine = await createNativeFFmpeg(fakeBinary);
+  });
+
+  afterEach(async () => {
+    await engine.dispose();
+  });
+
+  it('runs non-interactively and resolves with the exit code', async () => {
+    const messages: string[] = [];
+    engine.on('log', ({ message }) => messages.push(message));
+
+    const code = await engine.exec(['-i', 'input.mp4', '3']);
+
+    expect(code).toBe(3);
+    expect(messages).toEqual(['args: -nostdin -y -i input.mp4 3', 'no newline']);
+  });
+
+  it('round-trips files through its work directory', async () => {
+    await engine.writeFile('clip.bin', new Uint8Array([1, 2, 3]));
+    expect(Array.from(await engine.readFile('clip.bin'))).toEqual([1, 2, 3]);
+
+    await engine.deleteFile('clip.bin');
+    await expect(engine.readFile('clip.bin')).rejects.toThrow();
+  });
+
+  it('keeps file names inside the work directory', async () => {
+    await engine.writeFile('../../escape.bin', new Uint8Array([9]));
+    expect(Array.from(await engine.readFile('escape.bin'))).toEqual([9]);
+  });
+
+  it('rejects when the binary cannot be started', async () => {
+    const missing = await createNativeFFmpeg(path.join(binDir, 'missing'));
+    await expect(missing.exec(['0'])).rejects.toThrow();
+    await missing.dispose();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for the render service's input mapping and media fetching
+ */
+
+import { createMediaFetcher, toRenderInputs } from '@/render-service/renderJob';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+
+describe('toRenderInputs', () => {
+  const scene = (n: number, overrides: Partial<Doc<'scenes'>> = {}) => ({
+    _id: `scene-${n}` as Id<'scenes'>,
+    sceneNumber: n,
+    timeRange: '00:00 - 00:04',
+    visualDescription: `Visual ${n}`,
+    voiceoverText: `Line ${n}`,
+    ...overrides,
+  }) as Doc<'scenes'>;
+
+  it('should key completed videos by scene number', () => {
+    const inputs = toRenderInputs({
+      scenes: [scene(1), scene(2, { transitionType: 'crossfade', dialogue: '[{"speaker":"Ana","text":"Hi"}]' })],
+      videos: [
+        { sceneId: 'scene-2', status: 'completed', videoUrl: 'https://video-studio.jarwater.com/b.mp4' },
+        { sceneId: 'scene-1', status: 'pending' },
+        { sceneId: 'scene-old', status: 'completed', videoUrl: 'https://video-studio.jarwater.com/old.mp4' },
+      ] as Doc<'videos'>[],
+      audioTracks: [
+        { type: 'music', audioUrl: 'https://video-studio.jarwater.com/music.mp3' },
+        { type: 'voiceover', audioUrl: 'https://video-studio.jarwater.com/vo.wav' },
+      ] as Doc<'audioTracks'>[],
+    });
+
+    expect(inputs.videoUrls).toEqual({ 2: 'https://video-studio.jarwater.com/b.mp4' });
+    expect(inputs.scenes[1].transition).toEqual({ type: 'crossfade', duration: 0.5 });
+    expect(inputs.scenes[1].dialogue).toEqual([{ speaker: 'Ana', text: 'Hi' }]);
+    expect(inputs.masterAudioUrl).toBe('https://video-studio.jarwater.com/vo.wav');
+    expect(inputs.backgroundMusicUrl).toBe('https://video-studio.jarwater.com/music.mp3');
+  });
+
+  it('should keep each scene\'s trim and speed', () => {
+    const inputs = toRenderInputs({
+      scenes: [scene(1, { trimIn: 1, trimOut: 3.5, speed: 1.5 }), scene(2)],
+      videos: [],
+      audioTracks: [],
+    });
+
+    expect(inputs.scenes[0].clipEdit).toEqual({ trimIn: 1, trimOut: 3.5, speed: 1.5 });
+    expect(inputs.scenes[1].clipEdit).toBeUndefined();
+  });
+});
+
+describe('createMediaFetcher', () => {
+  const fetchFile = createMediaFetcher('https://app.example.com');
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new Uint8Array([1, 2]).buffer });
+  });
+
+  const fetchedUrl = () => String((global.fetch as jest.Mock).mock.calls[0][0]);
+
+  it('should fetch allowed media hosts directly', async () => {
+    await expect(fetchFile('https://video-studio.jarwater.com/audio/vo.wav')).resolves.toEqual(new Uint8Array([1, 2]));
+    expect(fetchedUrl()).toBe('https://video-studio.jarwater.com/audio/vo.wav');
+    expect((global.fetch as jest.Mock).mock.calls[0][1]).toEqual({ redirect: 'error' });
+  });
+
+  it('should unwrap proxy-video paths and fetch their target directly', async () => {
+    await fetchFile(`/api/proxy-video?url=${encodeURIComponent('https://cdn.klingai.com/v.mp4')}`);
+    expect(fetchedUrl()).toBe('https://cdn.klingai.com/v.mp4');
+  });
+
+  it('should send other same-origin paths to the app', async () => {
+    await fetchFile('/api/proxy-font?script=latin');
+    expect(fetchedUrl()).toBe('https://app.example.com/api/proxy-font?script=latin');
+  });
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data',
+    'http://localhost:8787/renders',
+    `/api/proxy-video?url=${encodeURIComponent('http://10.0.0.1/internal')}`,
+    '//internal.example/secret',
+  ])('should refuse %s', async (url) => {
+    await expect(fetchFile(url)).rejects.toThrow('Media host not allowed');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should surface failed downloads', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 });
+    await expect(fetchFile('https://video-studio.jarwater.com/missing.mp4')).rejects.toThrow('Failed to fetch https://video-studio.jarwater.com/missing.mp4: 404');
+  });
+});
@@ -1,4 +1,5 @@
-import { setApiKey, getApiKey, generateScript, generateStoryboard, generateVideoForScene, generateMasterAudio } from '@/services/geminiService';
+import { GoogleGenAI } from '@google/genai';
+import { setApiKey, getApiKey, generateScript, regenerateScene, generateStoryboard, generateVideoForScene, generateMasterAudio, generateMasterAudioWithTimings } from '@/services/geminiService';
 import { Scene, Script } from '@/types';
 
 // Mock the @google/genai module
@@ -78,19 +79,22 @@ describe('geminiService', () => {
   });
 
   describe('generateScript', () => {
+    const formatTime = (seconds: number) =>
+      `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+
+    // A valid script for the defaults: 9 Veo scenes of 8 seconds with one narrator
     const mockScript: Script = {
       title: 'Test Video',
       style: 'Cinematic',
-      scenes: [
-        {
-          id: 1,
-          timeRange: '00:00 - 00:07',
-          visualDescription: 'Opening scene',
-          audioDescription: 'Ambient sounds',
-          cameraShot: 'Wide',
-          voiceoverText: 'Welcome',
-        },
-      ],
+      narratorVoice: 'Zephyr',
+      scenes: Array.from({ length: 9 }, (_, i) => ({
+        id: i + 1,
+        timeRange: `${formatTime(i * 8)} - ${formatTime((i + 1) * 8)}`,
+        visualDescription: i === 0 ? 'Opening scene' : `Scene ${i + 1}`,
+        audioDescription: 'Ambient sounds',
+        cameraShot: 'Wide',
+        voiceoverText: i === 0 ? 'Welcome' : `Line ${i + 1}`,
+      })),
     };
 
     it('should throw error if API key is not set', async () => {
@@ -114,7 +118,7 @@ describe('geminiService', () => {
         },
       }));
 
-      const result = await generateScript('Make a video about cats');
+      const { script: result } = await generateScript('Make a video about cats');
 
       // Verify generateContent was called with correct model
       expect(mockGenerateContent).toHaveBeenCalled();
@@ -198,6 +202,146 @@ describe('geminiService', () => {
 
       await expect(generateScript('Test')).rejects.toThrow('No script generated');
     });
+
+    it('should normalise voice and speaker names without a repair', async () => {
+      setApiKey('test-key');
+      const generateContent = jest.fn().mockResolvedValue({
+        text: JSON.stringify({
+          ...mockScript,
+          narratorVoice: undefined,
+          characters: [{ id: 'ana', name: 'Ana', gender: 'female', voiceName: 'kore' }],
+          scenes: mockScript.scenes.map(scene => ({ ...scene, dialogue: [{ speaker: 'ANA ', text: 'Hi' }] })),
+        }),
+      });
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({ models: { generateContent } }));
+
+      const { script: result } = await generateScript('Test', undefined, undefined, true, 'veo-3.1', 15, true);
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(result.characters?.[0].voiceName).toBe('Kore');
+      expect(result.scenes[0].dialogue?.[0].speaker).toBe('Ana');
+    });
+
+    it('should ask the model to repair invalid fields', async () => {
+      setApiKey('test-key');
+      const broken = { ...mockScript, narratorVoice: 'Robot', scenes: mockScript.scenes.slice(0, 8) };
+      const generateContent = jest.fn()
+        .mockResolvedValueOnce({ text: JSON.stringify(broken) })
+        .mockResolvedValueOnce({ text: JSON.stringify(mockScript) });
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({ models: { generateContent } }));
+
+      const { script: result } = await generateScript('Test');
+
+      expect(result).toEqual(mockScript);
+      const repairPrompt = generateContent.mock.calls[1][0].contents.parts[0].text;
+      expect(repairPrompt).toContain('- narratorVoice: "Robot" is not an available voice');
+      expect(repairPrompt).toContain('- scenes: must have exactly 9 scenes, got 8');
+    });
+
+    it('should fix scene ids and time ranges without a repair', async () => {
+      setApiKey('test-key');
+      const misnumbered = { ...mockScript, scenes: mockScript.scenes.map(scene => ({ ...scene, id: 0, timeRange: 'Scene' })) };
+      const generateContent = jest.fn().mockResolvedValue({ text: JSON.stringify(misnumbered) });
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({ models: { generateContent } }));
+
+      const { script, violations } = await generateScript('Test');
+
+      expect(generateContent).toHaveBeenCalledTimes(1);
+      expect(script).toEqual(mockScript);
+      expect(violations).toEqual([]);
+    });
+
+    it('should return the script with what is still wrong after the repair attempts', async () => {
+      setApiKey('test-key');
+      const broken = { ...mockScript, scenes: mockScript.scenes.map(scene => ({ ...scene, cameraShot: '' })) };
+      const generateContent = jest.fn().mockResolvedValue({ text: JSON.stringify(broken) });
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({ models: { generateContent } }));
+
+      const { script, violations } = await generateScript('Test');
+
+      expect(generateContent).toHaveBeenCalledTimes(3);
+      expect(script).toEqual(broken);
+      expect(violations[0]).toEqual({ path: 'scenes[0].cameraShot', message: 'must be a non-empty string' });
+      expect(violations).toHaveLength(9);
+    });
+  });
+
+  describe('regenerateScene', () => {
+    const mockScript: Script = {
+      title: 'Harbour',
+      style: 'Watercolor',
+      scenes: [1, 2, 3].map(id => ({
+        id,
+        timeRange: `00:0${(id - 1) * 4} - 00:0${id * 4}`,
+        visualDescription: `Visual ${id}`,
+        audioDescription: `Audio ${id}`,
+        cameraShot: 'Wide',
+        voiceoverText: `Line ${id}`,
+      })),
+    };
+
+    const mockResponse = (text: string | null) => {
+      const generateContent = jest.fn().mockResolvedValue({ text });
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({ models: { generateContent } }));
+      return generateContent;
+    };
+
+    it('should rewrite only the chosen scene with the script as context', async () => {
+      setApiKey('test-key');
+      const generateContent = mockResponse(JSON.stringify({
+        visualDescription: 'A boat leaves at night. The camera performs a slow dolly-in.',
+        audioDescription: 'Rain',
+        cameraShot: 'Medium Shot',
+        voiceoverText: 'Night fell.',
+        id: 9,
+        timeRange: '01:00 - 01:04',
+      }));
+
+      const scene = await regenerateScene(mockScript, 1, 'Make it night', true, 'seedance-1.5');
+
+      expect(scene).toEqual({
+        id: 2,
+        timeRange: '00:04 - 00:08',
+        visualDescription: 'A boat leaves at night. The camera performs a slow dolly-in.',
+        audioDescription: 'Rain',
+        cameraShot: 'Medium Shot',
+        voiceoverText: 'Night fell.',
+        dialogue: undefined,
+        transition: undefined,
+        clipEdit: undefined,
+      });
+
+      const { contents, config } = generateContent.mock.calls[0][0];
+      expect(contents.parts[0].text).toContain('Make it night');
+      expect(contents.parts[0].text).toContain('Scene 2 (THE SCENE TO REWRITE)');
+      expect(contents.parts[0].text).toContain('Visual 3');
+      expect(config.systemInstruction).toContain('STYLE: Watercolor');
+      expect(config.systemInstruction).toContain('CRITICAL START FRAME CONSTRAINT');
+      expect(config.systemInstruction).toContain('SEEDANCE CAMERA MOVEMENT VOCABULARY');
+      expect(config.systemInstruction).toContain('This is NOT the final scene');
+    });
+
+    it('should keep dialogue for multi-character scripts', async () => {
+      setApiKey('test-key');
+      const dialogue = [{ speaker: 'Ana', text: 'Wait!' }];
+      mockResponse('```json\n' + JSON.stringify({ scene: { visualDescription: 'Ana runs.', voiceoverText: 'Wait!', dialogue } }) + '\n```');
+
+      const script: Script = {
+        ...mockScript,
+        characters: [{ id: 'ana', name: 'Ana', gender: 'female', voiceName: 'Kore' }],
+      };
+      const scene = await regenerateScene(script, 2, 'Give Ana a line');
+
+      expect(scene.dialogue).toEqual(dialogue);
+      expect(scene.cameraShot).toBe('Wide');
+    });
+
+    it('should reject a response without the scene text', async () => {
+      setApiKey('test-key');
+      mockResponse(JSON.stringify({ cameraShot: 'Wide' }));
+
+      await expect(regenerateScene(mockScript, 0, 'Shorter')).rejects.toThrow("missing the scene's visualDescription");
+    });
   });
 
   describe('generateStoryboard', () => {
@@ -769,4 +913,111 @@ describe('geminiService', () => {
       await expect(generateMasterAudio(mockScript)).rejects.toThrow('No audio data in response');
     });
   });
+
+  describe('generateMasterAudioWithTimings', () => {
+    // jsdom's Blob has no arrayBuffer() and the shared AudioContext mock can't build buffers,
+    // so each blob decodes as a silent clip with the next queued duration
+    const decodedDurations: number[] = [];
+    const fakeBuffer = (duration: number, sampleRate: number = 100, channels: number = 1) => {
+      const data = Array.from({ length: channels }, () => new Float32Array(Math.round(duration * sampleRate)));
+      return { duration, sampleRate, length: data[0].length, numberOfChannels: channels, getChannelData: (c: number) => data[c] };
+    };
+    class FakeAudioContext {
+      decodeAudioData = jest.fn(async () => fakeBuffer(decodedDurations.shift() ?? 1));
+      createBuffer = jest.fn((channels: number, length: number, sampleRate: number) => fakeBuffer(length / sampleRate, sampleRate, channels));
+      close = jest.fn();
+    }
+
+    const originalAudioContext = global.AudioContext;
+    const hadArrayBuffer = 'arrayBuffer' in Blob.prototype;
+    beforeAll(() => {
+      global.AudioContext = FakeAudioContext as unknown as typeof AudioContext;
+      if (!hadArrayBuffer) {
+        Object.defineProperty(Blob.prototype, 'arrayBuffer', {
+          configurable: true,
+          value: async () => new ArrayBuffer(0),
+        });
+      }
+    });
+    afterAll(() => {
+      global.AudioContext = originalAudioContext;
+      if (!hadArrayBuffer) delete (Blob.prototype as Partial<Blob>).arrayBuffer;
+    });
+    beforeEach(() => {
+      decodedDurations.length = 0;
+    });
+
+    const audioResponse = {
+      candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/wav', data: 'base64audiodata' } }] } }],
+    };
+
+    const mockTts = () => {
+      const mockGenerateContent = jest.fn().mockResolvedValue(audioResponse);
+      (GoogleGenAI as unknown as jest.Mock).mockImplementation(() => ({
+        models: { generateContent: mockGenerateContent },
+      }));
+      return mockGenerateContent;
+    };
+
+    const scenes: Scene[] = [
+      { id: 1, timeRange: '00:00 - 00:05', visualDescription: 'Scene 1', voiceoverText: 'Hello world' },
+      { id: 2, timeRange: '00:05 - 00:10', visualDescription: 'Scene 2', voiceoverText: 'Goodbye world' },
+    ];
+
+    it('should synthesize narration per scene and record each scene segment', async () => {
+      setApiKey('test-key');
+      const mockGenerateContent = mockTts();
+      decodedDurations.push(2, 3);
+
+      const { audioUrl, lines, segments } = await generateMasterAudioWithTimings({ title: 'Test', style: 'Cinematic', scenes });
+
+      expect(audioUrl).toBe('blob:mock-url');
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+      expect(lines).toEqual([
+        { sceneId: 1, speaker: 'narrator', text: 'Hello world', start: 0, duration: 2 },
+        { sceneId: 2, speaker: 'narrator', text: 'Goodbye world', start: 2, duration: 3 },
+      ]);
+      expect(segments).toEqual([
+        { sceneId: 1, offset: 0, duration: 2 },
+        { sceneId: 2, offset: 2, duration: 3 },
+      ]);
+    });
+
+    it('should group dialogue lines into one segment per scene in multi-character mode', async () => {
+      setApiKey('test-key');
+      const mockGenerateContent = mockTts();
+      decodedDurations.push(1, 1.5, 2);
+
+      const script: Script = {
+        title: 'Test',
+        style: 'Cinematic',
+        characters: [{ id: 'hana', name: 'Hana', gender: 'female', voiceName: 'Kore' }],
+        scenes: [
+          {
+            ...scenes[0],
+            dialogue: [
+              { speaker: 'Hana', text: 'I waited for you.' },
+              { speaker: 'narrator', text: '   ' },
+              { speaker: 'narrator', text: 'She smiled.' },
+            ],
+          },
+          scenes[1],
+        ],
+      };
+
+      const { lines, segments } = await generateMasterAudioWithTimings(script, true);
+
+      // Blank lines are never synthesized, so they get no timing either
+      expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+      expect(lines.map(l => [l.speaker, l.start, l.duration])).toEqual([
+        ['Hana', 0, 1],
+        ['narrator', 1, 1.5],
+        ['narrator', 2.5, 2],
+      ]);
+      expect(segments).toEqual([
+        { sceneId: 1, offset: 0, duration: 2.5 },
+        { sceneId: 2, offset: 2.5, duration: 2 },
+      ]);
+    });
+  });
 });
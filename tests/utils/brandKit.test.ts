@@ -0,0 +1,38 @@
+import { DEFAULT_BRAND_KIT, getLogoOverlayPosition, resolveBrandKit, toFFmpegColor } from '@/utils/brandKit';
+
+describe('brandKit', () => {
+  describe('resolveBrandKit', () => {
+    it('should fall back to the defaults', () => {
+      expect(resolveBrandKit(undefined)).toEqual(DEFAULT_BRAND_KIT);
+      expect(resolveBrandKit({ captionStyle: 'box' })).toEqual({ ...DEFAULT_BRAND_KIT, captionStyle: 'box' });
+    });
+
+    it('should drop fields that are not part of the brand kit', () => {
+      const stored = { ...DEFAULT_BRAND_KIT, logoUrl: 'https://video-studio.jarwater.com/brand/logo.png', _id: 'abc', userId: 'user_1' };
+      const kit = resolveBrandKit(stored);
+
+      expect(kit.logoUrl).toBe(stored.logoUrl);
+      expect(kit).not.toHaveProperty('_id');
+      expect(kit).not.toHaveProperty('userId');
+    });
+  });
+
+  describe('toFFmpegColor', () => {
+    it('should convert hex colours with optional alpha', () => {
+      expect(toFFmpegColor('#ff8800')).toBe('0xFF8800');
+      expect(toFFmpegColor('#000000', 0.6)).toBe('0x000000@0.6');
+    });
+
+    it('should use the fallback for invalid colours', () => {
+      expect(toFFmpegColor('red')).toBe('white');
+      expect(toFFmpegColor("#fff'", 0.5, 'black')).toBe('black@0.5');
+    });
+  });
+
+  describe('getLogoOverlayPosition', () => {
+    it('should inset the logo from the chosen corner', () => {
+      expect(getLogoOverlayPosition('top_left', 20)).toBe('x=20:y=20');
+      expect(getLogoOverlayPosition('bottom_right', 20)).toBe('x=W-w-20:y=H-h-20');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { CAPTION_FONT_URLS, canBurnInCaptions, getCaptionScript, isRtlLanguage, measureTextWidth, wrapCaptionText } from '@/utils/captionFonts';
+
+describe('captionFonts', () => {
+  describe('getCaptionScript', () => {
+    it('should map languages to their script font', () => {
+      expect(getCaptionScript('japanese')).toBe('japanese');
+      expect(getCaptionScript('hindi')).toBe('devanagari');
+      expect(getCaptionScript('arabic')).toBe('arabic');
+    });
+
+    it('should use the Latin font for Latin languages and when unset', () => {
+      expect(getCaptionScript('spanish')).toBe('latin');
+      expect(getCaptionScript(undefined)).toBe('latin');
+    });
+  });
+
+  describe('isRtlLanguage', () => {
+    it('should only flag Arabic', () => {
+      expect(isRtlLanguage('arabic')).toBe(true);
+      expect(isRtlLanguage('hindi')).toBe(false);
+      expect(isRtlLanguage(undefined)).toBe(false);
+    });
+  });
+
+  describe('canBurnInCaptions', () => {
+    it('should leave Devanagari to the player, which shapes it', () => {
+      expect(canBurnInCaptions('hindi')).toBe(false);
+      expect(canBurnInCaptions('arabic')).toBe(true);
+      expect(canBurnInCaptions(undefined)).toBe(true);
+    });
+  });
+
+  describe('CAPTION_FONT_URLS', () => {
+    it('should pin every font to a fixed version', () => {
+      for (const url of Object.values(CAPTION_FONT_URLS)) {
+        expect(url).toMatch(/\/v\d+\/|@\d+\.\d+\.\d+\//);
+      }
+    });
+  });
+
+  describe('measureTextWidth', () => {
+    it('should count CJK characters as a full em', () => {
+      expect(measureTextWidth('こんにちは')).toBe(5);
+      expect(measureTextWidth('안녕')).toBe(2);
+      expect(measureTextWidth('ab')).toBeCloseTo(1.1);
+    });
+  });
+
+  describe('wrapCaptionText', () => {
+    it('should keep short text on one line', () => {
+      expect(wrapCaptionText('Hello there', 20)).toEqual(['Hello there']);
+    });
+
+    it('should break spaced text between words', () => {
+      expect(wrapCaptionText('one two three four', 5)).toEqual(['one two', 'three', 'four']);
+    });
+
+    it('should break CJK text between characters', () => {
+      expect(wrapCaptionText('今日はとても良い天気です', 5)).toEqual(['今日はとて', 'も良い天気', 'です']);
+    });
+
+    it('should not start a line with closing punctuation', () => {
+      expect(wrapCaptionText('ありがとう。また明日', 5)).toEqual(['ありがとう。', 'また明日']);
+    });
+
+    it('should leave a word longer than the line whole', () => {
+      expect(wrapCaptionText('supercalifragilistic ok', 4)).toEqual(['supercalifragilistic', 'ok']);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { buildClipEditFilters, getEditedDuration, getTrimRange, isClipEdited } from '@/utils/clipEdit';
+
+describe('clipEdit', () => {
+  describe('isClipEdited', () => {
+    it('should only flag edits that change the clip', () => {
+      expect(isClipEdited(undefined)).toBe(false);
+      expect(isClipEdited({ trimIn: 0, speed: 1 })).toBe(false);
+      expect(isClipEdited({ trimIn: 0.5, speed: 1 })).toBe(true);
+      expect(isClipEdited({ trimIn: 0, trimOut: 7, speed: 1 })).toBe(true);
+      expect(isClipEdited({ trimIn: 0, speed: 1.5 })).toBe(true);
+    });
+  });
+
+  describe('getTrimRange', () => {
+    it('should keep the whole clip without an edit', () => {
+      expect(getTrimRange(undefined, 8)).toEqual({ start: 0, end: 8 });
+    });
+
+    it('should clamp the out point to the clip length', () => {
+      expect(getTrimRange({ trimIn: 1, trimOut: 12, speed: 1 }, 8)).toEqual({ start: 1, end: 8 });
+    });
+
+    it('should always leave some of the clip', () => {
+      expect(getTrimRange({ trimIn: 10, speed: 1 }, 4)).toEqual({ start: 3.5, end: 4 });
+    });
+  });
+
+  describe('getEditedDuration', () => {
+    it('should shorten the clip by its trim and speed', () => {
+      expect(getEditedDuration(8, { trimIn: 1, trimOut: 7, speed: 2 })).toBe(3);
+      expect(getEditedDuration(4, { trimIn: 0, speed: 0.5 })).toBe(8);
+      expect(getEditedDuration(4.04)).toBe(4.04);
+    });
+  });
+
+  describe('buildClipEditFilters', () => {
+    it('should trim and retime video and audio together', () => {
+      expect(buildClipEditFilters({ trimIn: 0.5, trimOut: 6, speed: 1.5 }, 8)).toEqual({
+        video: 'trim=start=0.5:end=6,setpts=(PTS-STARTPTS)/1.5',
+        audio: 'atrim=start=0.5:end=6,asetpts=PTS-STARTPTS,atempo=1.5',
+      });
+    });
+
+    it('should leave the audio tempo alone at normal speed', () => {
+      expect(buildClipEditFilters({ trimIn: 1, speed: 1 }, 4).audio).toBe('atrim=start=1:end=4,asetpts=PTS-STARTPTS');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { EXPORT_PRESETS, getExportFrame } from '@/utils/exportPresets';
+
+describe('getExportFrame', () => {
+  it('should keep the clip resolution for the standard preset', () => {
+    expect(getExportFrame(EXPORT_PRESETS.standard, '16:9')).toBeNull();
+  });
+
+  it('should scale to the short side at the project aspect ratio', () => {
+    expect(getExportFrame(EXPORT_PRESETS.hd_1080p, '16:9')).toEqual({ width: 1920, height: 1080, crop: false });
+    expect(getExportFrame(EXPORT_PRESETS.hd_1080p, '9:16')).toEqual({ width: 1080, height: 1920, crop: false });
+  });
+
+  it('should round the long side to an even width', () => {
+    expect(getExportFrame(EXPORT_PRESETS.draft_480p, '16:9')).toEqual({ width: 854, height: 480, crop: false });
+  });
+
+  it('should crop to a fixed frame regardless of the project aspect ratio', () => {
+    expect(getExportFrame(EXPORT_PRESETS.portrait_4_5, '16:9')).toEqual({ width: 1080, height: 1350, crop: true });
+    expect(getExportFrame(EXPORT_PRESETS.square, '9:16')).toEqual({ width: 1080, height: 1080, crop: true });
+  });
+});
@@ -0,0 +1,93 @@
+import { Scene } from '@/types';
+
+jest.mock('@/utils/videoCompositor', () => ({
+  composeAndExportVideo: jest.fn().mockResolvedValue(new Blob(['main-thread'], { type: 'video/mp4' })),
+}));
+
+import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { exportVideoInWorker, ExportWorkerRequest, ExportWorkerResponse } from '@/utils/exportWorkerClient';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<ExportWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  postMessage = jest.fn();
+  terminate = jest.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  respond(message: ExportWorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<ExportWorkerResponse>);
+  }
+}
+
+describe('exportVideoInWorker', () => {
+  const scenes: Scene[] = [
+    { id: 1, timeRange: '00:00 - 00:04', visualDescription: 'Scene 1', audioDescription: '', cameraShot: 'Wide', voiceoverText: 'Hello' },
+  ];
+  const videoUrls = { 1: 'https://example.com/video-1.mp4' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    FakeWorker.instances = [];
+    (global as unknown as { Worker: unknown }).Worker = FakeWorker;
+  });
+
+  afterEach(() => {
+    delete (global as unknown as { Worker?: unknown }).Worker;
+  });
+
+  it('should post the export to a worker and resolve with its blob', async () => {
+    const onProgress = jest.fn();
+    const onMeasured = jest.fn();
+    const promise = exportVideoInWorker(scenes, videoUrls, null, null, onProgress, {
+      preset: 'webm_vp9',
+      loudness: { preset: 'social', onMeasured },
+    });
+
+    const worker = FakeWorker.instances[0];
+    const request = worker.postMessage.mock.calls[0][0] as ExportWorkerRequest;
+    expect(request.options).toEqual({ preset: 'webm_vp9', loudness: { preset: 'social' } });
+
+    const progress = { phase: 'downloading', message: 'Downloading video 1/1...', sceneIndex: 0, percent: 0 } as const;
+    worker.respond({ type: 'progress', progress });
+    const result = { preset: 'social', input: { integrated: -20, truePeak: -3, lra: 5 }, output: { integrated: -14, truePeak: -1, lra: 5 } } as const;
+    worker.respond({ type: 'loudness', result });
+    const blob = new Blob(['video'], { type: 'video/webm' });
+    worker.respond({ type: 'done', blob });
+
+    await expect(promise).resolves.toBe(blob);
+    expect(onProgress).toHaveBeenCalledWith(progress);
+    expect(onMeasured).toHaveBeenCalledWith(result);
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it('should reject with the worker error message', async () => {
+    const promise = exportVideoInWorker(scenes, videoUrls, null, null, jest.fn());
+
+    FakeWorker.instances[0].respond({ type: 'error', message: 'No videos to export' });
+
+    await expect(promise).rejects.toThrow('No videos to export');
+  });
+
+  it('should terminate the worker and reject with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const promise = exportVideoInWorker(scenes, videoUrls, null, null, jest.fn(), { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeWorker.instances[0].terminate).toHaveBeenCalled();
+  });
+
+  it('should fall back to the main thread without Worker support', async () => {
+    delete (global as unknown as { Worker?: unknown }).Worker;
+
+    const blob = await exportVideoInWorker(scenes, videoUrls, null, null, jest.fn(), { preset: 'draft_480p' });
+
+    expect(composeAndExportVideo).toHaveBeenCalledWith(scenes, videoUrls, null, null, expect.any(Function), { preset: 'draft_480p' });
+    expect(blob.size).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { createHash, webcrypto } from 'crypto';
+import { FFMPEG_CORE_FILES, getFFmpegCoreBaseURL, loadFFmpegCore, verifyIntegrity } from '@/utils/ffmpegCore';
+
+// Slicing a Buffer keeps the ArrayBuffer in Node's realm, which Web Crypto requires (jsdom's typed arrays fail its checks)
+const bytes = (text: string): ArrayBuffer => {
+  const buffer = Buffer.from(text);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer;
+};
+const sri = (data: ArrayBuffer) => `sha384-${createHash('sha384').update(Buffer.from(data)).digest('base64')}`;
+
+describe('ffmpegCore', () => {
+  const originalCrypto = global.crypto;
+  const originalFetch = global.fetch;
+
+  // jsdom has no SubtleCrypto
+  beforeAll(() => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.NEXT_PUBLIC_FFMPEG_CORE_BASE_URL;
+  });
+
+  describe('verifyIntegrity', () => {
+    const data = bytes('ffmpeg core');
+
+    it('should accept data matching its SRI hash', async () => {
+      expect(await verifyIntegrity(data, sri(data))).toBe(true);
+    });
+
+    it('should reject tampered data', async () => {
+      const tampered = bytes('ffmpeg core!');
+      expect(await verifyIntegrity(tampered, sri(data))).toBe(false);
+    });
+
+    it('should reject unsupported algorithms', async () => {
+      expect(await verifyIntegrity(data, 'md5-abc')).toBe(false);
+    });
+  });
+
+  describe('getFFmpegCoreBaseURL', () => {
+    it('should default to the static files on the app origin', () => {
+      expect(getFFmpegCoreBaseURL()).toBe('/ffmpeg-core');
+    });
+
+    it('should use the configured base URL without a trailing slash', () => {
+      process.env.NEXT_PUBLIC_FFMPEG_CORE_BASE_URL = 'https://assets.example.com/ffmpeg/';
+      expect(getFFmpegCoreBaseURL()).toBe('https://assets.example.com/ffmpeg');
+    });
+  });
+
+  describe('loadFFmpegCore', () => {
+    const mockFetch = (ok = true) => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok,
+        status: ok ? 200 : 404,
+        arrayBuffer: async () => bytes('not the pinned core'),
+      }) as unknown as typeof fetch;
+    };
+
+    it('should fetch the single-threaded files from the base URL', async () => {
+      mockFetch();
+
+      await expect(loadFFmpegCore('/cores', false)).rejects.toThrow('integrity check failed');
+      expect(global.fetch).toHaveBeenCalledWith('/cores/core/ffmpeg-core.js');
+      expect(global.fetch).toHaveBeenCalledWith('/cores/core/ffmpeg-core.wasm');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should also fetch the pthread worker for the multithreaded core', async () => {
+      mockFetch();
+
+      await expect(loadFFmpegCore('/cores', true)).rejects.toThrow('integrity check failed');
+      expect(global.fetch).toHaveBeenCalledWith('/cores/core-mt/ffmpeg-core.worker.js');
+    });
+
+    it('should report a failed download', async () => {
+      mockFetch(false);
+
+      await expect(loadFFmpegCore('/cores', false)).rejects.toThrow('Failed to download FFmpeg core');
+    });
+
+    it('should pin an SRI hash for every file it loads', () => {
+      expect(Object.keys(FFMPEG_CORE_FILES.core)).toEqual(['ffmpeg-core.js', 'ffmpeg-core.wasm']);
+      expect(Object.keys(FFMPEG_CORE_FILES['core-mt'])).toEqual(['ffmpeg-core.js', 'ffmpeg-core.wasm', 'ffmpeg-core.worker.js']);
+      Object.values(FFMPEG_CORE_FILES).forEach(files => {
+        Object.values(files).forEach(integrity => expect(integrity).toMatch(/^sha384-[A-Za-z0-9+/]{64}$/));
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Scene, VoiceoverLine } from '@/types';
+import { buildLowerThirds, getEndCardDuration, isExportableImageUrl, parseOverlays, LOWER_THIRD_DURATION } from '@/utils/overlays';
+
+describe('overlays', () => {
+  const scenes: Scene[] = [
+    { id: 1, visualDescription: 'Intro', voiceoverText: '', dialogue: [{ speaker: 'narrator', text: 'Once upon a time' }] },
+    { id: 2, visualDescription: 'Meet', voiceoverText: '', dialogue: [{ speaker: 'Maya', text: 'Hi' }, { speaker: 'Leo', text: 'Hello' }] },
+    { id: 3, visualDescription: 'Again', voiceoverText: '', dialogue: [{ speaker: 'Maya', text: 'Bye' }] },
+  ];
+  const timings = [
+    { start: 0, duration: 4, transitionOut: 0 },
+    { start: 4, duration: 4, transitionOut: 0 },
+    { start: 8, duration: 4, transitionOut: 0 },
+  ];
+
+  describe('buildLowerThirds', () => {
+    it('should tag each character at the start of their first scene', () => {
+      expect(buildLowerThirds(scenes, timings)).toEqual([
+        { name: 'Maya', start: 4, end: 4 + LOWER_THIRD_DURATION },
+        { name: 'Leo', start: 4, end: 4 + LOWER_THIRD_DURATION },
+      ]);
+    });
+
+    it('should use measured line timings when available', () => {
+      const lines: VoiceoverLine[] = [
+        { sceneId: 1, speaker: 'Narrator', text: 'Once upon a time', start: 0.5, duration: 2 },
+        { sceneId: 2, speaker: 'Leo', text: 'Hello', start: 5.2, duration: 1 },
+        { sceneId: 2, speaker: 'Maya', text: 'Hi', start: 6.4, duration: 1 },
+        { sceneId: 3, speaker: 'Leo', text: 'Later', start: 9, duration: 1 },
+      ];
+
+      expect(buildLowerThirds(scenes, timings, lines)).toEqual([
+        { name: 'Leo', start: 5.2, end: 5.2 + LOWER_THIRD_DURATION },
+        { name: 'Maya', start: 6.4, end: 6.4 + LOWER_THIRD_DURATION },
+      ]);
+    });
+
+    it('should ignore scenes missing from the timeline', () => {
+      expect(buildLowerThirds(scenes, timings.slice(0, 1))).toEqual([]);
+    });
+  });
+
+  describe('getEndCardDuration', () => {
+    it('should only count an enabled end card', () => {
+      expect(getEndCardDuration(undefined)).toBe(0);
+      expect(getEndCardDuration({ endCard: { enabled: false, duration: 4 } })).toBe(0);
+      expect(getEndCardDuration({ endCard: { enabled: true, duration: 4 } })).toBe(4);
+    });
+  });
+
+  describe('isExportableImageUrl', () => {
+    it('should only accept remote images on hosts the media proxy reaches', () => {
+      expect(isExportableImageUrl('https://video-studio.jarwater.com/brand/logo.png')).toBe(true);
+      expect(isExportableImageUrl('/brand/logo.png')).toBe(true);
+      expect(isExportableImageUrl('https://example.com/logo.png')).toBe(false);
+    });
+  });
+
+  describe('parseOverlays', () => {
+    it('should parse stored overlays and ignore malformed JSON', () => {
+      expect(parseOverlays('{"lowerThirds":true}')).toEqual({ lowerThirds: true });
+      expect(parseOverlays('{oops')).toBeUndefined();
+      expect(parseOverlays(undefined)).toBeUndefined();
+    });
+  });
+});
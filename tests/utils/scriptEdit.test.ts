@@ -0,0 +1,63 @@
+import { diffScenes, findSplitPoint } from '@/utils/scriptEdit';
+import { Scene } from '@/types';
+
+describe('scriptEdit', () => {
+  describe('findSplitPoint', () => {
+    it('should split at the sentence break nearest the middle', () => {
+      const text = 'One. Two words here. Three more words to end.';
+      expect(text.slice(0, findSplitPoint(text))).toBe('One. Two words here. ');
+    });
+
+    it('should fall back to the space nearest the middle', () => {
+      const text = 'a slow walk through the quiet town';
+      expect(text.slice(0, findSplitPoint(text))).toBe('a slow walk through');
+    });
+
+    it('should not split after a closing full stop', () => {
+      const text = 'Just one sentence here.';
+      expect(findSplitPoint(text)).toBe(text.indexOf(' one') + 4);
+    });
+
+    it('should split a single word in the middle', () => {
+      expect(findSplitPoint('abcdef')).toBe(3);
+      expect(findSplitPoint('')).toBe(0);
+    });
+  });
+
+  describe('diffScenes', () => {
+    const scene = (id: number, overrides: Partial<Scene> = {}): Scene => ({
+      id,
+      timeRange: '00:00 - 00:04',
+      visualDescription: `Visual ${id}`,
+      audioDescription: 'Wind',
+      cameraShot: 'Wide',
+      voiceoverText: `Line ${id}`,
+      ...overrides,
+    });
+
+    it('should list the fields that changed in each scene', () => {
+      const diff = diffScenes([scene(1), scene(2)], [scene(1), scene(2, { voiceoverText: 'New line', cameraShot: 'Close-up' })]);
+
+      expect(diff[0]).toEqual({ sceneNumber: 1, status: 'unchanged', changes: [] });
+      expect(diff[1].status).toBe('changed');
+      expect(diff[1].changes).toEqual([
+        { field: 'cameraShot', before: 'Wide', after: 'Close-up' },
+        { field: 'voiceoverText', before: 'Line 2', after: 'New line' },
+      ]);
+    });
+
+    it('should compare dialogue line by line', () => {
+      const before = scene(1, { dialogue: [{ speaker: 'Ana', text: 'Hi' }] });
+      const after = scene(1, { dialogue: [{ speaker: 'Ana', text: 'Hello' }] });
+
+      expect(diffScenes([before], [after])[0].changes).toEqual([
+        { field: 'dialogue', before: 'Ana: Hi', after: 'Ana: Hello' },
+      ]);
+    });
+
+    it('should mark scenes only one version has', () => {
+      expect(diffScenes([scene(1)], [scene(1), scene(2)])[1].status).toBe('added');
+      expect(diffScenes([scene(1), scene(2)], [scene(1)])[1].status).toBe('removed');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { getWordsPerScene, lintScript, splitShots } from '@/utils/scriptLint';
+import { Scene, Script } from '@/types';
+
+describe('scriptLint', () => {
+  const scene = (overrides: Partial<Scene>): Scene => ({
+    id: 1,
+    timeRange: '00:00 - 00:08',
+    visualDescription: 'A quiet harbour at dawn.',
+    cameraShot: 'Wide',
+    voiceoverText: 'It began at dawn.',
+    ...overrides,
+  });
+
+  const script = (scenes: Scene[]): Script => ({
+    title: 'Harbour',
+    style: 'Watercolor',
+    characters: [
+      { id: 'ana', name: 'Ana Reyes', gender: 'female', voiceName: 'Kore' },
+      { id: 'ben', name: 'Ben', gender: 'male', voiceName: 'Puck' },
+    ],
+    scenes,
+  });
+
+  describe('splitShots', () => {
+    it('should split Veo descriptions at [cut] tags', () => {
+      expect(splitShots('Ana stands at the door [cut] close up of her face [CUT] insert shot of the key')).toEqual({
+        base: 'Ana stands at the door',
+        cuts: ['close up of her face', 'insert shot of the key'],
+      });
+    });
+
+    it('should split Seedance descriptions at numbered shots', () => {
+      expect(splitShots('Shot 1: Medium shot. Ana waits. Shot 2: Cut to close-up of Ben.')).toEqual({
+        base: 'Medium shot. Ana waits.',
+        cuts: ['Cut to close-up of Ben.'],
+      });
+    });
+
+    it('should treat a description without cuts as all base', () => {
+      expect(splitShots('Ana walks through the garden.')).toEqual({ base: 'Ana walks through the garden.', cuts: [] });
+    });
+  });
+
+  describe('lintScript', () => {
+    it('should flag cuts to characters missing from the start frame', () => {
+      const warnings = lintScript(script([
+        scene({ visualDescription: 'A hand reaches for the doorknob [cut] close up of Ben\'s determined face' }),
+        scene({ id: 2, visualDescription: 'Ben stands at the door [cut] close up of Ben\'s face' }),
+      ]), 'veo-3.1');
+
+      expect(warnings).toEqual([
+        { sceneId: 1, kind: 'cut_character', message: 'Cut 1 shows Ben, who isn\'t in the start frame' },
+      ]);
+    });
+
+    it('should match characters by first name and ignore names inside other words', () => {
+      const warnings = lintScript(script([
+        scene({ visualDescription: 'Ana waves from the pier [cut] Ana Reyes smiles [cut] a bench by the water' }),
+      ]), 'veo-3.1');
+
+      expect(warnings).toEqual([]);
+    });
+
+    it('should flag speakers who are not in the start frame', () => {
+      const warnings = lintScript(script([
+        scene({
+          visualDescription: 'Ana waits on the pier [cut] Ben runs up',
+          dialogue: [
+            { speaker: 'Ana Reyes', text: 'You came.' },
+            { speaker: 'Ben', text: 'Of course.' },
+            { speaker: 'narrator', text: 'He had.' },
+          ],
+        }),
+      ]), 'veo-3.1');
+
+      expect(warnings.map(w => w.kind)).toEqual(['cut_character', 'speaker_off_screen']);
+      expect(warnings[1].message).toBe('Ben speaks but isn\'t in the start frame');
+    });
+
+    it('should flag voiceover too long for the scene', () => {
+      const voiceoverText = 'one two three four five six seven eight nine ten eleven';
+
+      expect(lintScript(script([scene({ voiceoverText })]), 'veo-3.1')).toEqual([]);
+      expect(lintScript(script([scene({ voiceoverText })]), 'seedance-1.5')).toEqual([
+        { sceneId: 1, kind: 'voiceover_too_long', message: 'Voiceover is 11 words, more than the ~10 that fit in the scene' },
+      ]);
+    });
+
+    it('should measure Chinese and Japanese voiceover by character', () => {
+      // 22 and 21 characters, written without spaces
+      const japanese = '夜明けとともに、小さな村に新しい一日が始まった。';
+      const chinese = '黎明时分，小村庄迎来了崭新的一天，大家都很开心。';
+
+      expect(lintScript(script([scene({ voiceoverText: japanese })]), 'seedance-1.5')).toEqual([
+        { sceneId: 1, kind: 'voiceover_too_long', message: 'Voiceover is 22 characters, more than the ~20 that fit in the scene' },
+      ]);
+      expect(lintScript(script([scene({ voiceoverText: chinese })]), 'seedance-1.5').map(w => w.kind)).toEqual(['voiceover_too_long']);
+      expect(lintScript(script([scene({ voiceoverText: '夜明けの村。' })]), 'seedance-1.5')).toEqual([]);
+      expect(lintScript(script([scene({ voiceoverText: japanese })]), 'veo-3.1')).toEqual([]);
+    });
+
+    it('should only check cuts against known characters', () => {
+      const warnings = lintScript({ ...script([scene({ visualDescription: 'A door [cut] Ben\'s face' })]), characters: undefined }, 'veo-3.1');
+
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  describe('getWordsPerScene', () => {
+    it('should follow the clip length of each model', () => {
+      expect(getWordsPerScene('seedance-1.5')).toBe(10);
+      expect(getWordsPerScene('veo-3.1')).toBe(22);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { expectedTimeRange, formatViolations, normalizeScript, validateScript } from '@/utils/scriptValidation';
+import { Script } from '@/types';
+
+describe('scriptValidation', () => {
+  const expected = { sceneCount: 2, sceneDuration: 4, multiCharacter: true };
+
+  const validScript: Script = {
+    title: 'Harbour',
+    style: 'Watercolor',
+    characters: [
+      { id: 'ana', name: 'Ana', gender: 'female', voiceName: 'Kore' },
+      { id: 'ben', name: 'Ben', gender: 'male', voiceName: 'Puck' },
+    ],
+    scenes: [
+      {
+        id: 1,
+        timeRange: '00:00 - 00:04',
+        visualDescription: 'Ana waves.',
+        cameraShot: 'Wide',
+        voiceoverText: 'Wait!',
+        dialogue: [{ speaker: 'Ana', text: 'Wait!' }],
+      },
+      {
+        id: 2,
+        timeRange: '00:04 - 00:08',
+        visualDescription: 'Ben turns.',
+        cameraShot: 'Close Up',
+        voiceoverText: 'Too late.',
+        dialogue: [{ speaker: 'narrator', text: 'Too late.' }],
+      },
+    ],
+  };
+
+  describe('expectedTimeRange', () => {
+    it('should format back-to-back slots past a minute', () => {
+      expect(expectedTimeRange(0, 8)).toBe('00:00 - 00:08');
+      expect(expectedTimeRange(7, 8)).toBe('00:56 - 01:04');
+    });
+  });
+
+  describe('validateScript', () => {
+    it('should accept a valid script', () => {
+      expect(validateScript(validScript, expected)).toEqual([]);
+    });
+
+    it('should report each problem with its path', () => {
+      const script: Script = {
+        ...validScript,
+        characters: [{ ...validScript.characters![0], voiceName: 'Robot' as never }],
+        scenes: [
+          { ...validScript.scenes[0], cameraShot: '' },
+          { ...validScript.scenes[1], dialogue: [{ speaker: 'Ben', text: '' }] },
+        ],
+      };
+
+      expect(validateScript(script, expected)).toEqual([
+        { path: 'characters[0].voiceName', message: expect.stringContaining('"Robot" is not an available voice') },
+        { path: 'scenes[0].cameraShot', message: 'must be a non-empty string' },
+        { path: 'scenes[1].dialogue[0].speaker', message: '"Ben" is not a character (use one of narrator, Ana)' },
+        { path: 'scenes[1].dialogue[0].text', message: 'must be a non-empty string' },
+      ]);
+    });
+
+    it('should check the scene count and the narrator voice in single-voice mode', () => {
+      const script: Script = { ...validScript, characters: undefined, narratorVoice: undefined, scenes: validScript.scenes.slice(0, 1) };
+
+      const paths = validateScript(script, { ...expected, multiCharacter: false }).map(v => v.path);
+
+      expect(paths).toEqual(['narratorVoice', 'scenes']);
+    });
+  });
+
+  describe('normalizeScript', () => {
+    it('should match voices and speakers regardless of case, spacing or ids', () => {
+      const script: Script = {
+        ...validScript,
+        characters: [{ ...validScript.characters![0], voiceName: 'kore' as never }, validScript.characters![1]],
+        scenes: [
+          { ...validScript.scenes[0], dialogue: [{ speaker: ' ana', text: 'Wait!' }, { speaker: 'ben', text: 'No.' }] },
+          { ...validScript.scenes[1], dialogue: [{ speaker: 'Narrator', text: 'Too late.' }] },
+        ],
+      };
+
+      const normalized = normalizeScript(script, expected);
+
+      expect(normalized.characters![0].voiceName).toBe('Kore');
+      expect(normalized.scenes[0].dialogue!.map(line => line.speaker)).toEqual(['Ana', 'Ben']);
+      expect(normalized.scenes[1].dialogue![0].speaker).toBe('narrator');
+    });
+
+    it('should number the scenes and set their time ranges from their position', () => {
+      const script: Script = {
+        ...validScript,
+        scenes: [
+          { ...validScript.scenes[0], id: 0, timeRange: '0:00-0:04' },
+          { ...validScript.scenes[1], id: 5, timeRange: 'Scene 2' },
+        ],
+      };
+
+      const normalized = normalizeScript(script, expected);
+
+      expect(normalized.scenes.map(scene => [scene.id, scene.timeRange])).toEqual([[1, '00:00 - 00:04'], [2, '00:04 - 00:08']]);
+      expect(validateScript(normalized, expected)).toEqual([]);
+    });
+
+    it('should leave unknown names for validation to report', () => {
+      const script: Script = { ...validScript, characters: undefined, narratorVoice: 'Robot' as never };
+
+      expect(normalizeScript(script, expected).narratorVoice).toBe('Robot');
+    });
+  });
+
+  describe('formatViolations', () => {
+    it('should put one violation on each line', () => {
+      expect(formatViolations([
+        { path: 'title', message: 'must be a non-empty string' },
+        { path: 'scenes', message: 'must be an array' },
+      ])).toBe('- title: must be a non-empty string\n- scenes: must be an array');
+    });
+  });
+});
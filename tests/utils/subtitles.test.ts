@@ -0,0 +1,176 @@
+import { getCaptionText, buildSubtitleCues, buildLineCues, buildCaptionCues, fitCaptionCues, formatSrt, formatWebVtt, formatSubtitles } from '@/utils/subtitles';
+import { Scene, VoiceoverLine } from '@/types';
+
+describe('subtitles', () => {
+  const scenes: Scene[] = [
+    {
+      id: 1,
+      visualDescription: 'Scene 1',
+      voiceoverText: 'Hello there',
+    },
+    {
+      id: 2,
+      visualDescription: 'Scene 2',
+      voiceoverText: '',
+      dialogue: [{ speaker: 'Hana', text: 'I waited for you.' }],
+    },
+    {
+      id: 3,
+      visualDescription: 'Scene 3',
+      voiceoverText: 'The end',
+    },
+  ];
+
+  const timings = [
+    { start: 0, duration: 4, transitionOut: 0 },
+    { start: 4, duration: 4, transitionOut: 0.5 },
+    { start: 7.5, duration: 4, transitionOut: 0 },
+  ];
+
+  describe('getCaptionText', () => {
+    it('should use voiceoverText when there is no dialogue', () => {
+      expect(getCaptionText(scenes[0])).toEqual({ speaker: '', text: 'Hello there' });
+    });
+
+    it('should include the speaker for a single non-narrator line', () => {
+      expect(getCaptionText(scenes[1])).toEqual({ speaker: 'Hana', text: 'I waited for you.' });
+    });
+
+    it('should return null for empty text', () => {
+      expect(getCaptionText({ id: 4, visualDescription: '', voiceoverText: '  ' })).toBeNull();
+    });
+  });
+
+  describe('buildSubtitleCues', () => {
+    it('should hold each cue until the next scene starts', () => {
+      const cues = buildSubtitleCues(scenes, timings);
+
+      expect(cues.map(c => [c.start, c.end])).toEqual([[0, 4], [4, 7.5], [7.5, 11.5]]);
+    });
+
+    it('should skip scenes without caption text', () => {
+      const cues = buildSubtitleCues([scenes[0], { ...scenes[1], dialogue: [] }], timings);
+
+      expect(cues).toHaveLength(1);
+    });
+  });
+
+  describe('buildLineCues', () => {
+    const lines: VoiceoverLine[] = [
+      { sceneId: 1, speaker: 'narrator', text: 'Hello there', start: 0, duration: 1.5 },
+      { sceneId: 2, speaker: 'Hana', text: 'I waited for you all night long', start: 1.5, duration: 3 },
+    ];
+
+    it('should create one cue per line at its measured time', () => {
+      const cues = buildLineCues(lines);
+
+      expect(cues).toEqual([
+        { start: 0, end: 1.5, speaker: '', text: 'Hello there' },
+        { start: 1.5, end: 4.5, speaker: 'Hana', text: 'I waited for you all night long' },
+      ]);
+    });
+
+    it('should split lines into phrases sharing the line duration', () => {
+      const cues = buildLineCues([lines[1]], 4);
+
+      expect(cues.map(c => c.text)).toEqual(['I waited for you', 'all night long']);
+      expect(cues[0].start).toBe(1.5);
+      expect(cues[0].end).toBeCloseTo(1.5 + 3 * (16 / 30));
+      expect(cues[1].start).toBe(cues[0].end);
+      expect(cues[1].end).toBe(4.5);
+    });
+
+    it('should skip lines without text or duration', () => {
+      const cues = buildLineCues([
+        { ...lines[0], text: '  ' },
+        { ...lines[1], duration: 0 },
+      ]);
+
+      expect(cues).toEqual([]);
+    });
+  });
+
+  describe('buildCaptionCues', () => {
+    it('should prefer line timings when available', () => {
+      const cues = buildCaptionCues(scenes, timings, {
+        lines: [{ sceneId: 1, speaker: 'narrator', text: 'Hello there', start: 0.2, duration: 1 }],
+      });
+
+      expect(cues).toEqual([{ start: 0.2, end: 1.2, speaker: '', text: 'Hello there' }]);
+    });
+
+    it('should fall back to scene cues without line timings', () => {
+      expect(buildCaptionCues(scenes, timings, { lines: [] })).toEqual(buildSubtitleCues(scenes, timings));
+      expect(buildCaptionCues(scenes, timings)).toEqual(buildSubtitleCues(scenes, timings));
+    });
+  });
+
+  describe('fitCaptionCues', () => {
+    it('should leave cues that fit the line budget alone', () => {
+      const cues = [{ start: 0, end: 2, speaker: '', text: 'Short caption' }];
+
+      expect(fitCaptionCues(cues, 20, 2)).toEqual(cues);
+    });
+
+    it('should split long cues over time by character count', () => {
+      const cues = [{ start: 0, end: 6, speaker: 'Hana', text: 'aaaa bbbb  cccc dddd eeee' }];
+
+      const fitted = fitCaptionCues(cues, 3, 2);
+
+      expect(fitted.map(c => c.text)).toEqual(['aaaa bbbb', 'cccc dddd', 'eeee']);
+      expect(fitted[0]).toEqual({ start: 0, end: 9 * 6 / 22, speaker: 'Hana', text: 'aaaa bbbb' });
+      expect(fitted[2].end).toBe(6);
+    });
+
+    it('should join CJK chunks without spaces', () => {
+      const fitted = fitCaptionCues([{ start: 0, end: 3, speaker: '', text: 'あいうえおかきくけこ' }], 3, 1);
+
+      expect(fitted.map(c => c.text)).toEqual(['あいう', 'えおか', 'きくけ', 'こ']);
+    });
+  });
+
+  describe('formatSrt', () => {
+    it('should number cues and use comma millisecond separators', () => {
+      const srt = formatSrt(buildSubtitleCues(scenes, timings));
+
+      expect(srt).toContain('1\n00:00:00,000 --> 00:00:04,000\nHello there\n');
+      expect(srt).toContain('2\n00:00:04,000 --> 00:00:07,500\nHana: I waited for you.\n');
+    });
+
+    it('should open right-to-left cues with a right-to-left mark', () => {
+      const srt = formatSrt([{ start: 0, end: 2, speaker: 'ليلى', text: 'مرحبا!' }], { rtl: true });
+
+      expect(srt).toContain('00:00:02,000\n\u200Fليلى: مرحبا!\n');
+    });
+  });
+
+  describe('formatWebVtt', () => {
+    it('should start with the WEBVTT header and use voice spans', () => {
+      const vtt = formatWebVtt(buildSubtitleCues(scenes, timings));
+
+      expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+      expect(vtt).toContain('00:00:04.000 --> 00:00:07.500\n<v Hana>I waited for you.');
+    });
+
+    it('should format hours for long videos', () => {
+      const vtt = formatWebVtt([{ start: 3725.25, end: 3730, speaker: '', text: 'Late' }]);
+
+      expect(vtt).toContain('01:02:05.250 --> 01:02:10.000');
+    });
+
+    it('should mark right-to-left text inside the voice span', () => {
+      const vtt = formatWebVtt([{ start: 0, end: 2, speaker: 'ليلى', text: 'مرحبا!' }], { rtl: true });
+
+      expect(vtt).toContain('<v ليلى>\u200Fمرحبا!');
+    });
+  });
+
+  describe('formatSubtitles', () => {
+    it('should dispatch on format', () => {
+      const cues = buildSubtitleCues(scenes, timings);
+
+      expect(formatSubtitles(cues, 'srt')).toBe(formatSrt(cues));
+      expect(formatSubtitles(cues, 'vtt')).toBe(formatWebVtt(cues));
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { Scene } from '@/types';
+import { BrandKit, Scene } from '@/types';
 
 // Mock FFmpeg
 const mockExec = jest.fn().mockResolvedValue(undefined);
@@ -7,6 +7,7 @@ const mockReadFile = jest.fn().mockResolvedValue(new Uint8Array([0, 0, 0]));
 const mockDeleteFile = jest.fn().mockResolvedValue(undefined);
 const mockOn = jest.fn();
 const mockLoad = jest.fn().mockResolvedValue(undefined);
+const mockTerminate = jest.fn();
 
 jest.mock('@ffmpeg/ffmpeg', () => ({
   FFmpeg: jest.fn().mockImplementation(() => ({
@@ -16,6 +17,7 @@ jest.mock('@ffmpeg/ffmpeg', () => ({
     readFile: mockReadFile,
     deleteFile: mockDeleteFile,
     on: mockOn,
+    terminate: mockTerminate,
     loaded: false,
   })),
 }));
@@ -25,8 +27,12 @@ jest.mock('@ffmpeg/util', () => ({
   toBlobURL: jest.fn().mockResolvedValue('blob:mock-url'),
 }));
 
+jest.mock('@/utils/ffmpegCore', () => ({
+  loadFFmpegCore: jest.fn().mockResolvedValue({ coreURL: 'blob:core', wasmURL: 'blob:wasm' }),
+}));
+
 // Import after mocking
-import { composeAndExportVideo } from '@/utils/videoCompositor';
+import { composeAndExportVideo, buildSceneTimeline, getCutScenes } from '@/utils/videoCompositor';
 
 describe('videoCompositor with FFmpeg', () => {
   const mockScenes: Scene[] = [
@@ -67,6 +73,7 @@ describe('videoCompositor with FFmpeg', () => {
       readFile: mockReadFile,
       deleteFile: mockDeleteFile,
       on: mockOn,
+      terminate: mockTerminate,
       loaded: false,
     }));
   });
@@ -80,15 +87,12 @@ describe('videoCompositor with FFmpeg', () => {
       mockMasterAudioUrl,
       mockBackgroundMusicUrl,
       onProgress,
-      '16:9',
-      'seedance-1.5',
-      true,
-      undefined,
-      false
+      { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true }
     );
 
-    expect(onProgress).toHaveBeenCalledWith(expect.stringContaining('Loading FFmpeg'));
-    expect(onProgress).toHaveBeenCalledWith(expect.stringContaining('Downloading'));
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ phase: 'loading', message: expect.stringContaining('Loading FFmpeg') }));
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ phase: 'downloading', message: expect.stringContaining('Downloading') }));
+    expect(mockLoad).toHaveBeenCalledWith({ coreURL: 'blob:core', wasmURL: 'blob:wasm', workerURL: undefined });
   });
 
   it('should return a Blob with video/mp4 type', async () => {
@@ -100,8 +104,7 @@ describe('videoCompositor with FFmpeg', () => {
       mockMasterAudioUrl,
       mockBackgroundMusicUrl,
       onProgress,
-      '16:9',
-      'seedance-1.5'
+      { aspectRatio: '16:9', videoModel: 'seedance-1.5' }
     );
 
     expect(result).toBeInstanceOf(Blob);
@@ -197,8 +200,7 @@ describe('videoCompositor with FFmpeg', () => {
       null,
       null,
       onProgress,
-      '16:9',
-      'veo-3.1'
+      { aspectRatio: '16:9', videoModel: 'veo-3.1' }
     );
 
     // FFmpeg exec should be called for concatenation and encoding
@@ -214,12 +216,741 @@ describe('videoCompositor with FFmpeg', () => {
       null,
       null,
       onProgress,
-      '16:9',
-      'seedance-1.5',
-      true,
-      6 // Custom 6 second duration
+      { aspectRatio: '16:9', videoModel: 'seedance-1.5', clipDuration: 6 } // Custom 6 second duration
     );
 
     expect(mockExec).toHaveBeenCalled();
   });
+
+  describe('scene transitions', () => {
+    const scenesWithTransition: Scene[] = [
+      { ...mockScenes[0], transition: { type: 'crossfade', duration: 1 } },
+      mockScenes[1],
+    ];
+
+    it('should keep the stream-copy concat when every boundary is a cut', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5' });
+
+      const concatCall = mockExec.mock.calls.find(([args]) => args.includes('concat.txt'));
+      expect(concatCall?.[0]).toContain('copy');
+      expect(mockExec.mock.calls.some(([args]) => args.join(' ').includes('xfade'))).toBe(false);
+    });
+
+    it('should join clips with xfade and acrossfade when a transition is set', async () => {
+      await composeAndExportVideo(scenesWithTransition, mockVideoUrls, null, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5' });
+
+      const transitionCall = mockExec.mock.calls.find(([args]) => args.includes('-filter_complex') && args.includes('[vjoined]'));
+      expect(transitionCall).toBeDefined();
+      const filter = transitionCall![0][transitionCall![0].indexOf('-filter_complex') + 1];
+      // 4s clip with a 1s crossfade starts the next clip at 3s
+      expect(filter).toContain('xfade=transition=fade:duration=1:offset=3');
+      expect(filter).toContain('acrossfade=d=1');
+      expect(mockWriteFile).not.toHaveBeenCalledWith('concat.txt', expect.any(String));
+    });
+
+    it('should trim background music to the shortened duration', async () => {
+      await composeAndExportVideo(scenesWithTransition, mockVideoUrls, null, mockBackgroundMusicUrl, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5' });
+
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toContain('atrim=0:7');
+    });
+  });
+
+  describe('soft subtitles', () => {
+    it('should mux captions as a mov_text track when requested', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, captions: 'soft' });
+
+      expect(mockWriteFile).toHaveBeenCalledWith('subtitles.srt', expect.stringContaining('00:00:04,000 --> 00:00:08,000\nWorld'));
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      expect(finalCall).toEqual(expect.arrayContaining(['-i', 'subtitles.srt', '-c:s', 'mov_text']));
+      expect(finalCall).toContain('2:s');
+      expect(mockDeleteFile).toHaveBeenCalledWith('subtitles.srt');
+    });
+
+    it('should not add a subtitle track by default', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn());
+
+      expect(mockWriteFile).not.toHaveBeenCalledWith('subtitles.srt', expect.anything());
+    });
+  });
+
+  describe('scene-aligned voiceover', () => {
+    const segments = [
+      { sceneId: 1, offset: 0, duration: 3 },
+      { sceneId: 2, offset: 3, duration: 4.5 },
+    ];
+
+    it('should place each scene segment at its scene start', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, voiceoverSegments: segments });
+
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toContain('[1:a]asplit=2[vo0in][vo1in]');
+      expect(filter).toContain('[vo0in]atrim=0:3,asetpts=PTS-STARTPTS,adelay=delays=0:all=1[vo0]');
+      // Scene 2 narration is longer than its 4s slot, so it is sped up to fit
+      expect(filter).toContain('[vo1in]atrim=3:7.5,asetpts=PTS-STARTPTS,atempo=1.125,adelay=delays=4000:all=1[vo1]');
+      expect(filter).toContain('[vo0][vo1]amix=inputs=2:duration=longest:normalize=0[voice]');
+    });
+
+    it('should skip segments for scenes without video', async () => {
+      await composeAndExportVideo(mockScenes, { 2: mockVideoUrls[2] }, mockMasterAudioUrl, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, voiceoverSegments: segments });
+
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toContain('[1:a]atrim=3:7.5,asetpts=PTS-STARTPTS,atempo=1.125,adelay=delays=0:all=1[vo0];[vo0]anull[voice]');
+    });
+  });
+
+  describe('music ducking', () => {
+    const segments = [
+      { sceneId: 1, offset: 0, duration: 2 },
+      { sceneId: 2, offset: 2, duration: 3 },
+    ];
+
+    const musicFilter = () => {
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      const filter: string = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      return filter.split(';').find(f => f.endsWith('[music]'))!;
+    };
+
+    it('should dip the music under each narration segment', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, mockBackgroundMusicUrl, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, voiceoverSegments: segments });
+
+      expect(musicFilter()).toContain(
+        "volume='0.2*pow(10,-12*max(clip(min((t+0.3)/0.3,(2.3-t)/0.3),0,1),clip(min((t-3.7)/0.3,(7.3-t)/0.3),0,1))/20)':eval=frame"
+      );
+    });
+
+    it('should use the configured base level and depth', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, mockBackgroundMusicUrl, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, voiceoverSegments: segments, musicDucking: { baseVolume: 0.35, duckDb: -6 } });
+
+      expect(musicFilter()).toContain("volume='0.35*pow(10,-6*");
+    });
+
+    it('should keep a flat level when ducking is off or narration timing is unknown', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, mockBackgroundMusicUrl, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, voiceoverSegments: segments, musicDucking: { baseVolume: 0.2, duckDb: 0 } });
+      expect(musicFilter()).toMatch(/,volume=0\.2\[music\]$/);
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, mockBackgroundMusicUrl, jest.fn());
+      expect(musicFilter()).toMatch(/,volume=0\.2\[music\]$/);
+    });
+  });
+
+  describe('loudness normalization', () => {
+    const firstPass = { input_i: '-19.52', input_tp: '-3.10', input_lra: '6.20', input_thresh: '-29.90', target_offset: '0.35' };
+    const secondPass = { ...firstPass, output_i: '-14.02', output_tp: '-1.00', output_lra: '5.80' };
+
+    // Replay loudnorm's JSON report through the FFmpeg log handler, like the real binary does
+    const emitLoudnorm = (stats: Record<string, string>) => {
+      const [, handler] = mockOn.mock.calls.filter(([event]) => event === 'log').pop()!;
+      ['[Parsed_loudnorm_0 @ 0x1]', ...JSON.stringify(stats, null, 1).split('\n')].forEach(message => handler({ message }));
+    };
+
+    const mockLoudnorm = (measured: Record<string, string>) => {
+      mockExec.mockImplementation(async (args: string[]) => {
+        const audioFilter: string = args.includes('-af') ? args[args.indexOf('-af') + 1] : '';
+        if (audioFilter.startsWith('loudnorm')) {
+          emitLoudnorm(audioFilter.includes('measured_I') ? secondPass : measured);
+        }
+      });
+    };
+
+    afterEach(() => {
+      mockExec.mockReset();
+      mockExec.mockResolvedValue(undefined);
+    });
+
+    it('should measure then normalize with the measured values', async () => {
+      mockLoudnorm(firstPass);
+      const onMeasured = jest.fn();
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, loudness: { preset: 'social', onMeasured } });
+
+      const secondCall = mockExec.mock.calls.find(([args]) => args.includes('normalized.mp4'))![0];
+      expect(secondCall[secondCall.indexOf('-af') + 1]).toBe(
+        'loudnorm=I=-14:TP=-1:LRA=11:measured_I=-19.52:measured_TP=-3.10:measured_LRA=6.20:measured_thresh=-29.90:offset=0.35:linear=true:print_format=json'
+      );
+      expect(mockReadFile).toHaveBeenCalledWith('normalized.mp4');
+      expect(mockDeleteFile).toHaveBeenCalledWith('normalized.mp4');
+      expect(onMeasured).toHaveBeenCalledWith({
+        preset: 'social',
+        input: { integrated: -19.52, truePeak: -3.1, lra: 6.2 },
+        output: { integrated: -14.02, truePeak: -1, lra: 5.8 },
+      });
+    });
+
+    it('should use the broadcast target', async () => {
+      mockLoudnorm(firstPass);
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, loudness: { preset: 'broadcast' } });
+
+      const firstCall = mockExec.mock.calls.find(([args]) => args.includes('null'))![0];
+      expect(firstCall[firstCall.indexOf('-af') + 1]).toBe('loudnorm=I=-23:TP=-1:LRA=15:print_format=json');
+    });
+
+    it('should keep the mixed output when there is no audio to measure', async () => {
+      mockLoudnorm({ ...firstPass, input_i: '-inf', input_tp: '-inf' });
+      const onMeasured = jest.fn();
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, loudness: { preset: 'social', onMeasured } });
+
+      expect(mockExec.mock.calls.some(([args]) => args.includes('normalized.mp4'))).toBe(false);
+      expect(mockReadFile).toHaveBeenCalledWith('output.mp4');
+      expect(onMeasured).not.toHaveBeenCalled();
+    });
+
+    it('should not run loudnorm unless a target is chosen', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn());
+
+      expect(mockExec.mock.calls.some(([args]) => args.join(' ').includes('loudnorm'))).toBe(false);
+    });
+
+    it('should normalize a ProRes mezzanine with PCM audio into a MOV', async () => {
+      mockLoudnorm(firstPass);
+
+      const result = await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { preset: 'mezzanine', loudness: { preset: 'social' } });
+
+      const encode = mockExec.mock.calls.find(([args]) => args.includes('output.mov'))![0];
+      expect(encode).toEqual(expect.arrayContaining(['-c:v', 'prores_ks', '-c:a', 'pcm_s16le']));
+      const normalize = mockExec.mock.calls.find(([args]) => args.includes('normalized.mov'))![0];
+      expect(normalize).toEqual(expect.arrayContaining(['-c:a', 'pcm_s16le']));
+      expect(mockReadFile).toHaveBeenCalledWith('normalized.mov');
+      expect(result.type).toBe('video/quicktime');
+    });
+  });
+
+  describe('clip audio', () => {
+    // Report an audio stream when probing the listed clips
+    const mockClipAudio = (filesWithAudio: string[]) => {
+      mockExec.mockImplementation(async (args: string[]) => {
+        if (args.length === 3 && args[0] === '-hide_banner' && filesWithAudio.includes(args[2])) {
+          const [, handler] = mockOn.mock.calls.filter(([event]) => event === 'log').pop()!;
+          handler({ message: '  Stream #0:1[0x2](und): Audio: aac (LC), 44100 Hz, stereo, fltp' });
+        }
+      });
+    };
+
+    const finalFilter = () => {
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      return finalCall[finalCall.indexOf('-filter_complex') + 1] as string;
+    };
+
+    afterEach(() => {
+      mockExec.mockReset();
+      mockExec.mockResolvedValue(undefined);
+    });
+
+    it('should mix clip audio with the voiceover at its own gain', async () => {
+      mockClipAudio(['video_0.mp4', 'video_1.mp4']);
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn());
+
+      expect(finalFilter()).toContain('[0:a]volume=0.4[clip]');
+      expect(finalFilter()).toContain('[voice][clip]amix=inputs=2:duration=longest[aout]');
+      expect(mockExec.mock.calls.some(([args]) => args.includes('padded_0.mp4'))).toBe(false);
+    });
+
+    it('should pad clips without audio before stream-copy concat', async () => {
+      mockClipAudio(['video_0.mp4']);
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, mockBackgroundMusicUrl, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, clipAudioGain: 0.7 });
+
+      const padCalls = mockExec.mock.calls.filter(([args]) => args.some((a: string) => a.startsWith('padded_')));
+      expect(padCalls[0][0]).toEqual(expect.arrayContaining(['-i', 'video_0.mp4', '-map', '0:a', 'padded_0.mp4']));
+      expect(padCalls[1][0]).toEqual(expect.arrayContaining(['-i', 'video_1.mp4', 'anullsrc=r=44100:cl=stereo[silence]', 'padded_1.mp4']));
+      expect(mockWriteFile).toHaveBeenCalledWith('concat.txt', "file 'padded_0.mp4'\nfile 'padded_1.mp4'");
+      expect(finalFilter()).toContain('[voice][music][clip]amix=inputs=3:duration=longest[aout]');
+      expect(finalFilter()).toContain('[0:a]volume=0.7[clip]');
+      expect(mockDeleteFile).toHaveBeenCalledWith('padded_1.mp4');
+    });
+
+    it('should leave clip audio out of the mix when no clip has any', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn());
+
+      expect(finalFilter()).not.toContain('[clip]');
+    });
+
+    it('should drop clip audio entirely when its gain is zero', async () => {
+      mockClipAudio(['video_0.mp4', 'video_1.mp4']);
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { aspectRatio: '16:9', videoModel: 'seedance-1.5', includeMusic: true, clipAudioGain: 0 });
+
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0];
+      expect(finalCall).toEqual(expect.arrayContaining(['-map', '0:v']));
+      expect(finalCall).not.toContain('0:a?');
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    afterEach(() => {
+      mockExec.mockReset();
+      mockExec.mockResolvedValue(undefined);
+    });
+
+    it('should report each clip download with its scene index', async () => {
+      const onProgress = jest.fn();
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith({ phase: 'downloading', message: 'Downloading video 1/2...', sceneIndex: 0, percent: 0 });
+      expect(onProgress).toHaveBeenCalledWith({ phase: 'downloading', message: 'Downloading video 2/2...', sceneIndex: 1, percent: 50 });
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ phase: 'analyzing', sceneIndex: 1 }));
+    });
+
+    it('should attach FFmpeg encode progress to the running phase', async () => {
+      const onProgress = jest.fn();
+      mockExec.mockImplementation(async (args: string[]) => {
+        if (args.includes('output.mp4')) {
+          const [, handler] = mockOn.mock.calls.filter(([event]) => event === 'progress').pop()!;
+          handler({ progress: 0.42 });
+        }
+      });
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith({ phase: 'encoding', message: 'Encoding: 42%', percent: 42 });
+    });
+
+    it('should terminate FFmpeg and reject with an AbortError when cancelled', async () => {
+      const controller = new AbortController();
+      mockExec.mockImplementation(async (args: string[]) => {
+        if (args.includes('output.mp4')) {
+          controller.abort();
+          throw new Error('called FFmpeg.terminate()');
+        }
+      });
+
+      await expect(
+        composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockTerminate).toHaveBeenCalled();
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockLoad).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export presets', () => {
+    const lastCall = () => mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[];
+
+    it('should upscale to 1080p for the HD preset', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { preset: 'hd_1080p' });
+
+      const finalCall = lastCall();
+      expect(finalCall[finalCall.indexOf('-vf') + 1]).toContain('scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080');
+      expect(finalCall).toEqual(expect.arrayContaining(['-crf', '20']));
+    });
+
+    it('should crop to a square frame and burn captions after cropping', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { preset: 'square', captions: 'burned' });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter.startsWith('[0:v]scale=1080:1080:force_original_aspect_ratio=increase,crop=1080:1080')).toBe(true);
+      expect(filter).toContain('drawtext');
+    });
+
+    it('should encode WebM with VP9, Opus and a WebVTT subtitle track', async () => {
+      const result = await composeAndExportVideo(mockScenes, mockVideoUrls, mockMasterAudioUrl, null, jest.fn(), { preset: 'webm_vp9', captions: 'soft' });
+
+      const finalCall = lastCall();
+      expect(finalCall).toEqual(expect.arrayContaining(['-c:v', 'libvpx-vp9', '-c:a', 'libopus', '-c:s', 'webvtt']));
+      expect(finalCall).not.toContain('-movflags');
+      expect(finalCall[finalCall.length - 1]).toBe('output.webm');
+      expect(mockReadFile).toHaveBeenCalledWith('output.webm');
+      expect(result.type).toBe('video/webm');
+    });
+  });
+
+  describe('brand kit', () => {
+    const lastCall = () => mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[];
+    const brandKit = {
+      logoUrl: 'https://video-studio.jarwater.com/brand/logo.png',
+      logoPosition: 'top_right' as const,
+      logoOpacity: 0.5,
+      fontUrl: 'https://video-studio.jarwater.com/brand/font.ttf',
+      textColor: '#FFEE00',
+      accentColor: '#00AAFF',
+      boxColor: '#112233',
+      captionStyle: 'box' as const,
+      safeAreaMargin: 0.05,
+    };
+
+    it('should style burned captions with the brand colours, box and safe area', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        brandKit: { ...brandKit, logoUrl: undefined },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      expect(filter).toContain('fontcolor=0xFFEE00:box=1:boxcolor=0x112233@0.6:boxborderw=16');
+      // 720p frame: 5% safe area (36px) plus the box padding, above two lines of 18px text
+      expect(filter).toContain(':y=632:');
+    });
+
+    it('should load the brand font through the font proxy', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { captions: 'burned', brandKit });
+
+      const { fetchFile } = jest.requireMock('@ffmpeg/util');
+      expect(fetchFile).toHaveBeenCalledWith(`/api/proxy-font?url=${encodeURIComponent(brandKit.fontUrl)}`);
+      expect(fetchFile).not.toHaveBeenCalledWith('/api/proxy-font');
+    });
+
+    it('should overlay the logo watermark at its corner and opacity', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { brandKit });
+
+      const finalCall = lastCall();
+      expect(mockWriteFile).toHaveBeenCalledWith('watermark.png', expect.anything());
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toBe(
+        "[0:v]null[v0];[1:v]scale=-1:58,format=rgba,colorchannelmixer=aa=0.5[img0];[v0][img0]overlay=x=W-w-36:y=36:enable='1'[vout]"
+      );
+      expect(mockDeleteFile).toHaveBeenCalledWith('watermark.png');
+    });
+
+    it('should keep the default look without a brand kit', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), { captions: 'burned' });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      expect(filter).toContain('fontcolor=0xFFFFFF:x=(w-tw)/2');
+      expect(filter).not.toContain('box=1');
+    });
+  });
+
+  describe('clip durations', () => {
+    // Report the given length when probing each clip
+    const mockClipDurations = (durations: Record<string, string>) => {
+      mockExec.mockImplementation(async (args: string[]) => {
+        if (args.length === 3 && args[0] === '-hide_banner' && durations[args[2]]) {
+          const [, handler] = mockOn.mock.calls.filter(([event]) => event === 'log').pop()!;
+          handler({ message: `  Duration: ${durations[args[2]]}, start: 0.000000, bitrate: 2500 kb/s` });
+        }
+      });
+    };
+
+    afterEach(() => {
+      mockExec.mockReset();
+      mockExec.mockResolvedValue(undefined);
+    });
+
+    it('should time captions and trim music to the probed clip lengths', async () => {
+      mockClipDurations({ 'video_0.mp4': '00:00:05.50', 'video_1.mp4': '00:00:06.25' });
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, mockBackgroundMusicUrl, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        captions: 'burned',
+      });
+
+      const filter = (mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[]).join(' ');
+      expect(filter).toContain("enable='between(t,5.5,11.75)'");
+      expect(filter).toContain('atrim=0:11.75');
+    });
+
+    it('should re-encode only the edited clips and time the film by their edited length', async () => {
+      mockClipDurations({ 'video_0.mp4': '00:00:08.00', 'video_1.mp4': '00:00:08.00' });
+      const scenes: Scene[] = [{ ...mockScenes[0], clipEdit: { trimIn: 1, trimOut: 7, speed: 2 } }, mockScenes[1]];
+
+      await composeAndExportVideo(scenes, mockVideoUrls, null, mockBackgroundMusicUrl, jest.fn(), { videoModel: 'veo-3.1' });
+
+      const editCalls = mockExec.mock.calls.filter(([args]) => args[args.length - 1].startsWith('edited_'));
+      expect(editCalls).toHaveLength(1);
+      expect(editCalls[0][0]).toEqual(expect.arrayContaining([
+        '-i', 'video_0.mp4', '-vf', 'trim=start=1:end=7,setpts=(PTS-STARTPTS)/2', '-an', 'edited_0.mp4',
+      ]));
+      const filter = (mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[]).join(' ');
+      expect(filter).toContain('atrim=0:11');
+      expect(mockDeleteFile).toHaveBeenCalledWith('video_0.mp4');
+    });
+
+    it('should join edited clips with the rest by re-encoding instead of stream copy', async () => {
+      mockClipDurations({ 'video_0.mp4': '00:00:08.00', 'video_1.mp4': '00:00:08.00' });
+      const scenes: Scene[] = [
+        { ...mockScenes[0], clipEdit: { trimIn: 2, speed: 1 }, transition: { type: 'none', duration: 0 } },
+        mockScenes[1],
+      ];
+
+      await composeAndExportVideo(scenes, mockVideoUrls, null, null, jest.fn(), { videoModel: 'veo-3.1' });
+
+      expect(mockWriteFile).not.toHaveBeenCalledWith('concat.txt', expect.anything());
+      const joinCall = mockExec.mock.calls.find(([args]) => args.includes('concatenated.mp4'))![0] as string[];
+      expect(joinCall).toEqual(expect.arrayContaining(['-i', 'edited_0.mp4', '-i', 'video_1.mp4', '-c:v', 'libx264']));
+      expect(joinCall[joinCall.indexOf('-filter_complex') + 1]).not.toContain('xfade');
+    });
+
+    it('should fall back to the clip duration for clips that cannot be probed', async () => {
+      mockClipDurations({ 'video_0.mp4': '00:00:05.50' });
+
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, mockBackgroundMusicUrl, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        clipDuration: 6,
+      });
+
+      const finalCall = mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[];
+      expect(finalCall[finalCall.indexOf('-filter_complex') + 1]).toContain('atrim=0:11.5');
+    });
+  });
+
+  describe('caption languages', () => {
+    const lastCall = () => mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[];
+    const withText = (text: string) => mockScenes.map((scene, index) => index === 0 ? { ...scene, voiceoverText: text } : scene);
+
+    it('should load the script font for non-Latin languages instead of the brand font', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        language: 'japanese',
+        brandKit: { fontUrl: 'https://video-studio.jarwater.com/brand/font.ttf' } as BrandKit,
+      });
+
+      const { fetchFile } = jest.requireMock('@ffmpeg/util');
+      expect(fetchFile).toHaveBeenCalledWith('/api/proxy-font?script=japanese');
+      expect(fetchFile).not.toHaveBeenCalledWith(expect.stringContaining('/api/proxy-font?url='));
+    });
+
+    it('should wrap long CJK captions onto lines stacked above the safe area', async () => {
+      await composeAndExportVideo(withText('あ'.repeat(80)), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        language: 'japanese',
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      // 720p frame: 18px text fits 56 full-width characters in 80% of the width
+      expect(filter).toContain(`text='${'あ'.repeat(56)}':fontsize=18:fontcolor=0xFFFFFF:x=(w-tw)/2:y=632:`);
+      expect(filter).toContain(`text='${'あ'.repeat(24)}':fontsize=18:fontcolor=0xFFFFFF:x=(w-tw)/2:y=655:`);
+    });
+
+    it('should split captions past the line budget into consecutive cues', async () => {
+      await composeAndExportVideo(withText('あ'.repeat(80)), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        captionLayout: { maxLines: 1, maxWidth: 0.5 },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      // 35 characters per line; the 8 second clip is shared 35/35/10
+      expect(filter).toContain(`text='${'あ'.repeat(35)}':fontsize=18:fontcolor=0xFFFFFF:x=(w-tw)/2:y=655:enable='between(t,0,3.5)'`);
+      expect(filter).toContain(`text='${'あ'.repeat(10)}':fontsize=18:fontcolor=0xFFFFFF:x=(w-tw)/2:y=655:enable='between(t,7,8)'`);
+    });
+
+    it('should keep captions clear of the social app UI', async () => {
+      await composeAndExportVideo(withText('Hello'), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        aspectRatio: '9:16',
+        captionLayout: { maxLines: 2, maxWidth: 0.9, socialSafeArea: true },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      // 1280px tall frame: the bottom fifth (256px) is left to the app, above two lines of 32px text
+      expect(filter).toContain("text='Hello':fontsize=32:fontcolor=0xFFFFFF:x=(w-tw)/2:y=960:");
+    });
+
+    it('should shape Arabic captions right to left', async () => {
+      await composeAndExportVideo(withText('مرحبا بالعالم'), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        language: 'arabic',
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      expect(filter).toContain("text='مرحبا بالعالم':fontsize=18:fontcolor=0xFFFFFF:text_shaping=1:");
+    });
+
+    it('should put Hindi captions in a subtitle track instead of burning them in', async () => {
+      await composeAndExportVideo(withText('नमस्ते दुनिया'), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'burned',
+        language: 'hindi',
+      });
+
+      const finalCall = lastCall();
+      expect(mockWriteFile).toHaveBeenCalledWith('subtitles.srt', expect.stringContaining('नमस्ते दुनिया'));
+      expect(finalCall).toEqual(expect.arrayContaining(['-i', 'subtitles.srt', '-c:s', 'mov_text']));
+      expect(finalCall.join(' ')).not.toContain('drawtext');
+    });
+
+    it('should mark Arabic soft subtitles right to left', async () => {
+      await composeAndExportVideo(withText('مرحبا'), mockVideoUrls, null, null, jest.fn(), {
+        captions: 'soft',
+        language: 'arabic',
+      });
+
+      const srt = mockWriteFile.mock.calls.find(([name]) => name === 'subtitles.srt')?.[1];
+      expect(srt).toContain('\u200Fمرحبا');
+    });
+  });
+
+  describe('overlays', () => {
+    const lastCall = () => mockExec.mock.calls[mockExec.mock.calls.length - 1][0] as string[];
+    const dialogueScenes: Scene[] = [
+      { ...mockScenes[0], dialogue: [{ speaker: 'Maya', text: 'Hello' }] },
+      { ...mockScenes[1], dialogue: [{ speaker: 'Maya', text: 'Again' }, { speaker: 'Leo', text: 'Hi' }] },
+    ];
+
+    it('should draw the title card over the opening shot', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        title: 'Launch Day',
+        overlays: { titleCard: { enabled: true, duration: 3, subtitle: 'A short film' } },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      expect(filter).toContain("drawbox=x=0:y=0:w=iw:h=ih:color=black@0.5:t=fill:enable='between(t,0,3)'");
+      expect(filter).toContain("text='Launch Day'");
+      expect(filter).toContain("text='A short film'");
+      expect(mockWriteFile).toHaveBeenCalledWith('font.ttf', expect.anything());
+    });
+
+    it('should tag each character once, when they first speak', async () => {
+      await composeAndExportVideo(dialogueScenes, mockVideoUrls, null, null, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        overlays: { lowerThirds: true },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-vf') + 1];
+      expect(filter.match(/text='Maya'/g)).toHaveLength(1);
+      expect(filter).toContain("text='Leo'");
+      expect(filter).toContain("enable='between(t,4,7)'");
+    });
+
+    it('should append the end card and extend the music under it', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, mockBackgroundMusicUrl, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        overlays: { endCard: { enabled: true, duration: 4, callToAction: 'Try it free', url: 'example.com' } },
+      });
+
+      const finalCall = lastCall();
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toContain('tpad=stop_mode=add:stop_duration=4:color=0x000000');
+      expect(filter).toContain("text='Try it free'");
+      expect(filter).toContain("enable='gte(t,8)'");
+      expect(filter).toContain('atrim=0:12');
+    });
+
+    it('should overlay the end card logo from its own input', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        videoModel: 'seedance-1.5',
+        overlays: { endCard: { enabled: true, duration: 4, logoUrl: 'https://video-studio.jarwater.com/brand/logo.jpg' } },
+      });
+
+      const finalCall = lastCall();
+      expect(mockWriteFile).toHaveBeenCalledWith('logo.jpg', expect.anything());
+      expect(finalCall).toEqual(expect.arrayContaining(['-i', 'logo.jpg']));
+      const filter = finalCall[finalCall.indexOf('-filter_complex') + 1];
+      expect(filter).toContain('[1:v]scale=-1:144[img0];[v0][img0]overlay=x=(W-w)/2:y=H*0.3-h/2');
+      expect(finalCall).toEqual(expect.arrayContaining(['-map', '[vout]']));
+      expect(mockDeleteFile).toHaveBeenCalledWith('logo.jpg');
+    });
+
+    it('should reject an end card logo the export cannot fetch', async () => {
+      await expect(composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        overlays: { endCard: { enabled: true, duration: 4, logoUrl: 'https://example.com/logo.png' } },
+      })).rejects.toThrow("The end card logo can't be fetched for the export; upload it instead");
+    });
+
+    it('should skip the title card without a title', async () => {
+      await composeAndExportVideo(mockScenes, mockVideoUrls, null, null, jest.fn(), {
+        overlays: { titleCard: { enabled: true, duration: 3 } },
+      });
+
+      expect(lastCall()).not.toContain('-vf');
+      expect(mockWriteFile).not.toHaveBeenCalledWith('font.ttf', expect.anything());
+    });
+  });
+
+  describe('storyboard stills', () => {
+    const videoUrls = { 1: mockVideoUrls[1] };
+    const stillFrames = { 2: 'https://example.com/frame-2.png' };
+
+    it('should animate the storyboard frame for a scene without a clip', async () => {
+      await composeAndExportVideo(mockScenes, videoUrls, null, null, jest.fn(), { videoModel: 'veo-3.1', stillFrames });
+
+      const { fetchFile } = jest.requireMock('@ffmpeg/util');
+      expect(fetchFile).toHaveBeenCalledWith(`/api/proxy-video?url=${encodeURIComponent(stillFrames[2])}`);
+      const stillCall = mockExec.mock.calls.find(([args]) => args.includes('still_1.mp4'))![0] as string[];
+      expect(stillCall).toEqual(expect.arrayContaining(['-i', 'frame_1.png', '-t', '8']));
+      expect(stillCall[stillCall.indexOf('-vf') + 1]).toContain('zoompan=');
+      expect(stillCall[stillCall.indexOf('-vf') + 1]).toContain('d=192:s=1280x720');
+    });
+
+    it('should join stills with the clips by re-encoding instead of stream copy', async () => {
+      await composeAndExportVideo(mockScenes, videoUrls, null, null, jest.fn(), { videoModel: 'veo-3.1', stillFrames });
+
+      expect(mockWriteFile).not.toHaveBeenCalledWith('concat.txt', expect.anything());
+      const joinCall = mockExec.mock.calls.find(([args]) => args.includes('concatenated.mp4'))![0] as string[];
+      expect(joinCall).toEqual(expect.arrayContaining(['-i', 'video_0.mp4', '-i', 'still_1.mp4']));
+      expect(joinCall[joinCall.indexOf('-filter_complex') + 1]).toContain('anullsrc');
+      expect(mockDeleteFile).toHaveBeenCalledWith('frame_1.png');
+    });
+
+    it('should keep only scenes with a clip or a still, without trimming stills', () => {
+      const scenes: Scene[] = [
+        mockScenes[0],
+        { ...mockScenes[1], clipEdit: { trimIn: 1, speed: 2 } },
+        { ...mockScenes[1], id: 3 },
+      ];
+
+      const cut = getCutScenes(scenes, videoUrls, stillFrames);
+
+      expect(cut.map(s => s.id)).toEqual([1, 2]);
+      expect(cut[1].clipEdit).toBeUndefined();
+    });
+  });
+
+  describe('buildSceneTimeline', () => {
+    it('should lay clips end to end without transitions', () => {
+      const { timings, totalDuration } = buildSceneTimeline(mockScenes, 4);
+
+      expect(timings.map(t => t.start)).toEqual([0, 4]);
+      expect(totalDuration).toBe(8);
+    });
+
+    it('should overlap clips by the transition duration', () => {
+      const scenes: Scene[] = [
+        { ...mockScenes[0], transition: { type: 'dip_to_black', duration: 0.5 } },
+        { ...mockScenes[1], transition: { type: 'slide', duration: 0.5 } },
+      ];
+      const { timings, totalDuration } = buildSceneTimeline(scenes, 4);
+
+      expect(timings[1].start).toBe(3.5);
+      // Transition on the last scene has nothing to blend into
+      expect(timings[1].transitionOut).toBe(0);
+      expect(totalDuration).toBe(7.5);
+    });
+
+    it('should clamp transitions to half the clip duration', () => {
+      const scenes: Scene[] = [
+        { ...mockScenes[0], transition: { type: 'wipe', duration: 10 } },
+        mockScenes[1],
+      ];
+      const { timings } = buildSceneTimeline(scenes, 4);
+
+      expect(timings[0].transitionOut).toBe(2);
+    });
+
+    it('should use real clip lengths where they are known', () => {
+      const scenes: Scene[] = [
+        { ...mockScenes[0], transition: { type: 'crossfade', duration: 10 } },
+        mockScenes[1],
+      ];
+      const { timings, totalDuration } = buildSceneTimeline(scenes, 4, { 1: 8.04, 2: 3 });
+
+      expect(timings[0].duration).toBe(8.04);
+      // Clamped to half of the shorter clip
+      expect(timings[0].transitionOut).toBe(1.5);
+      expect(timings[1]).toEqual({ start: 6.54, duration: 3, transitionOut: 0 });
+      expect(totalDuration).toBe(9.54);
+    });
+  });
 });
@@ -0,0 +1,58 @@
+import { probeVideoDuration } from '@/utils/videoDuration';
+
+describe('probeVideoDuration', () => {
+  let video: HTMLVideoElement;
+
+  beforeEach(() => {
+    const createElement = document.createElement.bind(document);
+    jest.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+      const element = createElement(tagName);
+      if (tagName === 'video') video = element as HTMLVideoElement;
+      return element;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const loadMetadata = (duration: number) => {
+    Object.defineProperty(video, 'duration', { value: duration });
+    video.onloadedmetadata?.(new Event('loadedmetadata'));
+  };
+
+  it('should resolve with the duration from the video metadata', async () => {
+    const probe = probeVideoDuration('https://example.com/clip.mp4');
+    expect(video.preload).toBe('metadata');
+
+    loadMetadata(8.0416667);
+
+    await expect(probe).resolves.toBe(8.042);
+  });
+
+  it('should resolve with null when the video fails to load', async () => {
+    const probe = probeVideoDuration('https://example.com/missing.mp4');
+
+    video.onerror?.(new Event('error'));
+
+    await expect(probe).resolves.toBeNull();
+  });
+
+  it('should resolve with null when the metadata has no usable duration', async () => {
+    const probe = probeVideoDuration('https://example.com/live.m3u8');
+
+    loadMetadata(Infinity);
+
+    await expect(probe).resolves.toBeNull();
+  });
+
+  it('should give up after a timeout', async () => {
+    jest.useFakeTimers();
+    const probe = probeVideoDuration('https://example.com/slow.mp4');
+
+    jest.advanceTimersByTime(15000);
+
+    await expect(probe).resolves.toBeNull();
+  });
+});
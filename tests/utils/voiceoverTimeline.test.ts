@@ -0,0 +1,74 @@
+import { placeVoiceoverSegments, alignVoiceoverLines, MAX_VOICEOVER_TEMPO } from '@/utils/voiceoverTimeline';
+import { Scene, VoiceoverSegment } from '@/types';
+import type { SceneTiming } from '@/utils/videoCompositor';
+
+describe('voiceoverTimeline', () => {
+  const scenes: Scene[] = [
+    { id: 1, visualDescription: 'Scene 1', voiceoverText: 'Hello there' },
+    { id: 2, visualDescription: 'Scene 2', voiceoverText: 'I waited' },
+    { id: 3, visualDescription: 'Scene 3', voiceoverText: 'Goodbye' },
+  ];
+
+  // 4s clips with a 0.5s transition out of scene 2
+  const timings: SceneTiming[] = [
+    { start: 0, duration: 4, transitionOut: 0 },
+    { start: 4, duration: 4, transitionOut: 0.5 },
+    { start: 7.5, duration: 4, transitionOut: 0 },
+  ];
+
+  describe('placeVoiceoverSegments', () => {
+    it('should place segments at their scene start without stretching when they fit', () => {
+      const segments: VoiceoverSegment[] = [
+        { sceneId: 1, offset: 0, duration: 3 },
+        { sceneId: 3, offset: 3, duration: 2 },
+      ];
+
+      expect(placeVoiceoverSegments(segments, scenes, timings)).toEqual([
+        { sceneId: 1, offset: 0, duration: 3, start: 0, tempo: 1, overflow: 0 },
+        { sceneId: 3, offset: 3, duration: 2, start: 7.5, tempo: 1, overflow: 0 },
+      ]);
+    });
+
+    it('should speed narration up to fit a slot shortened by a transition', () => {
+      const [placement] = placeVoiceoverSegments([{ sceneId: 2, offset: 0, duration: 4 }], scenes, timings);
+
+      expect(placement.tempo).toBe(1.143);
+      expect(placement.overflow).toBe(0);
+    });
+
+    it('should flag narration that overflows even at the maximum tempo', () => {
+      const [placement] = placeVoiceoverSegments([{ sceneId: 1, offset: 0, duration: 6 }], scenes, timings);
+
+      expect(placement.tempo).toBe(MAX_VOICEOVER_TEMPO);
+      expect(placement.overflow).toBe(0.8);
+    });
+
+    it('should drop segments for scenes that are not on the timeline', () => {
+      const placements = placeVoiceoverSegments([{ sceneId: 9, offset: 0, duration: 2 }], scenes, timings);
+
+      expect(placements).toEqual([]);
+    });
+  });
+
+  describe('alignVoiceoverLines', () => {
+    it('should move lines with their scene segment and scale them by its tempo', () => {
+      const placements = placeVoiceoverSegments(
+        [{ sceneId: 1, offset: 0, duration: 2 }, { sceneId: 2, offset: 2, duration: 4 }],
+        scenes,
+        timings
+      );
+      const aligned = alignVoiceoverLines([
+        { sceneId: 1, speaker: 'narrator', text: 'Hello there', start: 0, duration: 2 },
+        { sceneId: 2, speaker: 'Hana', text: 'I', start: 2, duration: 2 },
+        { sceneId: 2, speaker: 'Hana', text: 'waited', start: 4, duration: 2 },
+        { sceneId: 9, speaker: 'narrator', text: 'Cut scene', start: 6, duration: 1 },
+      ], placements);
+
+      expect(aligned.map(l => [l.text, l.start, l.duration])).toEqual([
+        ['Hello there', 0, 2],
+        ['I', 4, 1.75],
+        ['waited', 5.75, 1.75],
+      ]);
+    });
+  });
+});